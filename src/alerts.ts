@@ -0,0 +1,160 @@
+/**
+ * ALERTS
+ * Inspect subscriptions, test notifiers and re-send stored events
+ *
+ * Usage:
+ *   npm run alerts -- list                        Rules and notifiers
+ *   npm run alerts -- test <notifier>             Send a sample alert through one notifier
+ *   npm run alerts -- send [--since YYYY-MM-DD] [--dry-run]
+ *                                                 Match stored events and send (or print) alerts
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import SubscriptionManager from './notifications/subscriptions.js';
+import { formatAlert } from './notifications/format.js';
+import { createStorage } from './storage/index.js';
+import { TenderAlert } from './types/index.js';
+
+interface AlertsOptions {
+  since?: Date;
+  dryRun: boolean;
+}
+
+class AlertsCommand {
+  private subscriptions: SubscriptionManager;
+
+  constructor() {
+    this.subscriptions = new SubscriptionManager();
+  }
+
+  async run(args: string[], options: AlertsOptions): Promise<void> {
+    const [command = 'list', ...rest] = args;
+
+    if (!(await this.subscriptions.load())) {
+      console.log('No subscriptions file. Copy subscriptions.example.json to subscriptions.json.');
+      return;
+    }
+
+    switch (command) {
+      case 'list':
+        return this.list();
+      case 'test':
+        return this.test(rest[0]);
+      case 'send':
+        return this.send(options);
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: list, test <notifier>, send [--since YYYY-MM-DD] [--dry-run]');
+    }
+  }
+
+  /**
+   * List rules and notifiers
+   */
+  private list(): void {
+    console.log('\n=== SUBSCRIPTION RULES ===');
+    for (const rule of this.subscriptions.getRules()) {
+      console.log(`${rule.id}  ${rule.name}`);
+      console.log(`  KOD BIDANG: ${rule.kod_bidang_prefixes.map((p) => `${p}*`).join(', ') || 'any'}`);
+      console.log(`  Keywords:   ${rule.keywords.join(', ') || 'any'}`);
+      if (rule.date_window) console.log(`  Dates:      ${JSON.stringify(rule.date_window)}`);
+      console.log(`  Status:     ${rule.statuses?.join(', ') || 'any'}`);
+      console.log(`  Events:     ${(rule.event_types || ['new']).join(', ')}`);
+      console.log(`  Notifiers:  ${rule.notifiers.join(', ')}`);
+    }
+
+    console.log('\n=== NOTIFIERS ===');
+    console.log(this.subscriptions.getNotifierIds().join(', '));
+  }
+
+  /**
+   * Send a sample alert through one notifier
+   */
+  private async test(notifierId: string | undefined): Promise<void> {
+    if (!notifierId) {
+      console.log(`Usage: npm run alerts -- test <notifier> (${this.subscriptions.getNotifierIds().join(', ')})`);
+      return;
+    }
+
+    const now = new Date();
+    const alert: TenderAlert = {
+      rule: { id: 'test', name: 'Test alert' },
+      events: [
+        {
+          id: 'test',
+          type: 'new',
+          key: 'TEST/0001|010301',
+          daftar: 'TEST/0001',
+          crawl_id: 'test',
+          detected_at: now,
+          changes: [],
+          tender: {
+            bil: 1,
+            tarikh: now.toISOString().slice(0, 10),
+            daftar: 'TEST/0001',
+            bidang: 'Bekalan Contoh',
+            kod_bidang: '010301',
+            keterangan: 'Sample tender sent by npm run alerts -- test',
+            status: 'Aktif',
+          },
+        },
+      ],
+      generated_at: now,
+    };
+
+    await this.subscriptions.getNotifier(notifierId).send(alert);
+    console.log(`Sent test alert via ${notifierId}`);
+  }
+
+  /**
+   * Match stored events against the rules and send the alerts
+   */
+  private async send(options: AlertsOptions): Promise<void> {
+    const storage = createStorage();
+
+    try {
+      await storage.initialize();
+      const events = await storage.getEvents({ since: options.since });
+
+      if (options.dryRun) {
+        const alerts = this.subscriptions.buildAlerts(events);
+        for (const { alert } of alerts) {
+          console.log(formatAlert(alert));
+        }
+        console.log(`${alerts.length} alerts from ${events.length} events (dry run, nothing sent)`);
+        return;
+      }
+
+      const summary = await this.subscriptions.dispatch(events);
+      console.log(`Alerts sent: ${summary.sent} for ${summary.alerts} rules (${summary.events} events)`);
+      for (const failure of summary.failures) {
+        console.log(`  ✗ ${failure.rule_id} via ${failure.notifier_id}: ${failure.error}`);
+      }
+    } finally {
+      await storage.close();
+    }
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    since: { type: 'string', short: 's' },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+const since = values.since ? new Date(values.since as string) : undefined;
+if (since && isNaN(since.getTime())) {
+  console.log(`Invalid date: ${values.since}`);
+  process.exit(1);
+}
+
+// Run command
+const alertsCommand = new AlertsCommand();
+alertsCommand.run(positionals, { since, dryRun: values['dry-run'] as boolean }).catch((error) => {
+  logger.error('Fatal error', { error });
+  process.exit(1);
+});
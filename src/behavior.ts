@@ -0,0 +1,137 @@
+/**
+ * BEHAVIOR PROFILES
+ * Inspect, diff and refresh stored website behavior profiles
+ *
+ * Usage:
+ *   npm run behavior -- list
+ *   npm run behavior -- diff [fromVersion] [toVersion]
+ *   npm run behavior -- learn
+ *
+ * Add --source ID to work on another portal's profiles (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import BehaviorStore from './learning/behavior-store.js';
+import SourceRegistry from './learning/source-registry.js';
+import WebsiteBehaviorLearner from './learning/website-behavior.js';
+import { TenderSource } from './types/index.js';
+
+class BehaviorCommand {
+  private source: TenderSource;
+  private store: BehaviorStore;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.source = source;
+    this.store = new BehaviorStore(sources.getModelsDir(source));
+  }
+
+  async run(args: string[]): Promise<void> {
+    const [command = 'list', ...rest] = args;
+
+    switch (command) {
+      case 'list':
+        return this.list();
+      case 'diff':
+        return this.diff(rest);
+      case 'learn':
+        return this.learn();
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: list, diff [from] [to], learn');
+    }
+  }
+
+  /**
+   * List stored profiles
+   */
+  private async list(): Promise<void> {
+    const profiles = await this.store.list();
+
+    if (profiles.length === 0) {
+      console.log('No behavior profiles stored. Run npm run learn first.');
+      return;
+    }
+
+    console.log(`\n=== BEHAVIOR PROFILES: ${this.source.id} ===`);
+    for (const profile of profiles) {
+      const stale = this.store.isStale(profile) ? ' (stale)' : '';
+      console.log(
+        `v${profile.version}  ${new Date(profile.saved_at).toISOString()}  ` +
+          `pages=${profile.behavior.total_pages}  ` +
+          `columns=${profile.behavior.table_structure?.columns.length || 0}${stale}`
+      );
+    }
+  }
+
+  /**
+   * Diff two profiles, defaulting to the latest two
+   */
+  private async diff(args: string[]): Promise<void> {
+    const profiles = await this.store.list();
+
+    const from = args[0]
+      ? await this.store.get(parseInt(args[0]))
+      : profiles[profiles.length - 2] || null;
+    const to = args[1]
+      ? await this.store.get(parseInt(args[1]))
+      : profiles[profiles.length - 1] || null;
+
+    if (!from || !to) {
+      console.log('Need two behavior profiles to diff.');
+      return;
+    }
+
+    const diff = this.store.diff(from, to);
+
+    console.log(`\n=== BEHAVIOR DIFF v${diff.from_version} → v${diff.to_version} ===`);
+    if (diff.changes.length === 0) {
+      console.log('No changes.');
+      return;
+    }
+
+    for (const change of diff.changes) {
+      console.log(`${change.field}:`);
+      console.log(`  - ${JSON.stringify(change.before)}`);
+      console.log(`  + ${JSON.stringify(change.after)}`);
+    }
+
+    if (diff.columns_added.length > 0) {
+      console.log(`Columns added: ${diff.columns_added.join(', ')}`);
+    }
+    if (diff.columns_removed.length > 0) {
+      console.log(`Columns removed: ${diff.columns_removed.join(', ')}`);
+    }
+    if (diff.layout_changed) {
+      console.log('\n⚠️ Layout changed: review extraction prompt and field mapping.');
+    }
+  }
+
+  /**
+   * Force a fresh learning pass
+   */
+  private async learn(): Promise<void> {
+    const behavior = await new WebsiteBehaviorLearner(this.source.url).learn();
+    const profile = await this.store.save(behavior);
+    console.log(`Saved behavior profile v${profile.version}`);
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+  },
+});
+
+// Run command
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new BehaviorCommand(sources, sources.resolve(values.source as string | undefined)))
+  .then((behaviorCommand) => behaviorCommand.run(positionals))
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
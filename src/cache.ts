@@ -0,0 +1,166 @@
+/**
+ * EXTRACTION CACHE
+ * Hit rates, entries and invalidation of the extraction cache
+ *
+ * Usage:
+ *   npm run cache -- stats [--since YYYY-MM-DD]   Hit rate overall, per prompt version and per model
+ *   npm run cache -- list                         Cached entries
+ *   npm run cache -- clear [--pdf <path>] [--prompt-version <n>] [--model <name>]
+ *                                                 Remove matching entries (--all for every entry)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import ExtractionCache, { CacheInvalidation, CacheLookup } from './learning/extraction-cache.js';
+
+interface CacheOptions {
+  since?: Date;
+  invalidation: CacheInvalidation;
+  all: boolean;
+}
+
+class CacheCommand {
+  private cache: ExtractionCache;
+
+  constructor() {
+    this.cache = new ExtractionCache();
+  }
+
+  async run(command: string, options: CacheOptions): Promise<void> {
+    switch (command) {
+      case 'stats':
+        return this.stats(options.since);
+      case 'list':
+        return this.list();
+      case 'clear':
+        return this.clear(options.invalidation, options.all);
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: stats, list, clear');
+    }
+  }
+
+  /**
+   * Hit rate and estimated savings from the lookup log
+   */
+  private async stats(since?: Date): Promise<void> {
+    const lookups = await this.cache.getLookups(since);
+
+    if (lookups.length === 0) {
+      console.log('No cache lookups recorded.');
+      return;
+    }
+
+    console.log('\n=== EXTRACTION CACHE ===');
+    this.printGroups('overall', lookups, () => 'all');
+    this.printGroups('prompt', lookups, (lookup) =>
+      lookup.prompt_version !== null ? `v${lookup.prompt_version}` : '-'
+    );
+    this.printGroups('model', lookups, (lookup) => (lookup.provider ? `${lookup.provider}/` : '') + lookup.model);
+
+    const entries = await this.cache.list();
+    console.log(`\nEntries: ${entries.length} (${new Set(entries.map((entry) => entry.pdf_hash)).size} PDFs)`);
+  }
+
+  private printGroups(by: string, lookups: CacheLookup[], keyOf: (lookup: CacheLookup) => string): void {
+    const groups = new Map<string, CacheLookup[]>();
+    for (const lookup of lookups) {
+      const key = keyOf(lookup);
+      groups.set(key, [...(groups.get(key) || []), lookup]);
+    }
+
+    console.log(
+      `\n${by.padEnd(24)} ${'lookups'.padStart(8)} ${'hits'.padStart(8)} ${'hit rate'.padStart(9)} ${'saved $'.padStart(10)}`
+    );
+
+    for (const [key, group] of groups) {
+      const hits = group.filter((lookup) => lookup.hit);
+      const saved = hits.reduce((sum, lookup) => sum + lookup.saved_usd, 0);
+
+      console.log(
+        `${key.padEnd(24)} ${String(group.length).padStart(8)} ${String(hits.length).padStart(8)} ` +
+          `${`${((hits.length / group.length) * 100).toFixed(1)}%`.padStart(9)} ${saved.toFixed(4).padStart(10)}`
+      );
+    }
+  }
+
+  /**
+   * One line per cached entry
+   */
+  private async list(): Promise<void> {
+    const entries = await this.cache.list();
+
+    if (entries.length === 0) {
+      console.log('Extraction cache is empty.');
+      return;
+    }
+
+    console.log('\n=== CACHED EXTRACTIONS ===');
+    for (const entry of entries) {
+      const when = new Date(entry.created_at).toISOString().replace('T', ' ').slice(0, 19);
+      const prompt = entry.prompt_version !== null ? `v${entry.prompt_version}` : '-';
+
+      console.log(
+        `${when}  ${entry.pdf_hash.slice(0, 12)}  ${entry.provider ? `${entry.provider}/` : ''}${entry.model}  ` +
+          `prompt ${prompt}  ` +
+          `${entry.results.length} records  $${entry.cost_usd.toFixed(4)}  ${entry.pdf_path}`
+      );
+    }
+  }
+
+  /**
+   * Remove matching entries. Refuses to clear everything without --all.
+   */
+  private async clear(invalidation: CacheInvalidation, all: boolean): Promise<void> {
+    const filtered = Object.values(invalidation).some((value) => value !== undefined);
+
+    if (!filtered && !all) {
+      console.log('Give --pdf, --prompt-version or --model, or --all to clear every entry.');
+      process.exit(1);
+    }
+
+    const removed = await this.cache.invalidate(invalidation);
+    console.log(`Removed ${removed} cached extraction(s).`);
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    since: { type: 'string', short: 's' },
+    pdf: { type: 'string' },
+    'prompt-version': { type: 'string' },
+    model: { type: 'string' },
+    all: { type: 'boolean', default: false },
+  },
+});
+
+const since = values.since ? new Date(values.since as string) : undefined;
+if (since && isNaN(since.getTime())) {
+  console.log(`Invalid date: ${values.since}`);
+  process.exit(1);
+}
+
+const promptVersion = values['prompt-version'] ? parseInt(values['prompt-version'] as string, 10) : undefined;
+if (promptVersion !== undefined && isNaN(promptVersion)) {
+  console.log(`Invalid prompt version: ${values['prompt-version']}`);
+  process.exit(1);
+}
+
+// Run command
+const cacheCommand = new CacheCommand();
+cacheCommand
+  .run(positionals[0] || 'stats', {
+    since,
+    invalidation: {
+      pdfPath: values.pdf as string | undefined,
+      promptVersion,
+      model: values.model as string | undefined,
+    },
+    all: values.all as boolean,
+  })
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+/**
+ * CONFIDENCE CALIBRATION
+ * Fit extraction confidences to validated examples and report how well
+ * predicted confidence matches observed accuracy
+ *
+ * Usage:
+ *   npm run calibrate -- fit      Fit on every validated example and store the model
+ *   npm run calibrate -- report   Reliability report of the stored model
+ *
+ * Examples in the frozen test set (npm run eval -- freeze) are not fitted on.
+ *
+ * Add --source ID to calibrate another portal (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import BehaviorStore from './learning/behavior-store.js';
+import ConfidenceCalibrator from './learning/confidence-calibrator.js';
+import SourceRegistry from './learning/source-registry.js';
+import TextLayerExtractor from './learning/text-layer-extractor.js';
+import HeldOutSet from './learning/test-set.js';
+import TrainingDataManager from './learning/training-manager.js';
+import { CalibrationModel, ReliabilityReport, TenderSource } from './types/index.js';
+
+class CalibrateCommand {
+  private sources: SourceRegistry;
+  private source: TenderSource;
+  private trainingManager: TrainingDataManager;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.trainingManager = new TrainingDataManager(undefined, undefined, source.id);
+  }
+
+  async run(args: string[]): Promise<void> {
+    const [command = 'report'] = args;
+
+    switch (command) {
+      case 'fit':
+        return this.fit();
+      case 'report':
+        return this.report();
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: fit, report');
+    }
+  }
+
+  /**
+   * Fit on the validated examples of the source
+   */
+  private async fit(): Promise<void> {
+    try {
+      await this.trainingManager.initialize();
+      const heldOut = new HeldOutSet(this.sources.getModelsDir(this.source));
+      await heldOut.load();
+      const examples = heldOut.trainingExamples(await this.trainingManager.getValidatedExamples());
+
+      if (examples.length === 0) {
+        console.log('No validated examples yet. Run npm run learn and validate some extractions first.');
+        return;
+      }
+
+      // Read the text layer with the learned column order, as extraction does
+      const modelsDir = this.sources.getModelsDir(this.source);
+      const behavior = await new BehaviorStore(modelsDir).latest();
+      const calibrator = new ConfidenceCalibrator(
+        modelsDir,
+        new TextLayerExtractor(behavior?.behavior.table_structure?.columns || [], this.source.field_mapping)
+      );
+
+      this.print(await calibrator.fit(examples));
+    } finally {
+      await this.trainingManager.close();
+    }
+  }
+
+  /**
+   * Print the stored model's reliability report
+   */
+  private async report(): Promise<void> {
+    const model = await new ConfidenceCalibrator(this.sources.getModelsDir(this.source)).load();
+
+    if (!model) {
+      console.log('No calibration model yet. Run: npm run calibrate -- fit');
+      return;
+    }
+
+    this.print(model);
+  }
+
+  private print(model: CalibrationModel): void {
+    console.log(`\n=== CONFIDENCE CALIBRATION: ${this.source.id} ===`);
+    console.log(`Fitted: ${new Date(model.fitted_at).toISOString()} on ${model.examples} validated examples`);
+
+    this.printReliability('Fixed format-check confidence', model.reliability.uncalibrated);
+    this.printReliability('Calibrated confidence (leave-one-out)', model.reliability.calibrated);
+  }
+
+  private printReliability(title: string, report: ReliabilityReport): void {
+    console.log(`\n${title}: ${report.predictions} field values, ECE ${report.expected_calibration_error.toFixed(3)}`);
+    console.log(`${'confidence'.padEnd(12)} ${'values'.padStart(7)} ${'predicted'.padStart(10)} ${'observed'.padStart(10)}`);
+
+    for (const bin of report.bins) {
+      console.log(
+        `${`${bin.from.toFixed(1)}-${bin.to.toFixed(1)}`.padEnd(12)} ${String(bin.count).padStart(7)} ` +
+          `${bin.predicted.toFixed(3).padStart(10)} ${bin.observed.toFixed(3).padStart(10)}`
+      );
+    }
+
+    console.log(`${'field'.padEnd(12)} ${'values'.padStart(7)} ${'predicted'.padStart(10)} ${'observed'.padStart(10)}`);
+    for (const [field, stats] of Object.entries(report.per_field)) {
+      console.log(
+        `${field.padEnd(12)} ${String(stats.count).padStart(7)} ` +
+          `${stats.predicted.toFixed(3).padStart(10)} ${stats.observed.toFixed(3).padStart(10)}`
+      );
+    }
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+  },
+});
+
+// Run command
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new CalibrateCommand(sources, sources.resolve(values.source as string | undefined)))
+  .then((calibrateCommand) => calibrateCommand.run(positionals))
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,170 @@
+/**
+ * DATABASE
+ * Manage the Postgres storage backend
+ *
+ * Usage:
+ *   npm run db -- migrate   Apply pending schema migrations
+ *   npm run db -- status    Show applied migrations and row counts
+ *   npm run db -- import    Copy training_data/, the tender store and its events into Postgres
+ */
+
+import 'dotenv/config';
+import logger from './utils/logger.js';
+import SourceRegistry from './learning/source-registry.js';
+import { FileSystemStorage, PostgresStorage } from './storage/index.js';
+import { MIGRATIONS } from './storage/migrations.js';
+
+class DatabaseCommand {
+  private postgres: PostgresStorage;
+
+  constructor() {
+    this.postgres = new PostgresStorage();
+  }
+
+  async run(args: string[]): Promise<void> {
+    const [command = 'status'] = args;
+
+    try {
+      switch (command) {
+        case 'migrate':
+          return await this.migrate();
+        case 'status':
+          return await this.status();
+        case 'import':
+          return await this.import();
+        default:
+          console.log(`Unknown command: ${command}`);
+          console.log('Available: migrate, status, import');
+      }
+    } finally {
+      await this.postgres.close();
+    }
+  }
+
+  /**
+   * Apply pending migrations
+   */
+  private async migrate(): Promise<void> {
+    const applied = await this.postgres.migrate();
+
+    if (applied.length === 0) {
+      console.log('Database schema is up to date.');
+      return;
+    }
+
+    console.log(`Applied migrations: ${applied.map((v) => `v${v}`).join(', ')}`);
+  }
+
+  /**
+   * Show schema version and row counts
+   */
+  private async status(): Promise<void> {
+    const applied = new Set(await this.postgres.appliedMigrations());
+
+    console.log('\n=== MIGRATIONS ===');
+    for (const migration of MIGRATIONS) {
+      const state = applied.has(migration.version) ? 'applied' : 'pending';
+      console.log(`v${migration.version}  ${migration.name.padEnd(20)} ${state}`);
+    }
+
+    if (applied.size < MIGRATIONS.length) {
+      console.log('\nRun npm run db -- migrate to apply pending migrations.');
+      return;
+    }
+
+    const examples = await this.postgres.listExamples();
+
+    console.log('\n=== ROWS ===');
+    console.log(`Tenders:            ${(await this.postgres.getTenders()).length}`);
+    console.log(`Tender events:      ${(await this.postgres.getEvents()).length}`);
+    console.log(`Training examples:  ${examples.length}`);
+    console.log(`Validated examples: ${examples.filter((e) => e.is_validated).length}`);
+    console.log(`Learning sessions:  ${(await this.postgres.getSessions()).length}`);
+    console.log(`Metrics snapshots:  ${(await this.postgres.getMetrics()).length}`);
+    console.log(`Model calls:        ${(await this.postgres.getModelCalls()).length}`);
+  }
+
+  /**
+   * One-shot copy of the filesystem layout into Postgres. Safe to re-run:
+   * every write is an upsert.
+   */
+  private async import(): Promise<void> {
+    await this.postgres.migrate();
+    await this.postgres.initialize();
+
+    const source = new FileSystemStorage();
+
+    const tenders = await source.getTenders();
+    await this.postgres.upsertTenders(tenders);
+
+    const events = await source.getEvents();
+    await this.postgres.saveEvents(events);
+
+    // The latest complete snapshot of each source is the baseline for its next crawl
+    const sources = new SourceRegistry();
+    const baselines: string[] = [];
+    for (const tenderSource of await sources.load()) {
+      const snapshot = await source.getLatestSnapshot(tenderSource.id);
+      if (snapshot) {
+        await this.postgres.saveSnapshot(snapshot);
+        baselines.push(`${tenderSource.id}=${snapshot.crawl_id}`);
+      }
+    }
+
+    const examples = await source.listExamples();
+    let validations = 0;
+
+    for (const example of examples) {
+      await this.postgres.saveExample(example);
+
+      if (example.manual_validation) {
+        await this.postgres.saveValidation(example.id, example.manual_validation);
+        validations++;
+      }
+    }
+
+    const sessions = await source.getSessions();
+    for (const session of sessions) {
+      await this.postgres.saveSession(session);
+    }
+
+    // Only import metrics into an empty table so re-runs don't duplicate them
+    const metrics = (await this.postgres.getMetrics()).length === 0 ? await source.getMetrics() : [];
+    for (const snapshot of metrics) {
+      await this.postgres.appendMetrics(snapshot);
+    }
+
+    const modelCalls = await source.getModelCalls();
+    for (const call of modelCalls) {
+      await this.postgres.saveModelCall(call);
+    }
+
+    logger.info('Filesystem data imported', {
+      tenders: tenders.length,
+      events: events.length,
+      examples: examples.length,
+      validations,
+      sessions: sessions.length,
+      metrics: metrics.length,
+      model_calls: modelCalls.length,
+    });
+
+    console.log('\n=== IMPORT COMPLETE ===');
+    console.log(`Tenders:            ${tenders.length}`);
+    console.log(`Tender events:      ${events.length}`);
+    console.log(`Baseline snapshots: ${baselines.join(', ') || 'none'}`);
+    console.log(`Training examples:  ${examples.length}`);
+    console.log(`Validations:        ${validations}`);
+    console.log(`Learning sessions:  ${sessions.length}`);
+    console.log(`Metrics snapshots:  ${metrics.length}`);
+    console.log(`Model calls:        ${modelCalls.length}`);
+    console.log('\nSet STORAGE_BACKEND=postgres to use the database.');
+  }
+}
+
+// Run command
+const databaseCommand = new DatabaseCommand();
+databaseCommand.run(process.argv.slice(2)).catch((error) => {
+  logger.error('Fatal error', { error });
+  process.exit(1);
+});
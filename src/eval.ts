@@ -0,0 +1,274 @@
+/**
+ * HELD-OUT EVALUATION
+ * Freeze a test set of validated examples and score prompt and model
+ * versions on it
+ *
+ * Usage:
+ *   npm run eval -- freeze [--test-share 0.2] [--force]
+ *       Hold out a stratified share of validated PDFs (--force replaces a frozen set)
+ *   npm run eval -- show                       Test set size and strata
+ *   npm run eval -- run [--prompt N]           Score a prompt version (default: the active one)
+ *   npm run eval -- compare <baseline> <candidate>
+ *       Score two prompt versions on the same PDFs and apply the promotion gate
+ *
+ * Runs replay recorded responses (EXTRACTION_RECORD=true) and never call a
+ * model. --model M replays only responses recorded from model M; --live
+ * calls the configured provider instead, bypassing the extraction cache and
+ * counting against MODEL_BUDGET_USD;
+ * --few-shot adds few-shot examples drawn from outside the test set.
+ *
+ * Add --source ID to evaluate another portal (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import BehaviorStore from './learning/behavior-store.js';
+import Evaluator, { CRITICAL_FIELDS } from './learning/evaluator.js';
+import FewShotPromptBuilder, { FEW_SHOT_EXAMPLES } from './learning/few-shot-builder.js';
+import GeminiExtractor from './learning/gemini-extractor.js';
+import HeldOutSet from './learning/test-set.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import SourceRegistry from './learning/source-registry.js';
+import TextLayerExtractor from './learning/text-layer-extractor.js';
+import TrainingDataManager from './learning/training-manager.js';
+import UsageTracker from './learning/usage-tracker.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import {
+  EvaluationReport,
+  GateResult,
+  PromptVersion,
+  Proportion,
+  TenderSource,
+  TrainingExample,
+} from './types/index.js';
+
+interface EvalOptions {
+  testShare: number;
+  force: boolean;
+  prompt?: number;
+  model: string | null;
+  live: boolean;
+  fewShot: boolean;
+}
+
+class EvalCommand {
+  private sources: SourceRegistry;
+  private source: TenderSource;
+  private storage: StorageBackend;
+  private trainingManager: TrainingDataManager;
+  private heldOut: HeldOutSet;
+  private registry: PromptRegistry;
+  private evaluator: Evaluator;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.storage = createStorage();
+    this.trainingManager = new TrainingDataManager(this.storage, undefined, source.id);
+    this.heldOut = new HeldOutSet(sources.getModelsDir(source));
+    this.registry = new PromptRegistry(sources.getModelsDir(source));
+    this.evaluator = new Evaluator();
+  }
+
+  async run(args: string[], options: EvalOptions): Promise<void> {
+    const [command = 'show', ...rest] = args;
+
+    try {
+      await this.trainingManager.initialize();
+      await this.heldOut.load();
+
+      switch (command) {
+        case 'freeze':
+          return await this.freeze(options);
+        case 'show':
+          return await this.show();
+        case 'run':
+          return await this.evaluateOne(options);
+        case 'compare':
+          return await this.compare(parseInt(rest[0]), parseInt(rest[1]), options);
+        default:
+          console.log(`Unknown command: ${command}`);
+          console.log('Available: freeze, show, run, compare <baseline> <candidate>');
+      }
+    } finally {
+      await this.trainingManager.close();
+    }
+  }
+
+  private async freeze(options: EvalOptions): Promise<void> {
+    if (this.heldOut.getTestSet() && !options.force) {
+      console.log('A test set is already frozen. Use --force to replace it; earlier scores will not compare.');
+      return;
+    }
+
+    await this.heldOut.freeze(await this.trainingManager.getValidatedExamples(), options.testShare, options.force);
+    await this.show();
+  }
+
+  private async show(): Promise<void> {
+    const testSet = this.heldOut.getTestSet();
+    if (!testSet) {
+      console.log('No frozen test set. Run: npm run eval -- freeze');
+      return;
+    }
+
+    const validated = await this.trainingManager.getValidatedExamples();
+    console.log(`\n=== TEST SET: ${this.source.id} ===`);
+    console.log(`Frozen: ${new Date(testSet.frozen_at).toISOString()} (test share ${testSet.test_share})`);
+    console.log(`Held-out PDFs: ${testSet.pdf_paths.length}`);
+    const stillValidated = this.heldOut.testExamples(validated).length;
+    console.log(`Held-out rows: ${testSet.example_ids.length} frozen, ${stillValidated} still validated`);
+    console.log(`Training rows: ${this.heldOut.trainingExamples(validated).length}`);
+
+    console.log(`\n${'kod prefix'.padEnd(12)} ${'pdfs'.padStart(6)} ${'test'.padStart(6)}`);
+    for (const [stratum, counts] of Object.entries(testSet.strata)) {
+      console.log(`${stratum.padEnd(12)} ${String(counts.pdfs).padStart(6)} ${String(counts.test_pdfs).padStart(6)}`);
+    }
+  }
+
+  private async evaluateOne(options: EvalOptions): Promise<void> {
+    const promptVersion = options.prompt ? await this.registry.get(options.prompt) : await this.registry.getActive();
+    if (!promptVersion) {
+      console.log(options.prompt ? `Prompt version not found: v${options.prompt}` : 'No active prompt version.');
+      return;
+    }
+
+    const reports = await this.runVersions([promptVersion], options);
+    if (reports) this.printReport(reports[0]);
+  }
+
+  private async compare(baseline: number, candidate: number, options: EvalOptions): Promise<void> {
+    const versions = [await this.registry.get(baseline), await this.registry.get(candidate)];
+    if (versions.some((v) => !v)) {
+      console.log('Usage: npm run eval -- compare <baseline> <candidate> (both registered prompt versions)');
+      return;
+    }
+
+    const reports = await this.runVersions(versions as PromptVersion[], options);
+    if (!reports) return;
+
+    reports.forEach((report) => this.printReport(report));
+    const gate = this.evaluator.gate(reports[0], reports[1]);
+    this.printGate(gate);
+    if (!gate.passed) process.exitCode = 1;
+  }
+
+  /**
+   * Score prompt versions on the still-validated rows of the test set
+   */
+  private async runVersions(versions: PromptVersion[], options: EvalOptions): Promise<EvaluationReport[] | null> {
+    if (!this.heldOut.getTestSet()) {
+      console.log('No frozen test set. Run: npm run eval -- freeze');
+      return null;
+    }
+
+    const validated = await this.trainingManager.getValidatedExamples();
+    const testExamples = this.heldOut.testExamples(validated);
+    if (testExamples.length === 0) {
+      console.log('The frozen test set has no validated rows left.');
+      return null;
+    }
+
+    const fewShot = options.fewShot ? await this.fewShotBuilder(this.heldOut.trainingExamples(validated)) : null;
+    const runs = versions.map((promptVersion) => {
+      // Live runs skip the extraction cache: a cached answer is neither a
+      // fresh measurement nor recorded with EXTRACTION_RECORD=true
+      const extractor = options.live
+        ? new GeminiExtractor(undefined, null)
+        : Evaluator.replayExtractor(promptVersion, options.model);
+      if (options.live) extractor.usePromptVersion(promptVersion);
+      if (fewShot) extractor.setFewShot(fewShot);
+
+      const mode = options.live ? 'live' : options.model ? `replay of ${options.model}` : 'replay';
+      return {
+        label: `v${promptVersion.version}${options.fewShot ? ' few-shot' : ''} (${mode})`,
+        prompt_version: promptVersion.version,
+        model: options.live ? null : options.model,
+        extractor,
+      };
+    });
+
+    const usageTracker = options.live
+      ? new UsageTracker(this.storage, { run_id: randomUUID(), source_id: this.source.id })
+      : null;
+
+    return this.evaluator.evaluate(runs, testExamples, usageTracker);
+  }
+
+  private async fewShotBuilder(pool: TrainingExample[]): Promise<FewShotPromptBuilder> {
+    const behavior = await new BehaviorStore(this.sources.getModelsDir(this.source)).latest();
+    return new FewShotPromptBuilder(
+      pool,
+      FEW_SHOT_EXAMPLES || 3,
+      undefined,
+      new TextLayerExtractor(behavior?.behavior.table_structure?.columns || [], this.source.field_mapping)
+    );
+  }
+
+  private printReport(report: EvaluationReport): void {
+    console.log(`\n=== EVALUATION: prompt ${report.label} ===`);
+    console.log(`Test PDFs scored: ${report.pdfs}, validated rows: ${report.rows}`);
+    if (report.unanswered_pdfs.length > 0) {
+      console.log(
+        `Unanswered PDFs: ${report.unanswered_pdfs.length} (record them with --live and EXTRACTION_RECORD=true)`
+      );
+    }
+    console.log(`Exact match: ${formatProportion(report.exact_match)}`);
+    console.log(`Missed rows: ${report.missed_rows}, invented rows: ${report.invented_rows}`);
+
+    console.log(`\n${'field'.padEnd(12)} ${'precision'.padEnd(24)} recall`);
+    for (const [field, metrics] of Object.entries(report.per_field)) {
+      const marker = CRITICAL_FIELDS.includes(field) ? '*' : ' ';
+      console.log(
+        `${`${field}${marker}`.padEnd(12)} ${formatProportion(metrics.precision).padEnd(24)} ` +
+          formatProportion(metrics.recall)
+      );
+    }
+    console.log('* critical field: promotion fails if it regresses (95% intervals in brackets)');
+  }
+
+  private printGate(gate: GateResult): void {
+    console.log(`\n=== PROMOTION GATE: ${gate.passed ? 'PASSED' : 'FAILED'} ===`);
+    gate.reasons.forEach((reason) => console.log(`- ${reason}`));
+  }
+}
+
+function formatProportion(p: Proportion): string {
+  if (p.n === 0) return 'n/a';
+  return `${(p.value * 100).toFixed(1)}% [${(p.low * 100).toFixed(1)}-${(p.high * 100).toFixed(1)}]`;
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    'test-share': { type: 'string', default: '0.2' },
+    force: { type: 'boolean', default: false },
+    prompt: { type: 'string' },
+    model: { type: 'string' },
+    live: { type: 'boolean', default: false },
+    'few-shot': { type: 'boolean', default: false },
+  },
+});
+
+// Run command
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new EvalCommand(sources, sources.resolve(values.source as string | undefined)))
+  .then((evalCommand) =>
+    evalCommand.run(positionals, {
+      testShare: parseFloat(values['test-share'] as string),
+      force: values.force as boolean,
+      prompt: values.prompt ? parseInt(values.prompt as string) : undefined,
+      model: (values.model as string | undefined) || null,
+      live: values.live as boolean,
+      fewShot: values['few-shot'] as boolean,
+    })
+  )
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
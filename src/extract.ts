@@ -0,0 +1,644 @@
+/**
+ * PRODUCTION EXTRACTION
+ * Non-interactive run that captures every page with the learned website
+ * behavior, extracts tenders with the current best prompt and writes the
+ * validated records to an output file.
+ *
+ * Modes:
+ * - pdf  (default) PDF text layer first, vision model for pages below threshold
+ * - dom  read the HTML table cells directly, no PDF or model calls
+ * - both pdf mode, cross-checked against the DOM rows of the same page
+ *
+ * PDF captures are tracked in a crawl manifest: an interrupted run resumes
+ * where it stopped, and pages whose content is unchanged since the last
+ * crawl reuse their capture and tender records instead of being extracted
+ * again. The crawl completes once every page is captured and extracted;
+ * a page whose extraction failed is captured and extracted again by the
+ * next run. --fresh ignores the unfinished crawl.
+ *
+ * Each run is compared with the previous complete crawl and the resulting
+ * change events (new, modified, status_changed, disappeared) are stored;
+ * see npm run history. Events matching a rule in SUBSCRIPTIONS_FILE are
+ * sent through that rule's notifiers unless --no-alerts is given.
+ *
+ * Every model call is recorded with its tokens and estimated cost. When
+ * MODEL_BUDGET_USD is set, the crawl stops before a call that would exceed
+ * it; the pages not yet extracted stay pending for the next (resumed) run,
+ * which counts against the same budget.
+ *
+ * --votes N extracts each page needing the vision model in N passes
+ * (cycling through --vote-prompts versions and --vote-temperatures) and
+ * votes on every field. Rows the passes disagree on are saved as
+ * unvalidated training examples for review in npm run learn instead of
+ * going into the tender store.
+ *
+ * --source picks the portal from SOURCES_FILE (default: the first enabled
+ * one); its behavior profile, prompt, field mapping and manifest are used.
+ *
+ * Usage: npm run extract -- [--source ID] [--output tenders.json] [--pages N] [--mode pdf|dom|both]
+ *                           [--vision-only] [--save-ground-truth] [--fresh] [--no-alerts]
+ *                           [--votes N] [--vote-prompts 3,4] [--vote-temperatures 0,0.5]
+ */
+
+import 'dotenv/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import WebsiteBehaviorLearner from './learning/website-behavior.js';
+import BehaviorStore from './learning/behavior-store.js';
+import PDFCapture from './learning/pdf-capture.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import SourceRegistry from './learning/source-registry.js';
+import CrawlManifest from './learning/crawl-manifest.js';
+import GeminiExtractor, { VotingOptions } from './learning/gemini-extractor.js';
+import PassVoter from './learning/pass-voter.js';
+import PageExtractor from './learning/page-extractor.js';
+import ConfidenceCalibrator from './learning/confidence-calibrator.js';
+import FewShotPromptBuilder, { FEW_SHOT_EXAMPLES } from './learning/few-shot-builder.js';
+import TextLayerExtractor from './learning/text-layer-extractor.js';
+import HeldOutSet from './learning/test-set.js';
+import DomTableExtractor, { CrossCheckReport } from './learning/dom-extractor.js';
+import TrainingDataManager from './learning/training-manager.js';
+import TenderStore from './learning/tender-store.js';
+import UsageTracker, { BudgetExceededError } from './learning/usage-tracker.js';
+import CrawlChanges from './learning/crawl-changes.js';
+import SubscriptionManager from './notifications/subscriptions.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import { validateTender } from './utils/validation.js';
+import {
+  ExtractionResult,
+  Tender,
+  TenderEvent,
+  TenderSource,
+  WebsiteBehavior,
+  PromptVersion,
+} from './types/index.js';
+
+type ExtractMode = 'pdf' | 'dom' | 'both';
+
+// Reviewer of ground truth taken from the HTML table
+const DOM_REVIEWER_ID = 'dom-table';
+
+interface ExtractOptions {
+  output: string;
+  pages?: number;
+  mode: ExtractMode;
+  visionOnly: boolean;
+  saveGroundTruth: boolean;
+  fresh: boolean;
+  alerts: boolean;
+  votes: number;
+  votePrompts: number[];
+  voteTemperatures: number[];
+}
+
+interface PageExtraction {
+  capture_id: string;
+  page_number?: number;
+  url: string;
+  pdf_path?: string;
+  extractions: ExtractionResult[];
+  dom_rows?: ExtractionResult[];
+  model_called: boolean;
+  unchanged: boolean; // Capture reused from an earlier crawl, not re-extracted
+  review_rows?: number; // Disputed voted rows sent to manual review instead
+}
+
+class ProductionExtractor {
+  private sources: SourceRegistry;
+  private source: TenderSource;
+  private websiteLearner: WebsiteBehaviorLearner;
+  private behaviorStore: BehaviorStore;
+  private pdfCapture: PDFCapture;
+  private manifest: CrawlManifest;
+  private extractor: GeminiExtractor;
+  private calibrator: ConfidenceCalibrator;
+  private domExtractor: DomTableExtractor;
+  private storage: StorageBackend;
+  private trainingManager: TrainingDataManager;
+  private tenderStore: TenderStore;
+  private crawlChanges: CrawlChanges;
+  private subscriptions: SubscriptionManager;
+  private threshold: number;
+  private usageTracker: UsageTracker | null = null;
+  private budgetExceeded: boolean = false;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.websiteLearner = new WebsiteBehaviorLearner(source.url);
+    this.behaviorStore = new BehaviorStore(sources.getModelsDir(source));
+    this.pdfCapture = new PDFCapture();
+    this.manifest = new CrawlManifest(sources.getManifestFile(source));
+    this.extractor = new GeminiExtractor();
+    this.calibrator = new ConfidenceCalibrator(sources.getModelsDir(source));
+    this.domExtractor = new DomTableExtractor(source.field_mapping);
+    this.storage = createStorage();
+    this.trainingManager = new TrainingDataManager(this.storage);
+    this.tenderStore = new TenderStore(this.storage);
+    this.subscriptions = new SubscriptionManager();
+    this.crawlChanges = new CrawlChanges(this.storage, this.subscriptions);
+    this.threshold = parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.85');
+  }
+
+  /**
+   * Run extraction and return the process exit code
+   */
+  async run(options: ExtractOptions): Promise<number> {
+    const startedAt = Date.now();
+
+    try {
+      logger.info('Starting production extraction...', {
+        source: this.source.id,
+        output: options.output,
+        mode: options.mode,
+      });
+
+      await this.storage.initialize();
+      const behavior = await this.behaviorStore.loadOrLearn(this.websiteLearner);
+
+      await this.pdfCapture.initialize();
+      await this.pdfCapture.launchBrowser();
+
+      const totalPages = options.pages
+        ? Math.min(options.pages, behavior.total_pages)
+        : behavior.total_pages;
+
+      const pages =
+        options.mode === 'dom'
+          ? await this.extractFromDom(behavior, totalPages)
+          : await this.extractFromPdfs(behavior, totalPages, options);
+
+      const allExtractions = pages.flatMap((p) => p.extractions);
+      const modelCalls = pages.filter((p) => p.model_called).length;
+      const unchangedPages = pages.filter((p) => p.unchanged).length;
+      const crawlId = options.mode === 'dom' ? randomUUID() : this.manifest.getCrawlId();
+      const seenAt = new Date();
+
+      // Merge into the canonical store so repeated rows collapse into one record
+      await this.tenderStore.load();
+      let duplicatesMerged = 0;
+
+      for (const page of pages) {
+        SourceRegistry.tagSource(page.extractions, this.source.id);
+        const merge = this.tenderStore.merge(page.extractions, page.capture_id, seenAt, crawlId);
+        duplicatesMerged += merge.updated + merge.unchanged;
+      }
+
+      this.tenderStore.touch(
+        pages.filter((p) => p.unchanged).map((p) => p.capture_id),
+        crawlId,
+        seenAt
+      );
+      await this.tenderStore.save();
+
+      const records = this.tenderStore.findByCaptureIds(pages.map((p) => p.capture_id));
+      const events = await this.crawlChanges.detect(
+        crawlId,
+        records,
+        pages.length === behavior.total_pages,
+        this.source.id
+      );
+      const tenders: Tender[] = [];
+      let rejected = 0;
+
+      for (const record of records) {
+        const result = validateTender(record.tender);
+        if (result.success && result.data) {
+          tenders.push(result.data);
+        } else {
+          rejected++;
+        }
+      }
+
+      await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+      await fs.writeFile(options.output, JSON.stringify(tenders, null, 2));
+
+      const averageConfidence =
+        allExtractions.length > 0
+          ? allExtractions.reduce((sum, e) => sum + e.confidence.overall, 0) /
+            allExtractions.length
+          : 0;
+
+      console.log('\n=== EXTRACTION SUMMARY ===');
+      console.log(`Source:              ${this.source.id} (${this.source.name})`);
+      console.log(`Mode:                ${options.mode}`);
+      console.log(`Pages extracted:     ${pages.length}/${totalPages}`);
+      console.log(`Tenders extracted:   ${allExtractions.length}`);
+      console.log(`Repeat sightings:    ${duplicatesMerged} (merged into existing records)`);
+      console.log(`Tenders written:     ${tenders.length}`);
+      console.log(`Tenders rejected:    ${rejected}`);
+      if (options.votes > 1) {
+        const reviewRows = pages.reduce((sum, p) => sum + (p.review_rows || 0), 0);
+        console.log(`Sent to review:      ${reviewRows} (passes disagreed, see npm run learn)`);
+      }
+      console.log(`Average confidence:  ${averageConfidence.toFixed(3)}`);
+      if (options.mode !== 'dom') {
+        console.log(`Pages unchanged:     ${unchangedPages} (capture and records reused)`);
+        console.log(
+          `Model calls:         ${modelCalls} (${pages.length - unchangedPages - modelCalls} saved by text layer)`
+        );
+        this.printUsage();
+      }
+      console.log(`Output:              ${options.output}`);
+
+      await this.trainingManager.saveMetrics({
+        total_tenders_found: allExtractions.length,
+        successfully_extracted: allExtractions.filter((e) => e.confidence.overall >= this.threshold).length,
+        failed_extractions: allExtractions.filter((e) => e.confidence.overall < this.threshold).length,
+        average_confidence: parseFloat(averageConfidence.toFixed(3)),
+        extraction_accuracy: await this.trainingManager.calculateAccuracy(),
+        processing_time_ms: Date.now() - startedAt,
+        timestamp: new Date(),
+        ...(this.usageTracker
+          ? this.usageTracker.toMetrics()
+          : { run_id: crawlId, source_id: this.source.id }),
+      });
+
+      this.printEvents(events);
+
+      if (options.alerts) {
+        await this.sendAlerts(events);
+      }
+      console.log(`Duration:            ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+
+      if (options.mode === 'both') {
+        this.printCrossCheck(pages);
+
+        if (options.saveGroundTruth) {
+          await this.saveDomGroundTruth(pages);
+        }
+      }
+
+      if (this.budgetExceeded) {
+        logger.error('Crawl stopped at the model budget', {
+          pages_extracted: pages.length,
+          total_pages: totalPages,
+        });
+        return 1;
+      }
+
+      // Nothing new to score when every page was unchanged
+      const allUnchanged = pages.length > 0 && unchangedPages === pages.length;
+
+      if (!allUnchanged && averageConfidence < this.threshold) {
+        logger.error('Extraction confidence below threshold', {
+          average_confidence: averageConfidence,
+          threshold: this.threshold,
+        });
+        return 1;
+      }
+
+      return 0;
+    } finally {
+      await this.pdfCapture.close();
+      await this.storage.close();
+    }
+  }
+
+  /**
+   * PDF mode: text layer first, vision model as fallback
+   */
+  private async extractFromPdfs(
+    behavior: WebsiteBehavior,
+    totalPages: number,
+    options: ExtractOptions
+  ): Promise<PageExtraction[]> {
+    await this.extractor.loadActivePrompt(
+      new PromptRegistry(this.sources.getModelsDir(this.source)),
+      await this.sources.loadSeedPrompt(this.source)
+    );
+    await this.manifest.begin(behavior.pagination_pattern, options.fresh);
+    await this.calibrator.load();
+
+    if (FEW_SHOT_EXAMPLES > 0) {
+      const heldOut = new HeldOutSet(this.sources.getModelsDir(this.source));
+      await heldOut.load();
+      const validated = await new TrainingDataManager(this.storage, undefined, this.source.id).getValidatedExamples();
+      this.extractor.setFewShot(
+        new FewShotPromptBuilder(
+          heldOut.trainingExamples(validated),
+          FEW_SHOT_EXAMPLES,
+          undefined,
+          new TextLayerExtractor(behavior.table_structure?.columns || [], this.source.field_mapping)
+        )
+      );
+    }
+
+    // A resumed crawl keeps counting against the same budget
+    this.usageTracker = new UsageTracker(this.storage, {
+      run_id: this.manifest.getCrawlId(),
+      source_id: this.source.id,
+    });
+    await this.usageTracker.load();
+    this.extractor.setUsageTracker(this.usageTracker);
+
+    const captures = await this.pdfCapture.captureMultiplePages(
+      this.source.url,
+      totalPages,
+      behavior.pagination_pattern,
+      { includeTable: options.mode === 'both', manifest: this.manifest }
+    );
+
+    const voting = options.votes > 1 ? await this.votingOptions(options) : undefined;
+    const pageExtractor = new PageExtractor(
+      this.extractor,
+      behavior.table_structure?.columns || [],
+      this.threshold,
+      this.source.field_mapping,
+      this.calibrator
+    );
+    const pages: PageExtraction[] = [];
+    const failedPages: number[] = [];
+
+    for (const [index, capture] of captures.entries()) {
+      if (capture.unchanged) {
+        pages.push({
+          capture_id: capture.id,
+          page_number: capture.page_number,
+          url: capture.url,
+          pdf_path: capture.pdf_path,
+          extractions: [],
+          dom_rows: capture.table ? this.domExtractor.extract(capture.table) : undefined,
+          model_called: false,
+          unchanged: true,
+        });
+        continue;
+      }
+
+      try {
+        const result = await pageExtractor.extractPage(capture.pdf_path, {
+          visionOnly: options.visionOnly,
+          voting,
+        });
+
+        // Disputed rows are not trusted: they wait for manual review
+        const disputed = result.extractions.filter((e) => PassVoter.isDisputed(e));
+        if (disputed.length > 0) {
+          await this.trainingManager.saveTrainingExample(
+            capture.pdf_path,
+            capture.url,
+            SourceRegistry.tagSource(disputed, this.source.id),
+            0,
+            capture.screenshot_path
+          );
+          logger.warn('Disputed rows sent to manual review', {
+            page: capture.page_number,
+            rows: disputed.length,
+          });
+        }
+
+        pages.push({
+          capture_id: capture.id,
+          page_number: capture.page_number,
+          url: capture.url,
+          pdf_path: capture.pdf_path,
+          extractions: result.extractions.filter((e) => !PassVoter.isDisputed(e)),
+          dom_rows: capture.table ? this.domExtractor.extract(capture.table) : undefined,
+          model_called: result.model_called,
+          unchanged: false,
+          review_rows: disputed.length,
+        });
+
+        logger.info('Extracted from PDF', {
+          page: capture.page_number,
+          tenders_found: result.extractions.length,
+          text_layer_rows: result.text_layer_rows,
+        });
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          logger.error('Model budget reached, stopping extraction', {
+            page: capture.page_number,
+            error: error.message,
+          });
+          this.budgetExceeded = true;
+
+          // Captured but not extracted: capture again when the crawl resumes
+          await this.manifest.reopenPages(
+            captures
+              .slice(index)
+              .filter((c) => !c.unchanged && c.page_number !== undefined)
+              .map((c) => c.page_number!)
+          );
+          break;
+        }
+
+        logger.error('Failed to extract from PDF', {
+          page: capture.page_number,
+          error,
+        });
+        if (capture.page_number !== undefined) {
+          failedPages.push(capture.page_number);
+        }
+      }
+    }
+
+    // Captured but not extracted: without reopening, the next crawl would
+    // find the page unchanged and reuse a capture that has no records
+    if (failedPages.length > 0) {
+      await this.manifest.reopenPages(failedPages);
+    } else if (!this.budgetExceeded && captures.length === totalPages) {
+      await this.manifest.complete();
+    }
+
+    return pages;
+  }
+
+  /**
+   * Voting passes from --votes, --vote-prompts and --vote-temperatures
+   */
+  private async votingOptions(options: ExtractOptions): Promise<VotingOptions> {
+    const registry = new PromptRegistry(this.sources.getModelsDir(this.source));
+    const prompts: PromptVersion[] = [];
+
+    for (const version of options.votePrompts) {
+      const prompt = await registry.get(version);
+      if (!prompt) {
+        throw new Error(`Unknown prompt version for voting: ${version}`);
+      }
+      prompts.push(prompt);
+    }
+
+    return { passes: options.votes, prompts, temperatures: options.voteTemperatures };
+  }
+
+  /**
+   * DOM mode: table cells straight into Tender rows
+   */
+  private async extractFromDom(
+    behavior: WebsiteBehavior,
+    totalPages: number
+  ): Promise<PageExtraction[]> {
+    const tables = await this.pdfCapture.captureMultipleTables(
+      totalPages,
+      behavior.pagination_pattern
+    );
+
+    return tables.map((capture) => ({
+      capture_id: capture.id,
+      page_number: capture.page_number,
+      url: capture.url,
+      extractions: this.domExtractor.extract(capture.table),
+      model_called: false,
+      unchanged: false,
+    }));
+  }
+
+  /**
+   * Print model usage of this crawl, including earlier runs it resumed
+   */
+  private printUsage(): void {
+    if (!this.usageTracker) return;
+
+    const usage = this.usageTracker.getSummary();
+    console.log(
+      `Model tokens:        ${usage.prompt_tokens} prompt + ${usage.response_tokens} response` +
+        (usage.failed_calls > 0 ? ` (${usage.failed_calls} failed calls)` : '')
+    );
+    console.log(`Estimated cost:      $${usage.cost_usd.toFixed(4)}`);
+    if (this.budgetExceeded) {
+      console.log('Budget:              reached, remaining pages left for the next run');
+    }
+  }
+
+  /**
+   * Send new events to the matching subscriptions
+   */
+  private async sendAlerts(events: TenderEvent[]): Promise<void> {
+    const summary = await this.crawlChanges.alert(events);
+    if (!summary) return;
+
+    console.log('\n=== ALERTS ===');
+    console.log(`Rules matched:  ${summary.alerts}/${this.subscriptions.getRules().length}`);
+    console.log(`Alerts sent:    ${summary.sent}`);
+    for (const failure of summary.failures) {
+      console.log(`  ✗ ${failure.rule_id} via ${failure.notifier_id}: ${failure.error}`);
+    }
+  }
+
+  /**
+   * Print change event counts and the status changes
+   */
+  private printEvents(events: TenderEvent[]): void {
+    const count = (type: TenderEvent['type']) => events.filter((e) => e.type === type).length;
+
+    console.log('\n=== CHANGES SINCE LAST CRAWL ===');
+    console.log(`New:            ${count('new')}`);
+    console.log(`Modified:       ${count('modified')}`);
+    console.log(`Status changed: ${count('status_changed')}`);
+    console.log(`Disappeared:    ${count('disappeared')}`);
+
+    for (const event of events.filter((e) => e.type === 'status_changed')) {
+      const change = event.changes[0];
+      console.log(`  ${event.daftar}: ${change.before} -> ${change.after}`);
+    }
+  }
+
+  /**
+   * Print field agreement between PDF extraction and DOM rows
+   */
+  private printCrossCheck(pages: PageExtraction[]): void {
+    const reports: CrossCheckReport[] = pages
+      .filter((p) => p.dom_rows && !p.unchanged)
+      .map((p) => this.domExtractor.crossCheck(p.extractions, p.dom_rows!));
+
+    const compared = reports.reduce((sum, r) => sum + r.rows_compared, 0);
+
+    console.log('\n=== DOM CROSS-CHECK ===');
+    console.log(`Rows compared: ${compared}`);
+    console.log(`Missed rows:   ${reports.reduce((sum, r) => sum + r.missed_rows, 0)}`);
+    console.log(`Invented rows: ${reports.reduce((sum, r) => sum + r.invented_rows, 0)}`);
+
+    if (compared === 0) return;
+
+    for (const field of Object.keys(reports[0].field_agreement)) {
+      const agreeing = reports.reduce(
+        (sum, r) => sum + r.field_agreement[field] * r.rows_compared,
+        0
+      );
+      console.log(`  ${field.padEnd(15)} : ${((agreeing / compared) * 100).toFixed(2)}% agree`);
+    }
+  }
+
+  /**
+   * Save PDF extractions as training examples validated by their DOM row
+   */
+  private async saveDomGroundTruth(pages: PageExtraction[]): Promise<void> {
+    await this.trainingManager.initialize();
+    let saved = 0;
+
+    for (const page of pages) {
+      if (!page.dom_rows || !page.pdf_path) continue;
+
+      for (const pair of this.domExtractor.pairWithDom(page.extractions, page.dom_rows)) {
+        const truth = validateTender(pair.truth);
+        if (!truth.success || !truth.data) continue;
+
+        const [example] = await this.trainingManager.saveTrainingExample(
+          page.pdf_path,
+          page.url,
+          [pair.extraction],
+          1
+        );
+        await this.trainingManager.validateExample(example.id, truth.data, DOM_REVIEWER_ID);
+        saved++;
+      }
+    }
+
+    console.log(`Saved ${saved} examples with DOM ground truth`);
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    source: { type: 'string' },
+    output: { type: 'string', short: 'o', default: './output/tenders.json' },
+    pages: { type: 'string', short: 'p' },
+    mode: { type: 'string', short: 'm', default: 'pdf' },
+    'vision-only': { type: 'boolean', default: false },
+    'save-ground-truth': { type: 'boolean', default: false },
+    fresh: { type: 'boolean', default: false },
+    'no-alerts': { type: 'boolean', default: false },
+    votes: { type: 'string', default: process.env.EXTRACTION_VOTES || '1' },
+    'vote-prompts': { type: 'string' },
+    'vote-temperatures': { type: 'string', default: process.env.EXTRACTION_VOTE_TEMPERATURES || '' },
+  },
+});
+
+const numberList = (value: unknown): number[] =>
+  String(value || '')
+    .split(',')
+    .filter((item) => item.trim().length > 0)
+    .map((item) => parseFloat(item));
+
+if (!['pdf', 'dom', 'both'].includes(values.mode as string)) {
+  console.log(`Unknown mode: ${values.mode} (expected pdf, dom or both)`);
+  process.exit(1);
+}
+
+// Run extractor
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new ProductionExtractor(sources, sources.resolve(values.source as string | undefined)))
+  .then((productionExtractor) =>
+    productionExtractor.run({
+      output: values.output as string,
+      pages: values.pages ? parseInt(values.pages as string) : undefined,
+      mode: values.mode as ExtractMode,
+      visionOnly: values['vision-only'] as boolean,
+      saveGroundTruth: values['save-ground-truth'] as boolean,
+      fresh: values.fresh as boolean,
+      alerts: !values['no-alerts'],
+      votes: Math.max(parseInt(values.votes as string) || 1, 1),
+      votePrompts: numberList(values['vote-prompts']),
+      voteTemperatures: numberList(values['vote-temperatures']),
+    })
+  )
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,323 @@
+/**
+ * FEW-SHOT PROMPTS
+ * Preview the validated examples a page would be shown, and measure whether
+ * showing them helps
+ *
+ * Usage:
+ *   npm run fewshot -- preview <pdf>     Examples picked for a PDF (no model call)
+ *   npm run fewshot -- eval [--test-share 0.3] [--limit 10] [--examples N]
+ *       Extract held-out PDFs zero-shot and few-shot with the active prompt
+ *       and compare per-field accuracy against their validated rows
+ *
+ * The split is by PDF and depends only on the PDF path, so repeated runs
+ * hold out the same pages and no test page lends examples to the prompt.
+ * The frozen test set of npm run eval is left out of both sides.
+ * Model calls count against MODEL_BUDGET_USD.
+ *
+ * Add --source ID to evaluate another portal (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import BehaviorStore from './learning/behavior-store.js';
+import FewShotPromptBuilder, { FEW_SHOT_EXAMPLES } from './learning/few-shot-builder.js';
+import GeminiExtractor from './learning/gemini-extractor.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import RowMatcher from './learning/row-matcher.js';
+import SourceRegistry from './learning/source-registry.js';
+import TextLayerExtractor from './learning/text-layer-extractor.js';
+import TrainingDataManager from './learning/training-manager.js';
+import HeldOutSet from './learning/test-set.js';
+import UsageTracker, { BudgetExceededError } from './learning/usage-tracker.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import { sha256 } from './utils/hash.js';
+import { cleanText } from './utils/validation.js';
+import { TENDER_FIELDS } from './utils/field-mapping.js';
+import { Tender, TenderSource, TrainingExample, UsageSummary } from './types/index.js';
+
+interface EvalOptions {
+  testShare: number;
+  limit: number;
+  examples: number;
+}
+
+interface ModeScore {
+  rows: number; // Validated rows of the evaluated PDFs
+  correct: Record<string, number>; // Per field; missed rows count as wrong
+  exact_rows: number;
+  missed_rows: number;
+  invented_rows: number;
+  calls: number;
+  prompt_tokens: number;
+  cost_usd: number;
+}
+
+class FewShotCommand {
+  private sources: SourceRegistry;
+  private source: TenderSource;
+  private storage: StorageBackend;
+  private trainingManager: TrainingDataManager;
+  private rowMatcher: RowMatcher;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.storage = createStorage();
+    this.trainingManager = new TrainingDataManager(this.storage, undefined, source.id);
+    this.rowMatcher = new RowMatcher();
+  }
+
+  async run(args: string[], options: EvalOptions): Promise<void> {
+    const [command = 'eval', ...rest] = args;
+
+    try {
+      await this.trainingManager.initialize();
+
+      switch (command) {
+        case 'preview':
+          return await this.preview(rest[0], options.examples);
+        case 'eval':
+          return await this.evaluate(options);
+        default:
+          console.log(`Unknown command: ${command}`);
+          console.log('Available: preview, eval');
+      }
+    } finally {
+      await this.trainingManager.close();
+    }
+  }
+
+  /**
+   * Show the examples a PDF would get
+   */
+  private async preview(pdfPath: string | undefined, examples: number): Promise<void> {
+    if (!pdfPath) {
+      console.log('Usage: npm run fewshot -- preview <pdf>');
+      return;
+    }
+
+    const pool = (await this.heldOut()).trainingExamples(await this.trainingManager.getValidatedExamples());
+    const shots = await (await this.builder(pool, examples)).build(pdfPath);
+
+    if (shots.example_ids.length === 0) {
+      console.log(`No examples picked from ${pool.length} validated examples.`);
+      return;
+    }
+
+    console.log(`\n=== FEW-SHOT EXAMPLES: ${pdfPath} ===`);
+    console.log(
+      `${shots.example_ids.length} examples, ${shots.images.length} row images, ~${shots.estimated_tokens} tokens`
+    );
+    console.log(shots.text);
+  }
+
+  /**
+   * Zero-shot against few-shot accuracy on the held-out PDFs
+   */
+  private async evaluate(options: EvalOptions): Promise<void> {
+    const validated = (await this.heldOut()).trainingExamples(await this.trainingManager.getValidatedExamples());
+    const train = validated.filter((e) => !isHeldOut(e.pdf_path, options.testShare));
+    const test = validated.filter((e) => isHeldOut(e.pdf_path, options.testShare));
+
+    const testPdfs: string[] = [];
+    for (const pdfPath of new Set(test.map((e) => e.pdf_path))) {
+      if (await this.exists(pdfPath)) testPdfs.push(pdfPath);
+    }
+    const evaluated = testPdfs.slice(0, options.limit);
+
+    console.log(`\n=== FEW-SHOT EVALUATION: ${this.source.id} ===`);
+    console.log(
+      `Validated rows: ${validated.length} (${train.length} in the example pool, ${test.length} held out ` +
+        `on ${new Set(test.map((e) => e.pdf_path)).size} PDFs)`
+    );
+
+    if (evaluated.length === 0 || train.length === 0) {
+      console.log('Not enough validated PDFs on disk for both an example pool and a test split.');
+      return;
+    }
+    console.log(`Evaluating ${evaluated.length} held-out PDFs with up to ${options.examples} examples each`);
+
+    const modelsDir = this.sources.getModelsDir(this.source);
+    const registry = new PromptRegistry(modelsDir);
+    const seedPrompt = await this.sources.loadSeedPrompt(this.source);
+
+    const zeroShot = new GeminiExtractor();
+    await zeroShot.loadActivePrompt(registry, seedPrompt);
+    const fewShot = new GeminiExtractor();
+    await fewShot.loadActivePrompt(registry, seedPrompt);
+    fewShot.setFewShot(await this.builder(train, options.examples));
+
+    // One tracker, so both modes share the budget
+    const usageTracker = new UsageTracker(this.storage, { run_id: randomUUID(), source_id: this.source.id });
+    const scores = { zero: emptyScore(), few: emptyScore() };
+
+    for (const pdfPath of evaluated) {
+      const truth = test.filter((e) => e.pdf_path === pdfPath).map((e) => e.manual_validation!);
+
+      try {
+        // Score a PDF only once both modes have read it
+        const runs = [];
+        for (const [mode, extractor] of [['zero', zeroShot], ['few', fewShot]] as const) {
+          const before = usageTracker.getSummary();
+          const extractions = await extractor.extractFromPDF(pdfPath, usageTracker);
+          runs.push({ mode, extractions, before, after: usageTracker.getSummary() });
+        }
+        for (const { mode, extractions, before, after } of runs) {
+          this.score(scores[mode], extractions.map((e) => e.tender), truth, before, after);
+        }
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          logger.error('Model budget reached, skipping remaining PDFs', { error: error.message });
+          break;
+        }
+        logger.error('Failed to evaluate PDF', { pdfPath, error });
+      }
+    }
+
+    this.print(scores.zero, scores.few);
+  }
+
+  /**
+   * Add one PDF's extraction to a mode's score
+   */
+  private score(
+    score: ModeScore,
+    extracted: Partial<Tender>[],
+    truth: Tender[],
+    before: UsageSummary,
+    after: UsageSummary
+  ): void {
+    const alignment = this.rowMatcher.align(extracted, truth);
+
+    score.rows += truth.length;
+    score.missed_rows += alignment.missed.length;
+    score.invented_rows += alignment.invented.length;
+
+    for (const match of alignment.matches) {
+      const row = extracted[match.extracted_index];
+      const known = truth[match.known_index];
+      const correct = TENDER_FIELDS.filter((field) => normalize(row[field]) === normalize(known[field]));
+
+      for (const field of correct) score.correct[field]++;
+      if (correct.length === TENDER_FIELDS.length) score.exact_rows++;
+    }
+
+    score.calls += after.calls - before.calls;
+    score.prompt_tokens += after.prompt_tokens - before.prompt_tokens;
+    score.cost_usd += after.cost_usd - before.cost_usd;
+  }
+
+  private print(zero: ModeScore, few: ModeScore): void {
+    const percent = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+    const line = (label: string, a: number, b: number) => {
+      const change = b - a;
+      console.log(
+        `${label.padEnd(14)} ${`${a.toFixed(1)}%`.padStart(10)} ${`${b.toFixed(1)}%`.padStart(10)} ` +
+          `${`${change >= 0 ? '+' : ''}${change.toFixed(1)}`.padStart(8)}`
+      );
+    };
+
+    console.log(`\nValidated rows compared: ${zero.rows}`);
+    console.log(`${'field'.padEnd(14)} ${'zero-shot'.padStart(10)} ${'few-shot'.padStart(10)} ${'change'.padStart(8)}`);
+    for (const field of TENDER_FIELDS) {
+      line(field, percent(zero.correct[field], zero.rows), percent(few.correct[field], few.rows));
+    }
+    line('exact rows', percent(zero.exact_rows, zero.rows), percent(few.exact_rows, few.rows));
+
+    const count = (label: string, a: string, b: string) =>
+      console.log(`${label.padEnd(14)} ${a.padStart(10)} ${b.padStart(10)}`);
+
+    console.log('');
+    count('', 'zero-shot', 'few-shot');
+    count('missed rows', String(zero.missed_rows), String(few.missed_rows));
+    count('invented rows', String(zero.invented_rows), String(few.invented_rows));
+    count('model calls', String(zero.calls), String(few.calls));
+    count('prompt tokens', String(zero.prompt_tokens), String(few.prompt_tokens));
+    count('cost (USD)', zero.cost_usd.toFixed(4), few.cost_usd.toFixed(4));
+    console.log('Cached extractions cost nothing and make no model call.');
+  }
+
+  /**
+   * Builder reading the text layer with the learned column order, as extraction does
+   */
+  private async builder(pool: TrainingExample[], examples: number): Promise<FewShotPromptBuilder> {
+    const behavior = await new BehaviorStore(this.sources.getModelsDir(this.source)).latest();
+    return new FewShotPromptBuilder(
+      pool,
+      examples,
+      undefined,
+      new TextLayerExtractor(behavior?.behavior.table_structure?.columns || [], this.source.field_mapping)
+    );
+  }
+
+  private async heldOut(): Promise<HeldOutSet> {
+    const heldOut = new HeldOutSet(this.sources.getModelsDir(this.source));
+    await heldOut.load();
+    return heldOut;
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Whether a PDF belongs to the test split: a fixed share of PDFs, chosen
+ * by the hash of the path
+ */
+function isHeldOut(pdfPath: string, testShare: number): boolean {
+  return parseInt(sha256(pdfPath).slice(0, 8), 16) / 0x100000000 < testShare;
+}
+
+function emptyScore(): ModeScore {
+  return {
+    rows: 0,
+    correct: Object.fromEntries(TENDER_FIELDS.map((field) => [field, 0])),
+    exact_rows: 0,
+    missed_rows: 0,
+    invented_rows: 0,
+    calls: 0,
+    prompt_tokens: 0,
+    cost_usd: 0,
+  };
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    'test-share': { type: 'string', default: '0.3' },
+    limit: { type: 'string', default: '10' },
+    examples: { type: 'string', default: String(FEW_SHOT_EXAMPLES || 3) },
+  },
+});
+
+// Run command
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new FewShotCommand(sources, sources.resolve(values.source as string | undefined)))
+  .then((fewShotCommand) =>
+    fewShotCommand.run(positionals, {
+      testShare: parseFloat(values['test-share'] as string),
+      limit: parseInt(values.limit as string),
+      examples: parseInt(values.examples as string),
+    })
+  )
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
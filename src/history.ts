@@ -0,0 +1,127 @@
+/**
+ * TENDER HISTORY
+ * Query the change events recorded by each crawl
+ *
+ * Usage:
+ *   npm run history -- <daftar>                       Lifecycle of one tender
+ *   npm run history -- [--since YYYY-MM-DD] [--type new,status_changed] [--json]
+ *
+ * A DAFTAR is looked up on one portal: --source ID, else the first enabled
+ * source (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import SourceRegistry, { DEFAULT_SOURCE_ID } from './learning/source-registry.js';
+import TenderStore from './learning/tender-store.js';
+import { createStorage, EventFilter, StorageBackend } from './storage/index.js';
+import { TenderEvent, TenderEventType } from './types/index.js';
+
+const EVENT_TYPES: TenderEventType[] = ['new', 'modified', 'status_changed', 'disappeared'];
+
+interface HistoryOptions {
+  daftar?: string;
+  source?: string;
+  since?: Date;
+  types?: TenderEventType[];
+  json: boolean;
+}
+
+class HistoryCommand {
+  private storage: StorageBackend;
+
+  constructor() {
+    this.storage = createStorage();
+  }
+
+  async run(options: HistoryOptions): Promise<void> {
+    try {
+      await this.storage.initialize();
+
+      const filter: EventFilter = { types: options.types, since: options.since };
+      if (options.daftar) {
+        const sources = new SourceRegistry();
+        await sources.load();
+        const sourceId = sources.resolve(options.source).id;
+
+        filter.keyPrefixes = [TenderStore.daftarPrefix(options.daftar, sourceId)];
+        // Events stored before keys held the source belong to the default source
+        if (sourceId === DEFAULT_SOURCE_ID) {
+          filter.keyPrefixes.push(`${TenderStore.normalizeDaftar(options.daftar)}|`);
+        }
+      }
+
+      const events = await this.storage.getEvents(filter);
+
+      if (options.json) {
+        console.log(JSON.stringify(events, null, 2));
+        return;
+      }
+
+      if (events.length === 0) {
+        console.log('No events found. Run npm run extract to record crawls.');
+        return;
+      }
+
+      console.log(options.daftar ? `\n=== HISTORY: ${options.daftar} ===` : '\n=== TENDER EVENTS ===');
+      for (const event of events) {
+        this.printEvent(event, !options.daftar);
+      }
+    } finally {
+      await this.storage.close();
+    }
+  }
+
+  private printEvent(event: TenderEvent, showDaftar: boolean): void {
+    const when = new Date(event.detected_at).toISOString().replace('T', ' ').slice(0, 16);
+    const who = showDaftar ? `${event.daftar}  ` : '';
+    const kod = event.key.split('|').pop();
+
+    console.log(`${when}  ${event.type.padEnd(14)} ${who}${kod ? `[${kod}]` : ''}`);
+
+    for (const change of event.changes) {
+      console.log(`    ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+    }
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    since: { type: 'string', short: 's' },
+    type: { type: 'string', short: 't' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const types = values.type
+  ? ((values.type as string).split(',').map((t) => t.trim()) as TenderEventType[])
+  : undefined;
+
+if (types && types.some((t) => !EVENT_TYPES.includes(t))) {
+  console.log(`Unknown event type in: ${values.type} (expected ${EVENT_TYPES.join(', ')})`);
+  process.exit(1);
+}
+
+const since = values.since ? new Date(values.since as string) : undefined;
+if (since && isNaN(since.getTime())) {
+  console.log(`Invalid date: ${values.since}`);
+  process.exit(1);
+}
+
+// Run command
+const historyCommand = new HistoryCommand();
+historyCommand
+  .run({
+    daftar: positionals.join(' ') || undefined,
+    source: values.source as string | undefined,
+    since,
+    types,
+    json: values.json as boolean,
+  })
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -7,7 +7,23 @@ console.log('TenderMY - Malaysian Tender Scraper');
 console.log('');
 console.log('Available commands:');
 console.log('  npm run learn    - Learn website & capture PDFs');
+console.log('  npm run review   - Review unvalidated extractions in the browser');
+console.log('  npm run reviewers - Double review assignment, agreement and audit trail');
 console.log('  npm run validate - Analyze extraction accuracy');
 console.log('  npm run train    - Improve with iterative training');
+console.log('  npm run extract  - Extract tenders to a dataset (non-interactive)');
+console.log('  npm run behavior - List, diff or re-learn website behavior profiles');
+console.log('  npm run prompts  - List, compare, promote or roll back prompt versions');
+console.log('  npm run db       - Migrate, inspect or import into the Postgres store');
+console.log('  npm run jobs     - Enqueue a crawl on Redis and follow its progress');
+console.log('  npm run worker   - Process queued capture/extract/persist jobs');
+console.log('  npm run history  - Tender lifecycle events between crawls');
+console.log('  npm run alerts   - List subscriptions, test notifiers, re-send alerts');
+console.log('  npm run sources  - List tender portals and which are due for a crawl');
+console.log('  npm run usage    - Model tokens and estimated cost per run, session or source');
+console.log('  npm run cache    - Extraction cache hit rates and invalidation');
+console.log('  npm run calibrate - Fit confidences to validated examples, reliability report');
+console.log('  npm run fewshot  - Preview few-shot examples, compare zero-shot and few-shot accuracy');
+console.log('  npm run eval     - Frozen test set, held-out accuracy and the prompt promotion gate');
 console.log('');
 console.log('Start with: npm run learn');
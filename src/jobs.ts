@@ -0,0 +1,178 @@
+/**
+ * QUEUE JOBS
+ * Enqueue a crawl and follow its progress
+ *
+ * Usage:
+ *   npm run jobs -- enqueue [pages] [--source ID] [--no-alerts]
+ *                                     Queue capture jobs for every page (or the first N)
+ *   npm run jobs -- status            Job counts and progress of each queue
+ *   npm run jobs -- dead              List dead-lettered jobs
+ *   npm run jobs -- retry-dead        Re-queue dead-lettered jobs on their original queue
+ *
+ * A queued crawl is finished by the persist job of its last page: change
+ * events are stored and sent to subscriptions as after npm run extract.
+ * A dead-lettered page holds that back until it is retried.
+ */
+
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import BehaviorStore from './learning/behavior-store.js';
+import WebsiteBehaviorLearner from './learning/website-behavior.js';
+import PDFCapture from './learning/pdf-capture.js';
+import SourceRegistry from './learning/source-registry.js';
+import {
+  CaptureJobData,
+  ExtractJobData,
+  PersistJobData,
+  TenderQueues,
+  closeQueues,
+  createQueues,
+} from './queue/index.js';
+
+class JobsCommand {
+  private queues: TenderQueues;
+  private sources: SourceRegistry;
+
+  constructor() {
+    this.queues = createQueues();
+    this.sources = new SourceRegistry();
+  }
+
+  async run(args: string[], sourceId?: string, alerts: boolean = true): Promise<void> {
+    const [command = 'status', ...rest] = args;
+
+    try {
+      switch (command) {
+        case 'enqueue':
+          return await this.enqueue(rest, sourceId, alerts);
+        case 'status':
+          return await this.status();
+        case 'dead':
+          return await this.dead();
+        case 'retry-dead':
+          return await this.retryDead();
+        default:
+          console.log(`Unknown command: ${command}`);
+          console.log('Available: enqueue [pages], status, dead, retry-dead');
+      }
+    } finally {
+      await closeQueues(this.queues);
+    }
+  }
+
+  /**
+   * Queue one capture job per page
+   */
+  private async enqueue(args: string[], sourceId: string | undefined, alerts: boolean): Promise<void> {
+    await this.sources.load();
+    const source = this.sources.resolve(sourceId);
+    const behavior = await new BehaviorStore(this.sources.getModelsDir(source)).loadOrLearn(
+      new WebsiteBehaviorLearner(source.url)
+    );
+    const totalPages = args[0]
+      ? Math.min(parseInt(args[0]), behavior.total_pages)
+      : behavior.total_pages;
+    const runId = randomUUID();
+    const crawl = { pages: totalPages, complete: totalPages === behavior.total_pages, alerts };
+
+    for (let page = 1; page <= totalPages; page++) {
+      await this.queues.capture.add(
+        {
+          run_id: runId,
+          source_id: source.id,
+          url: PDFCapture.pageUrl(behavior.pagination_pattern, page),
+          page_number: page,
+          columns: behavior.table_structure?.columns || [],
+          crawl,
+        },
+        { jobId: `${runId}:capture:${page}` }
+      );
+    }
+
+    logger.info('Crawl enqueued', { run_id: runId, source: source.id, pages: totalPages });
+    console.log(`Enqueued ${totalPages} capture jobs for ${source.id} (run ${runId})`);
+    console.log('Start workers with: npm run worker');
+  }
+
+  /**
+   * Print job counts and active job progress per queue
+   */
+  private async status(): Promise<void> {
+    console.log('\n=== QUEUE STATUS ===');
+
+    for (const stage of ['capture', 'extract', 'persist'] as const) {
+      const queue = this.queues[stage];
+      const counts = await queue.getJobCounts();
+
+      console.log(
+        `${stage.padEnd(8)} waiting=${counts.waiting} active=${counts.active} ` +
+          `delayed=${counts.delayed} completed=${counts.completed} failed=${counts.failed}`
+      );
+
+      for (const job of await queue.getActive()) {
+        console.log(`  page ${job.data.page_number}: ${job.progress()}% (attempt ${job.attemptsMade + 1})`);
+      }
+    }
+
+    console.log(`dead     ${await this.queues.deadLetter.count()}`);
+  }
+
+  /**
+   * List dead-lettered jobs
+   */
+  private async dead(): Promise<void> {
+    const jobs = await this.queues.deadLetter.getWaiting();
+
+    if (jobs.length === 0) {
+      console.log('No dead-lettered jobs.');
+      return;
+    }
+
+    console.log('\n=== DEAD-LETTERED JOBS ===');
+    for (const job of jobs) {
+      const { queue, job_id, data, failed_reason, attempts_made } = job.data;
+      console.log(`${queue.padEnd(8)} ${job_id}  page ${data.page_number}  attempts=${attempts_made}`);
+      console.log(`  ${failed_reason}`);
+    }
+  }
+
+  /**
+   * Move dead-lettered jobs back onto their original queue
+   */
+  private async retryDead(): Promise<void> {
+    const jobs = await this.queues.deadLetter.getWaiting();
+
+    for (const job of jobs) {
+      const { queue, data } = job.data;
+
+      if (queue === 'capture') {
+        await this.queues.capture.add(data as CaptureJobData);
+      } else if (queue === 'extract') {
+        await this.queues.extract.add(data as ExtractJobData);
+      } else {
+        await this.queues.persist.add(data as PersistJobData);
+      }
+
+      await job.remove();
+    }
+
+    console.log(`Re-queued ${jobs.length} dead-lettered jobs`);
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    'no-alerts': { type: 'boolean', default: false },
+  },
+});
+
+// Run command
+const jobsCommand = new JobsCommand();
+jobsCommand.run(positionals, values.source as string | undefined, !values['no-alerts']).catch((error) => {
+  logger.error('Fatal error', { error });
+  process.exit(1);
+});
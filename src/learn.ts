@@ -1,45 +1,70 @@
 /**
  * MASTER LEARNING ORCHESTRATOR
  * Coordinates all learning phases to progressively improve extraction accuracy
+ *
+ * Usage: npm run learn -- [--source ID]
  */
 
 import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
 import logger from './utils/logger.js';
 import WebsiteBehaviorLearner from './learning/website-behavior.js';
+import BehaviorStore from './learning/behavior-store.js';
 import PDFCapture from './learning/pdf-capture.js';
 import GeminiExtractor from './learning/gemini-extractor.js';
-import TrainingDataManager from './learning/training-manager.js';
-import { Tender } from './types/index.js';
-import * as readline from 'readline';
+import ConfidenceCalibrator from './learning/confidence-calibrator.js';
+import FewShotPromptBuilder, { FEW_SHOT_EXAMPLES } from './learning/few-shot-builder.js';
+import TextLayerExtractor from './learning/text-layer-extractor.js';
+import HeldOutSet from './learning/test-set.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import SourceRegistry from './learning/source-registry.js';
+import TrainingDataManager, { DEFAULT_REVIEWER_ID } from './learning/training-manager.js';
+import TenderStore from './learning/tender-store.js';
+import UsageTracker, { BudgetExceededError } from './learning/usage-tracker.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import ReviewServer from './review/review-server.js';
+import { TenderSource } from './types/index.js';
 
 class LearningOrchestrator {
+  private sources: SourceRegistry;
+  private source: TenderSource;
   private websiteLearner: WebsiteBehaviorLearner;
+  private behaviorStore: BehaviorStore;
   private pdfCapture: PDFCapture;
   private extractor: GeminiExtractor;
+  private calibrator: ConfidenceCalibrator;
+  private storage: StorageBackend;
   private trainingManager: TrainingDataManager;
-  private rl: readline.Interface;
-
-  constructor() {
-    this.websiteLearner = new WebsiteBehaviorLearner();
+  private tenderStore: TenderStore;
+  private threshold: number;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.websiteLearner = new WebsiteBehaviorLearner(source.url);
+    this.behaviorStore = new BehaviorStore(sources.getModelsDir(source));
     this.pdfCapture = new PDFCapture();
     this.extractor = new GeminiExtractor();
-    this.trainingManager = new TrainingDataManager();
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+    this.calibrator = new ConfidenceCalibrator(sources.getModelsDir(source));
+    this.storage = createStorage();
+    this.trainingManager = new TrainingDataManager(this.storage, undefined, source.id);
+    this.tenderStore = new TenderStore(this.storage);
+    this.threshold = parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.85');
   }
 
   /**
    * Main learning flow
    */
   async learnAndImprove(): Promise<void> {
+    const startedAt = Date.now();
+
     try {
-      logger.info('Starting Learning Orchestrator...');
+      logger.info('Starting Learning Orchestrator...', { source: this.source.id });
 
       // Phase 1: Learn website behavior
       logger.info('PHASE 1: LEARNING WEBSITE BEHAVIOR');
-      const behavior = await this.websiteLearner.learn();
+      const behavior = await this.behaviorStore.loadOrLearn(this.websiteLearner);
       logger.info('Website behavior learned', {
         pages: behavior.total_pages,
         columns: behavior.table_structure?.columns,
@@ -49,6 +74,24 @@ class LearningOrchestrator {
       logger.info('PHASE 2: INITIALIZING STORAGE');
       await this.pdfCapture.initialize();
       await this.trainingManager.initialize();
+      await this.tenderStore.load();
+      await this.extractor.loadActivePrompt(
+        new PromptRegistry(this.sources.getModelsDir(this.source)),
+        await this.sources.loadSeedPrompt(this.source)
+      );
+      await this.calibrator.load();
+      if (FEW_SHOT_EXAMPLES > 0) {
+        const heldOut = new HeldOutSet(this.sources.getModelsDir(this.source));
+        await heldOut.load();
+        this.extractor.setFewShot(
+          new FewShotPromptBuilder(
+            heldOut.trainingExamples(await this.trainingManager.getValidatedExamples()),
+            FEW_SHOT_EXAMPLES,
+            undefined,
+            new TextLayerExtractor(behavior.table_structure?.columns || [], this.source.field_mapping)
+          )
+        );
+      }
 
       // Phase 3: Capture PDFs
       logger.info('PHASE 3: CAPTURING PDFs FROM WEBSITE');
@@ -60,7 +103,7 @@ class LearningOrchestrator {
       );
 
       const captures = await this.pdfCapture.captureMultiplePages(
-        process.env.GOV_WEBSITE_URL || '',
+        this.source.url,
         pagesToCapture,
         behavior.pagination_pattern
       );
@@ -72,20 +115,32 @@ class LearningOrchestrator {
       const session = await this.trainingManager.createSession();
       let iteration = 1;
 
+      const usageTracker = new UsageTracker(this.storage, {
+        run_id: randomUUID(),
+        session_id: session.id,
+        source_id: this.source.id,
+      });
+      this.extractor.setUsageTracker(usageTracker);
+
       let cumulativeAccuracy = 0;
       const allExtractions = [];
 
       for (const capture of captures) {
         try {
-          const extractions = await this.extractor.extractFromPDF(capture.pdf_path);
+          const extractions = SourceRegistry.tagSource(
+            (await this.extractor.extractFromPDF(capture.pdf_path)).map((e) => this.calibrator.calibrate(e)),
+            this.source.id
+          );
           allExtractions.push(...extractions);
+          this.tenderStore.merge(extractions, capture.id);
 
           // Save training examples
           await this.trainingManager.saveTrainingExample(
             capture.pdf_path,
             capture.url,
             extractions,
-            iteration
+            iteration,
+            capture.screenshot_path
           );
 
           logger.info(`Extracted from PDF`, {
@@ -97,6 +152,11 @@ class LearningOrchestrator {
             ).toFixed(3),
           });
         } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            logger.error('Model budget reached, skipping remaining PDFs', { error: error.message });
+            break;
+          }
+
           logger.error(`Failed to extract from PDF`, {
             page: capture.page_number,
             error,
@@ -104,9 +164,21 @@ class LearningOrchestrator {
         }
       }
 
+      await this.tenderStore.save();
+
+      // Capture and extraction only; manual validation time is not processing
+      const processingTimeMs = Date.now() - startedAt;
+      const usage = usageTracker.getSummary();
+      logger.info('Model usage', {
+        calls: usage.calls,
+        prompt_tokens: usage.prompt_tokens,
+        response_tokens: usage.response_tokens,
+        cost_usd: parseFloat(usage.cost_usd.toFixed(4)),
+      });
+
       // Phase 5: Manual validation loop
       logger.info('PHASE 5: MANUAL VALIDATION & ITERATIVE IMPROVEMENT');
-      await this.manualValidationLoop(session.id, iteration);
+      await this.manualValidationLoop();
 
       // Phase 6: Calculate improvements and generate report
       const accuracy = await this.trainingManager.calculateAccuracy();
@@ -116,10 +188,10 @@ class LearningOrchestrator {
       await this.trainingManager.saveMetrics({
         total_tenders_found: allExtractions.length,
         successfully_extracted: allExtractions.filter(
-          (e) => e.confidence.overall > 0.85
+          (e) => e.confidence.overall > this.threshold
         ).length,
         failed_extractions: allExtractions.filter(
-          (e) => e.confidence.overall <= 0.85
+          (e) => e.confidence.overall <= this.threshold
         ).length,
         average_confidence: parseFloat(
           (
@@ -128,8 +200,9 @@ class LearningOrchestrator {
           ).toFixed(3)
         ),
         extraction_accuracy: accuracy,
-        processing_time_ms: 0,
+        processing_time_ms: processingTimeMs,
         timestamp: new Date(),
+        ...usageTracker.toMetrics(),
       });
 
       // Generate report
@@ -141,15 +214,15 @@ class LearningOrchestrator {
       throw error;
     } finally {
       await this.pdfCapture.close();
-      this.rl.close();
+      await this.storage.close();
     }
   }
 
   /**
-   * Manual validation loop - user validates extracted data
+   * Manual validation in the review console
    */
-  private async manualValidationLoop(sessionId: string, iteration: number): Promise<void> {
-    const unvalidated = await this.trainingManager.getUnvalidatedExamples();
+  private async manualValidationLoop(): Promise<void> {
+    const unvalidated = await this.trainingManager.getExamplesForReviewer(DEFAULT_REVIEWER_ID);
 
     if (unvalidated.length === 0) {
       logger.info('No unvalidated examples');
@@ -157,109 +230,35 @@ class LearningOrchestrator {
     }
 
     logger.info(`Found ${unvalidated.length} examples requiring validation`);
-    console.log('\n=== MANUAL VALIDATION ===');
-    console.log(`You have ${unvalidated.length} extractions to validate`);
-    console.log('For each, review the extracted data and provide corrections if needed.\n');
-
-    for (let i = 0; i < Math.min(unvalidated.length, 5); i++) {
-      const example = unvalidated[i];
+    const reviewServer = new ReviewServer(this.trainingManager, { title: `Tender review: ${this.source.id}` });
+    const url = await reviewServer.start();
 
-      console.log(`\n--- Example ${i + 1} of ${Math.min(unvalidated.length, 5)} ---`);
-      console.log('EXTRACTED DATA:');
-      console.log(JSON.stringify(example.gemini_extraction.tender, null, 2));
-      console.log('CONFIDENCE:', example.gemini_extraction.confidence.overall);
-
-      const validated = await this.promptForValidation();
+    try {
+      console.log('\n=== MANUAL VALIDATION ===');
+      console.log(`You have ${unvalidated.length} extractions to validate`);
+      console.log(`Open ${url} to review them, then press Done.\n`);
 
-      if (validated) {
-        try {
-          await this.trainingManager.validateExample(example.id, validated);
-          logger.info('Example validated and saved', { id: example.id });
-        } catch (error) {
-          logger.error('Failed to save validation', { error });
-        }
-      }
+      const summary = await reviewServer.waitUntilDone();
+      logger.info('Manual validation finished', { ...summary });
+    } finally {
+      await reviewServer.stop();
     }
   }
-
-  /**
-   * Prompt user to validate tender data
-   */
-  private promptForValidation(): Promise<Tender | null> {
-    return new Promise((resolve) => {
-      this.rl.question(
-        'Is this correct? (y/n/edit): ',
-        async (answer) => {
-          if (answer.toLowerCase() === 'y') {
-            resolve(null); // Keep extracted as-is
-          } else if (answer.toLowerCase() === 'edit') {
-            const edited = await this.promptForManualEdit();
-            resolve(edited);
-          } else {
-            resolve(null);
-          }
-        }
-      );
-    });
-  }
-
-  /**
-   * Allow user to manually edit tender data
-   */
-  private promptForManualEdit(): Promise<Tender | null> {
-    return new Promise((resolve) => {
-      const tender: Partial<Tender> = {};
-
-      const prompts = [
-        'BIL (number): ',
-        'TARIKH (YYYY-MM-DD): ',
-        'DAFTAR: ',
-        'BIDANG: ',
-        'KOD BIDANG (6 digits): ',
-        'KETERANGAN: ',
-        'STATUS (Aktif/Tidak Aktif): ',
-      ];
-
-      const keys: (keyof Tender)[] = [
-        'bil',
-        'tarikh',
-        'daftar',
-        'bidang',
-        'kod_bidang',
-        'keterangan',
-        'status',
-      ];
-
-      let index = 0;
-
-      const askNext = () => {
-        if (index >= prompts.length) {
-          resolve(tender as Tender);
-          return;
-        }
-
-        this.rl.question(prompts[index], (answer) => {
-          if (answer.trim()) {
-            const key = keys[index];
-            if (key === 'bil') {
-              tender[key] = parseInt(answer);
-            } else {
-              tender[key] = answer.trim() as any;
-            }
-          }
-          index++;
-          askNext();
-        });
-      };
-
-      askNext();
-    });
-  }
 }
 
-// Run orchestrator
-const orchestrator = new LearningOrchestrator();
-orchestrator.learnAndImprove().catch((error) => {
-  logger.error('Fatal error', { error });
-  process.exit(1);
+const { values } = parseArgs({
+  options: {
+    source: { type: 'string' },
+  },
 });
+
+// Run orchestrator
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new LearningOrchestrator(sources, sources.resolve(values.source as string | undefined)))
+  .then((orchestrator) => orchestrator.learnAndImprove())
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
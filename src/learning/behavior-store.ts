@@ -0,0 +1,197 @@
+/**
+ * WEBSITE BEHAVIOR PROFILES
+ * This module handles:
+ * - Versioned storage of learned website behavior
+ * - Staleness and layout checks before reuse
+ * - Diffing profiles to spot portal layout changes
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import WebsiteBehaviorLearner from './website-behavior.js';
+import { BehaviorDiff, StoredBehaviorProfile, WebsiteBehavior } from '../types/index.js';
+
+export class BehaviorStore {
+  private behaviorDir: string;
+  private maxAgeHours: number;
+
+  constructor(
+    modelsDir: string = process.env.MODELS_DIR || './models',
+    maxAgeHours: number = parseFloat(process.env.BEHAVIOR_MAX_AGE_HOURS || '168')
+  ) {
+    this.behaviorDir = path.join(modelsDir, 'behavior');
+    this.maxAgeHours = maxAgeHours;
+  }
+
+  /**
+   * Initialize behavior profile directory
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.behaviorDir, { recursive: true });
+  }
+
+  /**
+   * Save behavior as the next profile version
+   */
+  async save(behavior: WebsiteBehavior): Promise<StoredBehaviorProfile> {
+    await this.initialize();
+
+    const latest = await this.latest();
+    const profile: StoredBehaviorProfile = {
+      version: (latest?.version || 0) + 1,
+      saved_at: new Date(),
+      behavior,
+    };
+
+    await fs.writeFile(
+      path.join(this.behaviorDir, `v${profile.version}.json`),
+      JSON.stringify(profile, null, 2)
+    );
+
+    logger.info('Behavior profile saved', { version: profile.version });
+    return profile;
+  }
+
+  /**
+   * Get all stored profiles, oldest first
+   */
+  async list(): Promise<StoredBehaviorProfile[]> {
+    try {
+      const files = await fs.readdir(this.behaviorDir);
+      const profiles: StoredBehaviorProfile[] = [];
+
+      for (const file of files) {
+        if (!/^v\d+\.json$/.test(file)) continue;
+
+        const content = await fs.readFile(path.join(this.behaviorDir, file), 'utf-8');
+        profiles.push(JSON.parse(content));
+      }
+
+      return profiles.sort((a, b) => a.version - b.version);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get a profile by version
+   */
+  async get(version: number): Promise<StoredBehaviorProfile | null> {
+    try {
+      const content = await fs.readFile(
+        path.join(this.behaviorDir, `v${version}.json`),
+        'utf-8'
+      );
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the most recent profile
+   */
+  async latest(): Promise<StoredBehaviorProfile | null> {
+    const profiles = await this.list();
+    return profiles[profiles.length - 1] || null;
+  }
+
+  /**
+   * Check whether a profile is older than the allowed age
+   */
+  isStale(profile: StoredBehaviorProfile): boolean {
+    const ageMs = Date.now() - new Date(profile.saved_at).getTime();
+    return ageMs > this.maxAgeHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Load the latest profile, re-learning when stale or when the live
+   * table columns no longer match the stored ones
+   */
+  async loadOrLearn(learner: WebsiteBehaviorLearner): Promise<WebsiteBehavior> {
+    const latest = await this.latest();
+
+    if (!latest) {
+      logger.info('No behavior profile found, learning website');
+      return (await this.save(await learner.learn())).behavior;
+    }
+
+    if (this.isStale(latest)) {
+      logger.info('Behavior profile is stale, re-learning website', {
+        version: latest.version,
+        saved_at: latest.saved_at,
+      });
+      return (await this.save(await learner.learn())).behavior;
+    }
+
+    try {
+      const liveColumns = await learner.probeColumns();
+      const storedColumns = latest.behavior.table_structure?.columns || [];
+
+      if (!this.sameColumns(storedColumns, liveColumns)) {
+        logger.warn('Live table columns changed, re-learning website', {
+          stored: storedColumns,
+          live: liveColumns,
+        });
+        return (await this.save(await learner.learn())).behavior;
+      }
+    } catch {
+      logger.warn('Could not verify live columns, using stored profile');
+    }
+
+    logger.info('Using stored behavior profile', { version: latest.version });
+    return latest.behavior;
+  }
+
+  /**
+   * Compare two profiles field by field
+   */
+  diff(from: StoredBehaviorProfile, to: StoredBehaviorProfile): BehaviorDiff {
+    const a = from.behavior;
+    const b = to.behavior;
+    const changes: BehaviorDiff['changes'] = [];
+
+    const compare = (field: string, before: unknown, after: unknown) => {
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ field, before, after });
+      }
+    };
+
+    compare('total_pages', a.total_pages, b.total_pages);
+    compare('pagination_pattern', a.pagination_pattern, b.pagination_pattern);
+    compare('filters_available', a.filters_available, b.filters_available);
+    compare('table_structure.rows_per_page', a.table_structure?.rows_per_page, b.table_structure?.rows_per_page);
+    compare('table_structure.columns', a.table_structure?.columns, b.table_structure?.columns);
+    compare(
+      'table_structure.has_dynamic_content',
+      a.table_structure?.has_dynamic_content,
+      b.table_structure?.has_dynamic_content
+    );
+
+    const columnsBefore = a.table_structure?.columns || [];
+    const columnsAfter = b.table_structure?.columns || [];
+
+    return {
+      from_version: from.version,
+      to_version: to.version,
+      changes,
+      columns_added: columnsAfter.filter((c) => !columnsBefore.includes(c)),
+      columns_removed: columnsBefore.filter((c) => !columnsAfter.includes(c)),
+      layout_changed:
+        !this.sameColumns(columnsBefore, columnsAfter) ||
+        a.pagination_pattern !== b.pagination_pattern,
+    };
+  }
+
+  /**
+   * Column lists match when they hold the same headers in the same order
+   */
+  private sameColumns(a: string[], b: string[]): boolean {
+    const normalize = (columns: string[]) =>
+      columns.map((c) => c.trim().toUpperCase().replace(/\s+/g, ' '));
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+  }
+}
+
+export default BehaviorStore;
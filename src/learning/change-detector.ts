@@ -0,0 +1,147 @@
+/**
+ * CHANGE DETECTION
+ * This module handles:
+ * - Snapshotting the tenders seen in a crawl
+ * - Comparing a crawl with the previous complete one
+ * - Emitting new / modified / status_changed / disappeared events
+ */
+
+import { sha256 } from '../utils/hash.js';
+import { DEFAULT_SOURCE_ID } from './source-registry.js';
+import TenderStore from './tender-store.js';
+import { CrawlSnapshot, FieldChange, Tender, TenderEvent, TenderEventType, TenderRecord } from '../types/index.js';
+
+// BIL is the row position on the page, not a property of the tender.
+// DAFTAR is part of the key, so between matched records only its formatting can differ.
+const IGNORED_FIELDS = new Set(['bil', 'daftar']);
+
+export class ChangeDetector {
+  /**
+   * Build the snapshot of a crawl from the records it saw
+   */
+  snapshot(
+    crawlId: string,
+    records: TenderRecord[],
+    complete: boolean,
+    sourceId: string = DEFAULT_SOURCE_ID
+  ): CrawlSnapshot {
+    const tenders: Record<string, Partial<Tender>> = {};
+
+    for (const record of records) {
+      tenders[record.key] = { ...record.tender };
+    }
+
+    return { crawl_id: crawlId, source_id: sourceId, taken_at: new Date(), complete, tenders };
+  }
+
+  /**
+   * Compare a crawl with the previous one. Without a previous snapshot
+   * every tender is new; disappearances are only reported for complete
+   * crawls, since a partial crawl did not look at every page.
+   *
+   * Event ids hash the previous crawl, not the current one, with the key,
+   * the type and the new values. Partial crawls keep comparing against the
+   * same complete crawl, so a change they all see keeps its id and is
+   * stored and alerted once.
+   */
+  compare(previous: CrawlSnapshot | null, current: CrawlSnapshot): TenderEvent[] {
+    const events: TenderEvent[] = [];
+    const before = this.upgradeKeys(previous);
+    const baseline = previous?.crawl_id || `none:${current.source_id || DEFAULT_SOURCE_ID}`;
+    const event = (type: TenderEventType, key: string, tender: Partial<Tender>, changes: FieldChange[]) =>
+      this.event(type, key, tender, current, changes, baseline);
+
+    for (const [key, tender] of Object.entries(current.tenders)) {
+      const old = before[key];
+
+      if (!old) {
+        events.push(event('new', key, tender, []));
+        continue;
+      }
+
+      const changes = this.diff(old, tender);
+      const statusChanges = changes.filter((c) => c.field === 'status');
+      const otherChanges = changes.filter((c) => c.field !== 'status');
+
+      if (statusChanges.length > 0) {
+        events.push(event('status_changed', key, tender, statusChanges));
+      }
+      if (otherChanges.length > 0) {
+        events.push(event('modified', key, tender, otherChanges));
+      }
+    }
+
+    if (current.complete) {
+      for (const [key, tender] of Object.entries(before)) {
+        if (!current.tenders[key]) {
+          events.push(event('disappeared', key, tender, []));
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Field-level differences, ignoring fields missing from either side
+   */
+  diff(before: Partial<Tender>, after: Partial<Tender>): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+
+      const oldValue = before[field as keyof Tender];
+      const newValue = after[field as keyof Tender];
+
+      if (oldValue === undefined || oldValue === null || newValue === undefined || newValue === null) {
+        continue;
+      }
+
+      if (oldValue !== newValue) {
+        changes.push({ field, before: oldValue, after: newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Tenders of a snapshot by current key; snapshots taken before keys held
+   * the source are keyed without it
+   */
+  private upgradeKeys(snapshot: CrawlSnapshot | null): Record<string, Partial<Tender>> {
+    const tenders: Record<string, Partial<Tender>> = {};
+    if (!snapshot) return tenders;
+
+    for (const [key, tender] of Object.entries(snapshot.tenders)) {
+      tenders[TenderStore.upgradeKey(key, snapshot.source_id)] = tender;
+    }
+    return tenders;
+  }
+
+  private event(
+    type: TenderEventType,
+    key: string,
+    tender: Partial<Tender>,
+    crawl: CrawlSnapshot,
+    changes: FieldChange[],
+    baseline: string
+  ): TenderEvent {
+    const values = changes.map((c) => `${c.field}=${JSON.stringify(c.after)}`).join(',');
+
+    return {
+      id: sha256(`${baseline}|${key}|${type}|${values}`).slice(0, 32),
+      type,
+      key,
+      daftar: tender.daftar || key.split('|')[1],
+      crawl_id: crawl.crawl_id,
+      detected_at: crawl.taken_at,
+      changes,
+      tender,
+    };
+  }
+}
+
+export default ChangeDetector;
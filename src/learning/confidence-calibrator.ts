@@ -0,0 +1,334 @@
+/**
+ * CONFIDENCE CALIBRATION
+ * This module handles:
+ * - Fitting per-field correctness rates against validated examples
+ * - Replacing the fixed format-check confidences with those rates
+ * - A reliability report of predicted versus observed accuracy
+ *
+ * Each extracted value is put in a bucket by its signals:
+ * - format: did it pass the format check in scoreTender
+ * - text: does the PDF text layer give the same value
+ * - votes: do repeated extractions of the row give the same value
+ *
+ * A bucket's confidence is its share of correct values, smoothed towards
+ * the coarser bucket (format and text, then format, then the field overall)
+ * so rare signal combinations borrow from common ones. The model is stored
+ * in MODELS_DIR/calibration.json.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import RowMatcher from './row-matcher.js';
+import TextLayerExtractor from './text-layer-extractor.js';
+import { scoreTender } from '../utils/scoring.js';
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import {
+  CalibrationCounts,
+  CalibrationModel,
+  ExtractionResult,
+  ReliabilityReport,
+  Tender,
+  TrainingExample,
+} from '../types/index.js';
+
+export type SignalState = 'agree' | 'disagree' | 'unknown';
+
+export interface FieldSignals {
+  format_valid: boolean;
+  text_layer: SignalState;
+  consistency: SignalState;
+}
+
+export interface SignalSources {
+  textLayer?: Partial<Tender> | null; // The same row read from the PDF text layer
+  others?: Partial<Tender>[]; // The same row from repeated extractions
+  votes?: Record<string, number>; // Per-field agreement of voted passes, when there are no others
+}
+
+// Weight, in examples, of the coarser bucket's rate when smoothing
+const PRIOR_WEIGHT = 5;
+const RELIABILITY_BINS = 10;
+
+interface Observation {
+  field: keyof Tender;
+  signals: FieldSignals;
+  correct: boolean;
+  uncalibrated: number;
+}
+
+export class ConfidenceCalibrator {
+  private modelFile: string;
+  private textLayer: TextLayerExtractor;
+  private rowMatcher: RowMatcher;
+  private model: CalibrationModel | null = null;
+
+  constructor(
+    modelsDir: string = process.env.MODELS_DIR || './models',
+    textLayer: TextLayerExtractor = new TextLayerExtractor()
+  ) {
+    this.modelFile = path.join(modelsDir, 'calibration.json');
+    this.textLayer = textLayer;
+    this.rowMatcher = new RowMatcher();
+  }
+
+  /**
+   * Load the fitted model; without one, confidences are left as scored
+   */
+  async load(): Promise<CalibrationModel | null> {
+    try {
+      this.model = JSON.parse(await fs.readFile(this.modelFile, 'utf-8'));
+      logger.info('Confidence calibration loaded', { file: this.modelFile, examples: this.model!.examples });
+    } catch {
+      this.model = null;
+    }
+    return this.model;
+  }
+
+  getModel(): CalibrationModel | null {
+    return this.model;
+  }
+
+  /**
+   * Fit the model on validated examples and store it
+   */
+  async fit(examples: TrainingExample[]): Promise<CalibrationModel> {
+    const validated = examples.filter((e) => e.manual_validation);
+    const observations = await this.observe(validated);
+    const fields: CalibrationModel['fields'] = {};
+
+    for (const observation of observations) {
+      const counts = (fields[observation.field] ||= {});
+      for (const key of bucketKeys(observation.signals)) {
+        const bucket = (counts[key] ||= { correct: 0, total: 0 });
+        bucket.total++;
+        if (observation.correct) bucket.correct++;
+      }
+    }
+
+    this.model = {
+      fitted_at: new Date(),
+      examples: validated.length,
+      fields,
+      reliability: {
+        uncalibrated: reliabilityReport(
+          observations.map((o) => ({ field: o.field, predicted: o.uncalibrated, correct: o.correct }))
+        ),
+        // Each value is predicted without itself, so the report is not in-sample
+        calibrated: reliabilityReport(
+          observations.map((o) => ({
+            field: o.field,
+            predicted: estimate(fields[o.field], o.signals, o.correct),
+            correct: o.correct,
+          }))
+        ),
+      },
+    };
+
+    await fs.mkdir(path.dirname(this.modelFile), { recursive: true });
+    await fs.writeFile(this.modelFile, JSON.stringify(this.model, null, 2));
+
+    logger.info('Confidence calibration fitted', {
+      file: this.modelFile,
+      examples: this.model.examples,
+      ece_before: this.model.reliability.uncalibrated.expected_calibration_error,
+      ece_after: this.model.reliability.calibrated.expected_calibration_error,
+    });
+
+    return this.model;
+  }
+
+  /**
+   * Calibrated copy of an extraction. The overall confidence becomes the
+   * expected share of correct fields.
+   */
+  calibrate(result: ExtractionResult, sources: SignalSources = {}): ExtractionResult {
+    if (!this.model) return result;
+
+    const signals = ConfidenceCalibrator.signalsFor(result.tender, {
+      votes: result.votes?.agreement,
+      ...sources,
+    });
+    const perField: Record<string, number> = { ...result.confidence.per_field };
+
+    for (const field of TENDER_FIELDS) {
+      const counts = this.model.fields[field];
+      if (!counts) continue;
+      perField[field] = parseFloat(estimate(counts, signals[field]).toFixed(3));
+    }
+
+    const values = Object.values(perField);
+    const overall = values.length > 0 ? values.reduce((a, b) => a + b) / values.length : 0;
+
+    return {
+      ...result,
+      confidence: { overall: parseFloat(overall.toFixed(3)), per_field: perField },
+    };
+  }
+
+  /**
+   * Signals of every field of an extracted row
+   */
+  static signalsFor(tender: Partial<Tender>, sources: SignalSources = {}): Record<string, FieldSignals> {
+    const signals: Record<string, FieldSignals> = {};
+
+    for (const field of TENDER_FIELDS) {
+      const value = tender[field];
+      const others = (sources.others || []).map((other) => other[field]).filter((v) => v !== undefined);
+
+      signals[field] = {
+        format_valid: value !== undefined,
+        text_layer: compare(value, sources.textLayer ? [sources.textLayer[field]] : []),
+        consistency:
+          others.length === 0 && sources.votes?.[field] !== undefined && value !== undefined
+            ? sources.votes[field] === 1
+              ? 'agree'
+              : 'disagree'
+            : compare(value, others),
+      };
+    }
+
+    return signals;
+  }
+
+  /**
+   * Signals and correctness of every field of the validated examples. The
+   * text layer of each PDF is read once and aligned with its rows.
+   */
+  private async observe(examples: TrainingExample[]): Promise<Observation[]> {
+    const byPdf = new Map<string, TrainingExample[]>();
+    for (const example of examples) {
+      byPdf.set(example.pdf_path, [...(byPdf.get(example.pdf_path) || []), example]);
+    }
+
+    const observations: Observation[] = [];
+
+    for (const [pdfPath, pdfExamples] of byPdf) {
+      const extracted = pdfExamples.map((e) => e.gemini_extraction.tender);
+      const textRows = (await this.textLayer.extractFromPDF(pdfPath)).map((r) => r.tender);
+      const textMatch = new Map(
+        this.rowMatcher.align(extracted, textRows).matches.map((m) => [m.extracted_index, textRows[m.known_index]])
+      );
+
+      pdfExamples.forEach((example, index) => {
+        const tender = example.gemini_extraction.tender;
+        const truth = example.manual_validation!;
+        const signals = ConfidenceCalibrator.signalsFor(tender, {
+          textLayer: textMatch.get(index),
+          others: (example.candidate_extractions || []).map((c) => c.extraction.tender),
+          votes: example.gemini_extraction.votes?.agreement,
+        });
+        const uncalibrated = scoreTender(tender).confidence.per_field;
+
+        for (const field of TENDER_FIELDS) {
+          observations.push({
+            field,
+            signals: signals[field],
+            correct: sameValue(tender[field], truth[field]),
+            uncalibrated: uncalibrated[field] ?? 0,
+          });
+        }
+      });
+    }
+
+    return observations;
+  }
+}
+
+/**
+ * Bucket keys of a value's signals, coarsest first
+ */
+function bucketKeys(signals: FieldSignals): string[] {
+  const format = signals.format_valid ? 'valid' : 'invalid';
+  return [
+    '*',
+    format,
+    `${format}|text:${signals.text_layer}`,
+    `${format}|text:${signals.text_layer}|votes:${signals.consistency}`,
+  ];
+}
+
+/**
+ * Smoothed correctness rate of the finest bucket. `exclude` leaves out one
+ * observation with that outcome, for leave-one-out predictions.
+ */
+function estimate(counts: Record<string, CalibrationCounts>, signals: FieldSignals, exclude?: boolean): number {
+  let rate = 0.5;
+  let weight = 2; // Uniform prior for the field overall
+
+  for (const key of bucketKeys(signals)) {
+    const bucket = counts[key] || { correct: 0, total: 0 };
+    const correct = bucket.correct - (exclude === true ? 1 : 0);
+    const total = bucket.total - (exclude === undefined ? 0 : 1);
+
+    rate = (Math.max(correct, 0) + weight * rate) / (Math.max(total, 0) + weight);
+    weight = PRIOR_WEIGHT;
+  }
+
+  return rate;
+}
+
+function compare(value: unknown, others: unknown[]): SignalState {
+  const known = others.filter((other) => other !== undefined && other !== null);
+  if (value === undefined || known.length === 0) return 'unknown';
+  return known.every((other) => sameValue(value, other)) ? 'agree' : 'disagree';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) return false;
+  if (typeof a === 'string' && typeof b === 'string') {
+    return cleanText(a).toLowerCase() === cleanText(b).toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * Predicted versus observed accuracy in equal-width confidence bins
+ */
+function reliabilityReport(
+  predictions: { field: string; predicted: number; correct: boolean }[]
+): ReliabilityReport {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, i) => ({
+    from: i / RELIABILITY_BINS,
+    to: (i + 1) / RELIABILITY_BINS,
+    count: 0,
+    predicted: 0,
+    observed: 0,
+  }));
+  const perField: ReliabilityReport['per_field'] = {};
+
+  for (const { field, predicted, correct } of predictions) {
+    const bin = bins[Math.min(Math.floor(predicted * RELIABILITY_BINS), RELIABILITY_BINS - 1)];
+    bin.count++;
+    bin.predicted += predicted;
+    bin.observed += correct ? 1 : 0;
+
+    const fieldStats = (perField[field] ||= { count: 0, predicted: 0, observed: 0 });
+    fieldStats.count++;
+    fieldStats.predicted += predicted;
+    fieldStats.observed += correct ? 1 : 0;
+  }
+
+  let calibrationError = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.predicted = parseFloat((bin.predicted / bin.count).toFixed(3));
+    bin.observed = parseFloat((bin.observed / bin.count).toFixed(3));
+    calibrationError += (bin.count / predictions.length) * Math.abs(bin.predicted - bin.observed);
+  }
+
+  for (const stats of Object.values(perField)) {
+    stats.predicted = parseFloat((stats.predicted / stats.count).toFixed(3));
+    stats.observed = parseFloat((stats.observed / stats.count).toFixed(3));
+  }
+
+  return {
+    predictions: predictions.length,
+    expected_calibration_error: parseFloat(calibrationError.toFixed(3)),
+    bins: bins.filter((bin) => bin.count > 0),
+    per_field: perField,
+  };
+}
+
+export default ConfidenceCalibrator;
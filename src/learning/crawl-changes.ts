@@ -0,0 +1,70 @@
+/**
+ * CRAWL CHANGES
+ * This module handles:
+ * - Comparing a finished crawl with the previous complete crawl of its source
+ * - Storing the crawl snapshot and the change events not stored before
+ * - Alerting the subscriptions those events match
+ *
+ * npm run extract and the queue's persist stage both finish crawls here,
+ * so a crawl gives the same events and alerts however it ran.
+ */
+
+import logger from '../utils/logger.js';
+import ChangeDetector from './change-detector.js';
+import SubscriptionManager, { DispatchSummary } from '../notifications/subscriptions.js';
+import { StorageBackend } from '../storage/index.js';
+import { TenderEvent, TenderRecord } from '../types/index.js';
+
+export class CrawlChanges {
+  private storage: StorageBackend;
+  private changeDetector: ChangeDetector;
+  private subscriptions: SubscriptionManager;
+
+  constructor(
+    storage: StorageBackend,
+    subscriptions: SubscriptionManager = new SubscriptionManager(),
+    changeDetector: ChangeDetector = new ChangeDetector()
+  ) {
+    this.storage = storage;
+    this.subscriptions = subscriptions;
+    this.changeDetector = changeDetector;
+  }
+
+  /**
+   * Compare a crawl with the previous complete one and store the events.
+   * Returns only events not stored before, so a resumed or re-finished
+   * crawl does not report its earlier events again.
+   */
+  async detect(
+    crawlId: string,
+    records: TenderRecord[],
+    complete: boolean,
+    sourceId: string
+  ): Promise<TenderEvent[]> {
+    const previous = await this.storage.getLatestSnapshot(sourceId, crawlId);
+    const current = this.changeDetector.snapshot(crawlId, records, complete, sourceId);
+    const events = this.changeDetector.compare(previous, current);
+
+    await this.storage.saveSnapshot(current);
+    const fresh = await this.storage.saveEvents(events);
+
+    logger.info('Change detection complete', {
+      source: sourceId,
+      crawl_id: crawlId,
+      previous_crawl_id: previous?.crawl_id || null,
+      events: fresh.length,
+    });
+    return fresh;
+  }
+
+  /**
+   * Send events to the matching subscriptions; null without a subscriptions file
+   */
+  async alert(events: TenderEvent[]): Promise<DispatchSummary | null> {
+    if (!(await this.subscriptions.load())) return null;
+
+    return this.subscriptions.dispatch(events);
+  }
+}
+
+export default CrawlChanges;
@@ -0,0 +1,178 @@
+/**
+ * CRAWL MANIFEST
+ * This module handles:
+ * - Recording each page's URL, capture ID, content hash and status
+ * - Resuming an interrupted crawl from the first page not yet captured
+ * - Reusing the previous capture of pages whose content is unchanged
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import logger from '../utils/logger.js';
+
+export type PageStatus = 'pending' | 'captured' | 'unchanged' | 'failed';
+
+export interface ManifestPage {
+  page_number: number;
+  url: string;
+  status: PageStatus;
+  capture_id?: string;
+  pdf_path?: string;
+  screenshot_path?: string;
+  content_hash?: string;
+  captured_at?: Date;
+  error?: string;
+}
+
+export interface CrawlManifestData {
+  crawl_id: string;
+  pagination_pattern: string;
+  started_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+  pages: Record<string, ManifestPage>;
+}
+
+export class CrawlManifest {
+  private manifestFile: string;
+  private data: CrawlManifestData | null = null;
+
+  constructor(
+    manifestFile: string = process.env.CRAWL_MANIFEST_FILE || './storage/crawl-manifest.json'
+  ) {
+    this.manifestFile = manifestFile;
+  }
+
+  /**
+   * Resume the unfinished crawl for this pattern, or start a new one that
+   * keeps the previous content hashes for change detection
+   */
+  async begin(paginationPattern: string, fresh: boolean = false): Promise<CrawlManifestData> {
+    const previous = fresh ? null : await this.read();
+
+    if (previous && previous.pagination_pattern === paginationPattern && !previous.completed_at) {
+      this.data = previous;
+      logger.info('Resuming crawl', {
+        crawl_id: previous.crawl_id,
+        done: Object.values(previous.pages).filter((p) => this.isDone(p)).length,
+      });
+      return this.data;
+    }
+
+    const pages: Record<string, ManifestPage> = {};
+    if (previous && previous.pagination_pattern === paginationPattern) {
+      for (const [key, page] of Object.entries(previous.pages)) {
+        pages[key] = { ...page, status: 'pending', error: undefined };
+      }
+    }
+
+    this.data = {
+      crawl_id: randomUUID(),
+      pagination_pattern: paginationPattern,
+      started_at: new Date(),
+      updated_at: new Date(),
+      pages,
+    };
+    await this.save();
+
+    logger.info('Starting crawl', { crawl_id: this.data.crawl_id });
+    return this.data;
+  }
+
+  /**
+   * ID of the current crawl, shared by all runs that resume it
+   */
+  getCrawlId(): string {
+    return this.current().crawl_id;
+  }
+
+  /**
+   * Page entry from this or the previous crawl
+   */
+  getPage(pageNumber: number): ManifestPage | null {
+    return this.current().pages[pageNumber] || null;
+  }
+
+  /**
+   * True when the page was already captured in this crawl
+   */
+  isDone(page: ManifestPage | null): boolean {
+    return page !== null && (page.status === 'captured' || page.status === 'unchanged');
+  }
+
+  /**
+   * Record the outcome of a page and persist the manifest
+   */
+  async recordPage(page: ManifestPage): Promise<void> {
+    const data = this.current();
+    data.pages[page.page_number] = page;
+    data.updated_at = new Date();
+    await this.save();
+  }
+
+  /**
+   * Put captured pages back to pending, dropping their content hash, so
+   * the next run resumes this crawl and captures and extracts them again
+   */
+  async reopenPages(pageNumbers: number[]): Promise<void> {
+    const data = this.current();
+
+    for (const pageNumber of pageNumbers) {
+      const page = data.pages[pageNumber];
+      if (page) {
+        data.pages[pageNumber] = { ...page, status: 'pending', content_hash: undefined };
+      }
+    }
+
+    data.completed_at = undefined;
+    data.updated_at = new Date();
+    await this.save();
+  }
+
+  /**
+   * Mark the crawl finished so the next run starts a new one
+   */
+  async complete(): Promise<void> {
+    const data = this.current();
+    data.completed_at = new Date();
+    data.updated_at = new Date();
+    await this.save();
+    logger.info('Crawl complete', { crawl_id: data.crawl_id });
+  }
+
+  /**
+   * When the last crawl in the manifest completed, or null if it has not
+   */
+  async getLastCompleted(): Promise<Date | null> {
+    const data = this.data || (await this.read());
+    return data?.completed_at ? new Date(data.completed_at) : null;
+  }
+
+  private current(): CrawlManifestData {
+    if (!this.data) {
+      throw new Error('Crawl manifest not started. Call begin() first.');
+    }
+    return this.data;
+  }
+
+  private async read(): Promise<CrawlManifestData | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.manifestFile, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write via a temp file so a crash never leaves a truncated manifest
+   */
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(path.resolve(this.manifestFile)), { recursive: true });
+    const tempFile = `${this.manifestFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(this.data, null, 2));
+    await fs.rename(tempFile, this.manifestFile);
+  }
+}
+
+export default CrawlManifest;
@@ -0,0 +1,99 @@
+/**
+ * DOM TABLE EXTRACTION
+ * This module handles:
+ * - Mapping HTML table cells to Tender fields via their header labels
+ * - Scoring rows exactly like vision-model rows
+ * - Cross-checking other extractions against the DOM
+ */
+
+import { scoreTender } from '../utils/scoring.js';
+import { TENDER_FIELDS, mapColumns } from '../utils/field-mapping.js';
+import RowMatcher from './row-matcher.js';
+import { TableSnapshot } from './pdf-capture.js';
+import { ExtractionResult, Tender } from '../types/index.js';
+
+export interface CrossCheckReport {
+  rows_compared: number;
+  field_agreement: Record<string, number>; // 0-1 share of matched rows that agree
+  missed_rows: number; // DOM rows the other extraction did not produce
+  invented_rows: number; // Extracted rows with no DOM counterpart
+}
+
+export class DomTableExtractor {
+  private rowMatcher: RowMatcher;
+  private fieldMapping: Record<string, keyof Tender>;
+
+  constructor(fieldMapping: Record<string, keyof Tender> = {}) {
+    this.rowMatcher = new RowMatcher();
+    this.fieldMapping = fieldMapping;
+  }
+
+  /**
+   * Turn table cells into scored rows
+   */
+  extract(table: TableSnapshot): ExtractionResult[] {
+    const fields = mapColumns(table.headers, this.fieldMapping);
+
+    return table.rows
+      .filter((cells) => cells.some((cell) => cell.length > 0))
+      .map((cells) => {
+        const row: Record<string, unknown> = {};
+
+        cells.forEach((cell, index) => {
+          const field = fields[index];
+          if (!field || row[field] !== undefined) return;
+          row[field] = field === 'bil' ? parseInt(cell) : cell;
+        });
+
+        return scoreTender(row);
+      });
+  }
+
+  /**
+   * Compare extracted rows (e.g. from the vision model) against DOM rows
+   */
+  crossCheck(extracted: ExtractionResult[], domRows: ExtractionResult[]): CrossCheckReport {
+    const extractedTenders = extracted.map((r) => r.tender);
+    const domTenders = domRows.map((r) => r.tender);
+    const alignment = this.rowMatcher.align(extractedTenders, domTenders);
+
+    const agreement: Record<string, number> = {};
+
+    for (const field of TENDER_FIELDS) {
+      const agreeing = alignment.matches.filter(
+        (m) => extractedTenders[m.extracted_index][field] === domTenders[m.known_index][field]
+      ).length;
+      agreement[field] =
+        alignment.matches.length > 0
+          ? parseFloat((agreeing / alignment.matches.length).toFixed(3))
+          : 0;
+    }
+
+    return {
+      rows_compared: alignment.matches.length,
+      field_agreement: agreement,
+      missed_rows: alignment.missed.length,
+      invented_rows: alignment.invented.length + alignment.duplicates.length,
+    };
+  }
+
+  /**
+   * Pair each extracted row with its DOM row, for use as ground truth
+   */
+  pairWithDom(
+    extracted: ExtractionResult[],
+    domRows: ExtractionResult[]
+  ): { extraction: ExtractionResult; truth: Partial<Tender> }[] {
+    const alignment = this.rowMatcher.align(
+      extracted.map((r) => r.tender),
+      domRows.map((r) => r.tender)
+    );
+
+    return alignment.matches.map((m) => ({
+      extraction: extracted[m.extracted_index],
+      truth: domRows[m.known_index].tender,
+    }));
+  }
+}
+
+export default DomTableExtractor;
@@ -0,0 +1,267 @@
+/**
+ * HELD-OUT EVALUATION
+ * This module handles:
+ * - Running prompt and model versions against the frozen test set
+ * - Exact-match rate and per-field precision and recall, with 95% Wilson
+ *   intervals
+ * - The regression gate for prompt promotion
+ *
+ * Versions are compared on the same PDFs: a PDF counts only once every
+ * version in the run has answered it. Offline runs replay recorded
+ * responses strictly, so a version without recordings for a test PDF is
+ * reported as unanswered rather than scored on another prompt's answer.
+ *
+ * Precision is the share of a field's extracted values that match the
+ * validated row they align to (repeats of a validated row count as wrong);
+ * recall is the share of validated values extracted correctly. Rows
+ * matching no validated row are only counted as invented: the test set may
+ * hold a PDF's validated rows but not the ones still unreviewed, so they are
+ * not scored as wrong values.
+ */
+
+import logger from '../utils/logger.js';
+import GeminiExtractor from './gemini-extractor.js';
+import RowMatcher from './row-matcher.js';
+import { ReplayProvider } from './providers/index.js';
+import UsageTracker, { BudgetExceededError } from './usage-tracker.js';
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import {
+  EvaluationReport,
+  ExtractionResult,
+  GateResult,
+  PromptVersion,
+  Proportion,
+  RegressionCheck,
+  Tender,
+  TrainingExample,
+} from '../types/index.js';
+
+export interface EvaluationRun {
+  label: string;
+  prompt_version: number | null;
+  model: string | null;
+  extractor: GeminiExtractor;
+}
+
+/** Fields a promotion may not regress on */
+export const CRITICAL_FIELDS = (process.env.EVAL_CRITICAL_FIELDS || 'tarikh,daftar,kod_bidang,status')
+  .split(',')
+  .map((field) => field.trim())
+  .filter(Boolean);
+
+// z for a 95% interval
+const Z = 1.96;
+
+interface Counts {
+  rows: number;
+  exact: number;
+  missed: number;
+  invented: number;
+  predicted: Record<string, number>; // Values on rows aligned to, or repeating, a validated row
+  expected: Record<string, number>;
+  correct: Record<string, number>;
+}
+
+export class Evaluator {
+  private rowMatcher: RowMatcher;
+  private criticalFields: string[];
+  private maxRegression: number;
+
+  constructor(
+    criticalFields: string[] = CRITICAL_FIELDS,
+    maxRegression: number = parseFloat(process.env.EVAL_MAX_REGRESSION || '0'),
+    rowMatcher: RowMatcher = new RowMatcher()
+  ) {
+    this.criticalFields = criticalFields;
+    this.maxRegression = maxRegression;
+    this.rowMatcher = rowMatcher;
+  }
+
+  /**
+   * Extractor answering a prompt version from recordings only
+   */
+  static replayExtractor(
+    promptVersion: PromptVersion,
+    model: string | null = process.env.REPLAY_MODEL || null
+  ): GeminiExtractor {
+    const extractor = new GeminiExtractor(new ReplayProvider(undefined, undefined, true, model), null);
+    extractor.usePromptVersion(promptVersion);
+    return extractor;
+  }
+
+  /**
+   * Run every version on the test examples' PDFs and score the PDFs all of
+   * them answered
+   */
+  async evaluate(
+    runs: EvaluationRun[],
+    examples: TrainingExample[],
+    usageTracker: UsageTracker | null = null
+  ): Promise<EvaluationReport[]> {
+    const byPdf = new Map<string, Tender[]>();
+    for (const example of examples) {
+      if (!example.manual_validation) continue;
+      byPdf.set(example.pdf_path, [...(byPdf.get(example.pdf_path) || []), example.manual_validation]);
+    }
+
+    const counts = runs.map(() => emptyCounts());
+    const unanswered = runs.map(() => [] as string[]);
+    let scoredPdfs = 0;
+    let outOfBudget = false;
+
+    for (const [pdfPath, truth] of byPdf) {
+      const answers: (ExtractionResult[] | null)[] = [];
+
+      for (let i = 0; i < runs.length; i++) {
+        if (outOfBudget) {
+          answers.push(null);
+          continue;
+        }
+        try {
+          answers.push(await runs[i].extractor.extractFromPDF(pdfPath, usageTracker));
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            logger.warn('Model budget reached, remaining test PDFs are not evaluated', { error: error.message });
+            outOfBudget = true;
+          } else {
+            logger.warn('Test PDF not answered', { label: runs[i].label, path: pdfPath, error });
+          }
+          answers.push(null);
+        }
+      }
+
+      answers.forEach((answer, i) => {
+        if (!answer) unanswered[i].push(pdfPath);
+      });
+      if (answers.some((answer) => !answer)) continue;
+
+      scoredPdfs++;
+      answers.forEach((answer, i) => this.score(counts[i], answer!.map((r) => r.tender), truth));
+    }
+
+    return runs.map((run, i) => this.report(run, counts[i], scoredPdfs, unanswered[i]));
+  }
+
+  /**
+   * Pass when the candidate answered every test PDF and kept the precision
+   * and recall of every critical field within EVAL_MAX_REGRESSION of the
+   * baseline
+   */
+  gate(baseline: EvaluationReport, candidate: EvaluationReport): GateResult {
+    const reasons: string[] = [];
+    const checks: RegressionCheck[] = [];
+
+    if (candidate.pdfs === 0) {
+      reasons.push('No test PDF was answered by both versions');
+    }
+    if (candidate.unanswered_pdfs.length > 0) {
+      reasons.push(`${candidate.label} has no answer for ${candidate.unanswered_pdfs.length} test PDFs`);
+    }
+
+    for (const field of this.criticalFields) {
+      for (const metric of ['precision', 'recall'] as const) {
+        const before = baseline.per_field[field]?.[metric].value ?? 0;
+        const after = candidate.per_field[field]?.[metric].value ?? 0;
+        const regressed = after < before - this.maxRegression - 1e-9;
+
+        checks.push({ field, metric, baseline: before, candidate: after, regressed });
+        if (regressed) {
+          reasons.push(
+            `${field} ${metric} regressed from ${(before * 100).toFixed(1)}% to ${(after * 100).toFixed(1)}%`
+          );
+        }
+      }
+    }
+
+    return { passed: reasons.length === 0, reasons, checks };
+  }
+
+  private score(counts: Counts, extracted: Partial<Tender>[], truth: Tender[]): void {
+    const alignment = this.rowMatcher.align(extracted, truth);
+
+    counts.rows += truth.length;
+    counts.missed += alignment.missed.length;
+    counts.invented += alignment.invented.length;
+
+    for (const field of TENDER_FIELDS) {
+      counts.expected[field] += truth.filter((row) => normalize(row[field]) !== '').length;
+    }
+
+    for (const match of alignment.matches) {
+      const row = extracted[match.extracted_index];
+      const known = truth[match.known_index];
+      let exact = true;
+
+      for (const field of TENDER_FIELDS) {
+        const value = normalize(row[field]);
+        if (value !== '') counts.predicted[field]++;
+        if (value !== normalize(known[field])) exact = false;
+        else if (value !== '') counts.correct[field]++;
+      }
+      if (exact) counts.exact++;
+    }
+
+    // A repeat of a validated row is a wrong answer, not an unreviewed row
+    for (const index of alignment.duplicates) {
+      for (const field of TENDER_FIELDS) {
+        if (normalize(extracted[index][field]) !== '') counts.predicted[field]++;
+      }
+    }
+  }
+
+  private report(run: EvaluationRun, counts: Counts, pdfs: number, unanswered: string[]): EvaluationReport {
+    return {
+      label: run.label,
+      prompt_version: run.prompt_version,
+      model: run.model,
+      evaluated_at: new Date(),
+      pdfs,
+      rows: counts.rows,
+      unanswered_pdfs: unanswered,
+      exact_match: wilson(counts.exact, counts.rows),
+      per_field: Object.fromEntries(
+        TENDER_FIELDS.map((field) => [
+          field,
+          {
+            precision: wilson(counts.correct[field], counts.predicted[field]),
+            recall: wilson(counts.correct[field], counts.expected[field]),
+          },
+        ])
+      ),
+      missed_rows: counts.missed,
+      invented_rows: counts.invented,
+    };
+  }
+}
+
+/**
+ * Proportion with its 95% Wilson score interval
+ */
+export function wilson(successes: number, n: number): Proportion {
+  if (n === 0) return { value: 0, low: 0, high: 0, n: 0 };
+
+  const p = successes / n;
+  const denominator = 1 + (Z * Z) / n;
+  const centre = (p + (Z * Z) / (2 * n)) / denominator;
+  const margin = (Z * Math.sqrt((p * (1 - p)) / n + (Z * Z) / (4 * n * n))) / denominator;
+
+  return {
+    value: parseFloat(p.toFixed(4)),
+    low: parseFloat(Math.max(0, centre - margin).toFixed(4)),
+    high: parseFloat(Math.min(1, centre + margin).toFixed(4)),
+    n,
+  };
+}
+
+function emptyCounts(): Counts {
+  const zeros = () => Object.fromEntries(TENDER_FIELDS.map((field) => [field, 0]));
+  return { rows: 0, exact: 0, missed: 0, invented: 0, predicted: zeros(), expected: zeros(), correct: zeros() };
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
+export default Evaluator;
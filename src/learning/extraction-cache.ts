@@ -0,0 +1,218 @@
+/**
+ * EXTRACTION CACHE
+ * This module handles:
+ * - Storing parsed ExtractionResult[] keyed on PDF hash, prompt version,
+ *   provider and model
+ * - Returning them instead of calling the model again for the same PDF
+ * - Explicit invalidation by PDF, prompt version or model
+ * - A hit/miss log for hit-rate reports
+ *
+ * Layout under EXTRACTION_CACHE_DIR:
+ *   <pdf hash>/<provider>__<model>__<prompt key>.json
+ *   lookups.jsonl            (append-only)
+ *
+ * Each source numbers its own prompt versions, so the prompt key is the
+ * version plus a hash of the prompt text. The model is the one answering,
+ * e.g. the recorded model a replay provider is limited to, so providers and
+ * replayed models never share entries. Entries cached before the provider
+ * was part of the key are never hit, but are still listed and invalidated.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { sha256 } from '../utils/hash.js';
+import { ExtractionResult } from '../types/index.js';
+
+export interface CacheKey {
+  pdf_hash: string;
+  prompt_version: number | null;
+  prompt_hash: string;
+  provider?: string; // Missing on entries cached before providers were told apart
+  model: string;
+}
+
+export interface CacheEntry extends CacheKey {
+  pdf_path: string;
+  results: ExtractionResult[];
+  cost_usd: number; // What the cached call cost, i.e. what each hit saves
+  created_at: Date;
+}
+
+export interface CacheLookup {
+  hit: boolean;
+  pdf_hash: string;
+  prompt_version: number | null;
+  provider?: string;
+  model: string;
+  run_id?: string;
+  saved_usd: number;
+  looked_up_at: Date;
+}
+
+export interface CacheInvalidation {
+  pdfPath?: string;
+  promptVersion?: number;
+  model?: string;
+}
+
+export class ExtractionCache {
+  private cacheDir: string;
+  private lookupsFile: string;
+
+  constructor(cacheDir: string = process.env.EXTRACTION_CACHE_DIR || './storage/extraction-cache') {
+    this.cacheDir = cacheDir;
+    this.lookupsFile = path.join(cacheDir, 'lookups.jsonl');
+  }
+
+  /**
+   * Cache key of a PDF extracted with a prompt by a provider's model
+   */
+  static keyFor(
+    pdfData: Buffer,
+    prompt: string,
+    promptVersion: number | null,
+    provider: string,
+    model: string
+  ): CacheKey {
+    return {
+      pdf_hash: sha256(pdfData),
+      prompt_version: promptVersion,
+      prompt_hash: sha256(prompt),
+      provider,
+      model,
+    };
+  }
+
+  /**
+   * Cached results for a key, or null on a miss. Every lookup is logged.
+   */
+  async get(key: CacheKey, runId?: string): Promise<ExtractionResult[] | null> {
+    const entry = await this.readEntry(this.entryFile(key));
+
+    await this.logLookup({
+      hit: entry !== null,
+      pdf_hash: key.pdf_hash,
+      prompt_version: key.prompt_version,
+      provider: key.provider,
+      model: key.model,
+      run_id: runId,
+      saved_usd: entry?.cost_usd || 0,
+      looked_up_at: new Date(),
+    });
+
+    return entry ? entry.results : null;
+  }
+
+  /**
+   * Store the results of a model call
+   */
+  async set(key: CacheKey, pdfPath: string, results: ExtractionResult[], costUsd: number): Promise<void> {
+    const entry: CacheEntry = {
+      ...key,
+      pdf_path: pdfPath,
+      results,
+      cost_usd: costUsd,
+      created_at: new Date(),
+    };
+
+    try {
+      const file = this.entryFile(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry, null, 2));
+    } catch (error) {
+      logger.warn('Failed to cache extraction', { pdf: pdfPath, error });
+    }
+  }
+
+  /**
+   * All cached entries
+   */
+  async list(): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+
+    for (const pdfDir of await this.readDir(this.cacheDir)) {
+      const dir = path.join(this.cacheDir, pdfDir);
+      for (const file of await this.readDir(dir)) {
+        if (!file.endsWith('.json')) continue;
+        const entry = await this.readEntry(path.join(dir, file));
+        if (entry) entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Remove the entries matching every given condition (all entries when
+   * none is given); returns how many were removed
+   */
+  async invalidate(filter: CacheInvalidation = {}): Promise<number> {
+    const pdfHash = filter.pdfPath ? sha256(await fs.readFile(filter.pdfPath)) : undefined;
+    let removed = 0;
+
+    for (const entry of await this.list()) {
+      if (pdfHash && entry.pdf_hash !== pdfHash) continue;
+      if (filter.promptVersion !== undefined && entry.prompt_version !== filter.promptVersion) continue;
+      if (filter.model && entry.model !== filter.model) continue;
+
+      await fs.rm(this.entryFile(entry), { force: true });
+      removed++;
+    }
+
+    logger.info('Extraction cache invalidated', { ...filter, removed });
+    return removed;
+  }
+
+  /**
+   * Logged lookups, optionally since a date
+   */
+  async getLookups(since?: Date): Promise<CacheLookup[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.lookupsFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as CacheLookup)
+      .filter((lookup) => !since || new Date(lookup.looked_up_at) >= since);
+  }
+
+  private entryFile(key: CacheKey): string {
+    const promptKey = `${key.prompt_version !== null ? `v${key.prompt_version}` : 'unversioned'}-${key.prompt_hash.slice(0, 16)}`;
+    const safe = (name: string) => name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const provider = key.provider ? `${safe(key.provider)}__` : '';
+    return path.join(this.cacheDir, key.pdf_hash, `${provider}${safe(key.model)}__${promptKey}.json`);
+  }
+
+  private async readEntry(file: string): Promise<CacheEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private async logLookup(lookup: CacheLookup): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.appendFile(this.lookupsFile, JSON.stringify(lookup) + '\n');
+    } catch (error) {
+      logger.warn('Failed to log cache lookup', { error });
+    }
+  }
+}
+
+export default ExtractionCache;
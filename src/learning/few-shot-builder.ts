@@ -0,0 +1,288 @@
+/**
+ * FEW-SHOT PROMPT CONSTRUCTION
+ * This module handles:
+ * - Picking validated examples to show the model before it reads a page
+ * - Cropping each example's row out of its page screenshot
+ * - Keeping the examples within a token budget
+ *
+ * Examples are picked by maximal marginal relevance: each pick is the
+ * example most similar to the page being extracted (kod_bidang prefixes,
+ * value formats and words its text layer shares) that is least like the
+ * examples already picked. Rows the model once got wrong count a little
+ * more, because they show the corrections it needs. At most one example
+ * is taken per PDF, and never one from the page itself.
+ *
+ * Scanned pages without a text layer get the most diverse examples.
+ */
+
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import logger from '../utils/logger.js';
+import TextLayerExtractor from './text-layer-extractor.js';
+import { RowBox, rowBoxesPath } from './pdf-capture.js';
+import { ProviderImage } from './providers/index.js';
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { TOKENS_PER_IMAGE, estimateTokens } from '../utils/pricing.js';
+import { Tender, TrainingExample } from '../types/index.js';
+
+export interface FewShotPrompt {
+  text: string; // Appended to the extraction prompt; empty without examples
+  images: ProviderImage[]; // Row crops, in the order the text refers to them
+  example_ids: string[];
+  estimated_tokens: number;
+}
+
+/** Examples per prompt; 0 turns few-shot prompting off */
+export const FEW_SHOT_EXAMPLES = parseInt(process.env.FEW_SHOT_EXAMPLES || '0');
+
+// Weight of similarity against diversity when picking the next example
+const RELEVANCE_WEIGHT = 0.7;
+// Bonus for rows whose extraction the reviewer had to correct
+const CORRECTED_BONUS = 0.1;
+const KOD_PREFIX_LENGTH = 2;
+const MIN_WORD_LENGTH = 4;
+// Pixels kept around a row crop, and the widest crop sent
+const CROP_PADDING = 4;
+const MAX_CROP_WIDTH = 1200;
+
+interface Candidate {
+  example: TrainingExample;
+  truth: Tender;
+  features: Set<string>;
+  corrected: boolean;
+  json: string;
+}
+
+export class FewShotPromptBuilder {
+  private candidates: Candidate[];
+  private maxExamples: number;
+  private tokenBudget: number;
+  private textLayer: TextLayerExtractor;
+  private rowBoxes = new Map<string, Promise<RowBox[]>>();
+
+  constructor(
+    pool: TrainingExample[],
+    maxExamples: number = FEW_SHOT_EXAMPLES,
+    tokenBudget: number = parseInt(process.env.FEW_SHOT_TOKEN_BUDGET || '2000'),
+    textLayer: TextLayerExtractor = new TextLayerExtractor()
+  ) {
+    this.maxExamples = maxExamples;
+    this.tokenBudget = tokenBudget;
+    this.textLayer = textLayer;
+    this.candidates = pool
+      .filter((e) => e.manual_validation && !e.rejected_at)
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((example) => {
+        const truth = example.manual_validation!;
+        return {
+          example,
+          truth,
+          features: featuresOf(truth),
+          corrected: TENDER_FIELDS.some(
+            (field) => normalize(example.gemini_extraction.tender[field]) !== normalize(truth[field])
+          ),
+          json: JSON.stringify(Object.fromEntries(TENDER_FIELDS.map((field) => [field, truth[field] ?? null]))),
+        };
+      });
+  }
+
+  get poolSize(): number {
+    return this.candidates.length;
+  }
+
+  /**
+   * Examples for the page at pdfPath, as prompt text plus row crops
+   */
+  async build(pdfPath: string): Promise<FewShotPrompt> {
+    const empty: FewShotPrompt = { text: '', images: [], example_ids: [], estimated_tokens: 0 };
+    if (this.maxExamples <= 0 || this.candidates.length === 0) return empty;
+
+    const pageFeatures = new Set<string>();
+    for (const row of await this.textLayer.extractFromPDF(pdfPath)) {
+      for (const feature of featuresOf(row.tender)) pageFeatures.add(feature);
+    }
+
+    const remaining = this.candidates.filter((c) => c.example.pdf_path !== pdfPath);
+    const relevance = new Map(
+      remaining.map((c) => [c, similarity(c.features, pageFeatures) + (c.corrected ? CORRECTED_BONUS : 0)])
+    );
+
+    const picked: { candidate: Candidate; crop: Buffer | null }[] = [];
+    const usedPdfs = new Set<string>();
+    let tokens = estimateTokens(this.render([]));
+
+    while (picked.length < this.maxExamples) {
+      let best: Candidate | null = null;
+      let bestScore = -Infinity;
+
+      for (const candidate of remaining) {
+        if (usedPdfs.has(candidate.example.pdf_path)) continue;
+
+        const redundancy = Math.max(0, ...picked.map((p) => jaccard(p.candidate.features, candidate.features)));
+        const score = RELEVANCE_WEIGHT * relevance.get(candidate)! - (1 - RELEVANCE_WEIGHT) * redundancy;
+        if (score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (!best) break;
+
+      remaining.splice(remaining.indexOf(best), 1);
+      const crop = await this.crop(best);
+      const cost = estimateTokens(best.json) + (crop ? TOKENS_PER_IMAGE : 0) + 10;
+      if (tokens + cost > this.tokenBudget) continue;
+
+      picked.push({ candidate: best, crop });
+      usedPdfs.add(best.example.pdf_path);
+      tokens += cost;
+    }
+
+    if (picked.length === 0) return empty;
+
+    logger.info('Few-shot examples selected', {
+      path: pdfPath,
+      examples: picked.map((p) => p.candidate.example.id),
+      images: picked.filter((p) => p.crop).length,
+      estimated_tokens: tokens,
+    });
+
+    return {
+      text: this.render(picked),
+      images: picked.filter((p) => p.crop).map((p) => ({ mimeType: 'image/png', data: p.crop! })),
+      example_ids: picked.map((p) => p.candidate.example.id),
+      estimated_tokens: tokens,
+    };
+  }
+
+  private render(picked: { candidate: Candidate; crop: Buffer | null }[]): string {
+    let image = 0;
+    const lines = picked.map(({ candidate, crop }, i) => {
+      const label = crop ? `Example ${i + 1} (image ${++image}):` : `Example ${i + 1}:`;
+      return `${label}\n${candidate.json}`;
+    });
+
+    return `
+
+VALIDATED EXAMPLES:
+These rows come from earlier pages of the same kind and were checked by a reviewer.
+Each image shows one table row; the JSON under its example is the correct extraction.
+Follow the same conventions, but extract only the rows of the PDF.
+
+${lines.join('\n\n')}
+`;
+  }
+
+  /**
+   * The example's row cut out of its page screenshot, when the capture
+   * recorded where the row is
+   */
+  private async crop(candidate: Candidate): Promise<Buffer | null> {
+    const screenshot = candidate.example.screenshot_path;
+    if (!screenshot) return null;
+
+    const box = findRowBox(await this.boxesFor(screenshot), candidate.truth);
+    if (!box) return null;
+
+    try {
+      const image = sharp(screenshot);
+      const { width = 0, height = 0 } = await image.metadata();
+      const left = Math.max(0, box.x - CROP_PADDING);
+      const top = Math.max(0, box.y - CROP_PADDING);
+      const cropWidth = Math.min(width - left, box.width + 2 * CROP_PADDING);
+      const cropHeight = Math.min(height - top, box.height + 2 * CROP_PADDING);
+      if (cropWidth <= 0 || cropHeight <= 0) return null;
+
+      return await image
+        .extract({ left, top, width: cropWidth, height: cropHeight })
+        .resize({ width: MAX_CROP_WIDTH, withoutEnlargement: true })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      logger.warn('Could not crop example row', { id: candidate.example.id, error });
+      return null;
+    }
+  }
+
+  private boxesFor(screenshotPath: string): Promise<RowBox[]> {
+    let boxes = this.rowBoxes.get(screenshotPath);
+    if (!boxes) {
+      boxes = fs
+        .readFile(rowBoxesPath(screenshotPath), 'utf-8')
+        .then((data) => JSON.parse(data) as RowBox[])
+        .catch(() => []);
+      this.rowBoxes.set(screenshotPath, boxes);
+    }
+    return boxes;
+  }
+}
+
+/**
+ * The recorded row holding the tender: by DAFTAR, else by BIL in the first cell
+ */
+function findRowBox(boxes: RowBox[], tender: Tender): RowBox | null {
+  const daftar = tender.daftar ? compact(tender.daftar) : '';
+  return (
+    (daftar && boxes.find((box) => box.cells.some((cell) => compact(cell) === daftar))) ||
+    boxes.find((box) => box.cells[0]?.trim() === String(tender.bil)) ||
+    null
+  );
+}
+
+/**
+ * What a row looks like: kod_bidang prefix, value formats, status and the
+ * words of its free-text fields
+ */
+function featuresOf(tender: Partial<Tender>): Set<string> {
+  const features = new Set<string>();
+
+  if (tender.kod_bidang) features.add(`kod:${tender.kod_bidang.slice(0, KOD_PREFIX_LENGTH)}`);
+  if (tender.status) features.add(`status:${normalize(tender.status)}`);
+  for (const field of ['daftar', 'kod_bidang'] as const) {
+    if (tender[field]) features.add(`${field}:${shapeOf(tender[field]!)}`);
+  }
+  for (const field of ['bidang', 'keterangan'] as const) {
+    for (const word of normalize(tender[field]).split(/[^a-z]+/)) {
+      if (word.length >= MIN_WORD_LENGTH) features.add(`word:${word}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Share of the example's features found on the page
+ */
+function similarity(example: Set<string>, page: Set<string>): number {
+  if (example.size === 0) return 0;
+  let shared = 0;
+  for (const feature of example) if (page.has(feature)) shared++;
+  return shared / example.size;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const feature of a) if (b.has(feature)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+/**
+ * A value's format: digit runs become 9, letter runs become A
+ */
+function shapeOf(value: string): string {
+  return cleanText(value)
+    .replace(/[0-9]+/g, '9')
+    .replace(/[A-Za-z]+/g, 'A');
+}
+
+function compact(value: string): string {
+  return cleanText(value).toUpperCase().replace(/\s+/g, '');
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
+export default FewShotPromptBuilder;
@@ -1,43 +1,81 @@
 /**
  * PHASE 3: GEMINI VISION EXTRACTION
  * This module handles:
- * - PDF to Gemini Vision API
+ * - PDF to the configured extraction provider (Gemini Vision by default)
  * - Data extraction with confidence scoring
  * - Iterative prompt refinement
+ * - Usage and cost of every call (UsageTracker)
+ * - Reusing results for identical PDFs, prompts and models (ExtractionCache)
+ * - Lenient response parsing with correction retries (ParseFailureLog)
+ * - Voting across several passes for high-value pages (PassVoter)
+ * - Few-shot prompts with validated examples (FewShotPromptBuilder)
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs/promises';
 import logger from '../utils/logger.js';
-import { ExtractionResult, Tender } from '../types/index.js';
-import {
-  validateTender,
-  normalizeDate,
-  cleanText,
-  isValidKodBidang,
-  isValidStatus,
-  calculateFieldConfidence,
-} from '../utils/validation.js';
+import PromptRegistry from './prompt-registry.js';
+import UsageTracker, { BudgetExceededError } from './usage-tracker.js';
+import ExtractionCache from './extraction-cache.js';
+import ParseFailureLog from './parse-failure-log.js';
+import PassVoter from './pass-voter.js';
+import FewShotPromptBuilder from './few-shot-builder.js';
+import { ExtractionProvider, ProviderImage, createExtractionProvider } from './providers/index.js';
+import { ExtractionResult, PromptVersion, Tender } from '../types/index.js';
+import { calculateFieldConfidence, tenderSchema } from '../utils/validation.js';
+import { scoreTender } from '../utils/scoring.js';
+import { estimateCost, estimatePromptTokens, estimateTokens } from '../utils/pricing.js';
+import { parseModelResponse } from '../utils/response-parser.js';
+
+// Problems quoted back to the model in a correction prompt, at most
+const MAX_REPORTED_PROBLEMS = 20;
+const DEFAULT_PARSE_RETRIES = 1;
+
+export interface VotingOptions {
+  passes: number;
+  prompts?: PromptVersion[]; // Cycled through across passes; the active prompt when empty
+  temperatures?: number[]; // Cycled through across passes; the provider default when empty
+}
+
+/**
+ * Paces model calls, e.g. across the workers of a queued crawl
+ */
+export interface CallRateLimiter {
+  acquire(): Promise<void>; // Resolves once one more call may be made
+}
 
 export class GeminiExtractor {
-  private client: GoogleGenerativeAI;
-  private model: any;
+  private provider: ExtractionProvider;
   private extractionPrompt: string;
+  private promptVersion: number | null = null;
   private iteration: number = 0;
-
-  constructor(apiKey: string = process.env.GEMINI_API_KEY || '') {
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not provided');
-    }
-    this.client = new GoogleGenerativeAI(apiKey);
-    this.model = this.client.getGenerativeModel({ model: 'gemini-1.5-flash' });
+  private usageTracker: UsageTracker | null = null;
+  private cache: ExtractionCache | null;
+  private parseFailures: ParseFailureLog;
+  private parseRetries: number;
+  private voter: PassVoter;
+  private fewShot: FewShotPromptBuilder | null = null;
+  private rateLimiter: CallRateLimiter | null = null;
+
+  constructor(
+    provider: ExtractionProvider = createExtractionProvider(),
+    cache: ExtractionCache | null = process.env.EXTRACTION_CACHE === 'false' ? null : new ExtractionCache()
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.parseFailures = new ParseFailureLog();
+    this.parseRetries = parseRetriesSetting(process.env.EXTRACTION_PARSE_RETRIES);
+    this.voter = new PassVoter();
     this.extractionPrompt = this.getDefaultPrompt();
+    logger.info('Extraction provider selected', {
+      provider: provider.name,
+      model: provider.model,
+    });
   }
 
   /**
    * Default extraction prompt
    */
-  private getDefaultPrompt(): string {
+  getDefaultPrompt(): string {
     return `Extract tender information from this Malaysian government website screenshot/PDF.
 
 REQUIRED FIELDS (extract exactly as shown):
@@ -80,48 +118,124 @@ If extraction fails or data is unclear, return: []
   /**
    * Update prompt based on learning
    */
-  updatePrompt(newPrompt: string): void {
+  updatePrompt(newPrompt: string, version: number | null = null): void {
     this.extractionPrompt = newPrompt;
+    this.promptVersion = version;
     this.iteration++;
-    logger.info('Extraction prompt updated', { iteration: this.iteration });
+    logger.info('Extraction prompt updated', { iteration: this.iteration, version });
+  }
+
+  /**
+   * Use a registered prompt version
+   */
+  usePromptVersion(promptVersion: PromptVersion): void {
+    this.updatePrompt(promptVersion.prompt, promptVersion.version);
+  }
+
+  /**
+   * Show the model validated examples before each page (null: zero-shot)
+   */
+  setFewShot(builder: FewShotPromptBuilder | null): void {
+    this.fewShot = builder;
+    logger.info('Few-shot prompting', { enabled: builder !== null, pool: builder?.poolSize ?? 0 });
+  }
+
+  /**
+   * Load the active prompt from the registry, seeding it on first use with
+   * the source's own prompt or the default prompt
+   */
+  async loadActivePrompt(
+    registry: PromptRegistry = new PromptRegistry(),
+    seedPrompt: string = this.getDefaultPrompt()
+  ): Promise<PromptVersion> {
+    let active = await registry.getActive();
+
+    if (!active) {
+      const seeded = await registry.register(seedPrompt);
+      active = await registry.promote(seeded.version);
+    }
+
+    this.usePromptVersion(active);
+    logger.info('Active extraction prompt loaded', { version: active.version });
+    return active;
+  }
+
+  /**
+   * Registry version of the current prompt, if it came from the registry
+   */
+  getPromptVersion(): number | null {
+    return this.promptVersion;
+  }
+
+  /**
+   * Record calls on this tracker by default
+   */
+  setUsageTracker(usageTracker: UsageTracker | null): void {
+    this.usageTracker = usageTracker;
   }
 
   /**
-   * Extract data from PDF
+   * Wait for this limiter before every model call, correction retries and
+   * voting passes included
    */
-  async extractFromPDF(pdfPath: string): Promise<ExtractionResult[]> {
+  setRateLimiter(rateLimiter: CallRateLimiter | null): void {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Extract data from PDF. A PDF already extracted with the same prompt and
+   * model is answered from the cache without a model call. With few-shot
+   * prompting the examples are part of the prompt, and so of the cache key. Throws
+   * BudgetExceededError instead of calling the model when the call would
+   * take the run over its budget.
+   */
+  async extractFromPDF(
+    pdfPath: string,
+    usageTracker: UsageTracker | null = this.usageTracker
+  ): Promise<ExtractionResult[]> {
     try {
       logger.info('Extracting data from PDF', { path: pdfPath });
 
       // Read PDF file
       const pdfBuffer = await fs.readFile(pdfPath);
-      const base64Pdf = pdfBuffer.toString('base64');
-
-      // Call Gemini Vision API
-      const response = await this.model.generateContent({
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              { text: this.extractionPrompt },
-              {
-                inlineData: {
-                  mimeType: 'application/pdf',
-                  data: base64Pdf,
-                },
-              },
-            ],
-          },
-        ],
-      });
+      const { prompt, images } = await this.withExamples(pdfPath, this.extractionPrompt);
+      const promptVersion = this.promptVersion;
+
+      const cacheKey = ExtractionCache.keyFor(
+        pdfBuffer,
+        prompt,
+        promptVersion,
+        this.provider.name,
+        this.provider.model
+      );
+      const cached = await this.cache?.get(cacheKey, usageTracker?.getContext().run_id);
+      if (cached) {
+        logger.info('Extraction cache hit', {
+          path: pdfPath,
+          model: this.provider.model,
+          prompt_version: promptVersion,
+          records: cached.length,
+        });
+        return cached;
+      }
 
-      const responseText = response.response.text();
-      logger.info('Gemini response received', {
-        length: responseText.length,
-      });
+      const extraction = await this.extractWithRetries(
+        pdfPath,
+        pdfBuffer,
+        prompt,
+        promptVersion,
+        usageTracker,
+        undefined,
+        images
+      );
+
+      // Only clean answers are cached: empty results may be a transient
+      // model failure, and unparseable ones deserve another call next time
+      if (extraction.parsed && extraction.results.length > 0) {
+        await this.cache?.set(cacheKey, pdfPath, extraction.results, extraction.costUsd);
+      }
 
-      // Parse JSON response
-      return this.parseGeminiResponse(responseText);
+      return extraction.results;
     } catch (error) {
       logger.error('PDF extraction failed', { error });
       throw error;
@@ -129,125 +243,272 @@ If extraction fails or data is unclear, return: []
   }
 
   /**
-   * Parse and validate Gemini response
+   * Extract a PDF in several passes, optionally cycling through prompt
+   * versions and temperatures, and vote on every field (see PassVoter).
+   * Passes always call the model: identical cached answers would make the
+   * vote meaningless. When the budget runs out after the first pass, the
+   * passes made so far are voted on.
    */
-  private parseGeminiResponse(responseText: string): ExtractionResult[] {
+  async extractWithVoting(
+    pdfPath: string,
+    voting: VotingOptions,
+    usageTracker: UsageTracker | null = this.usageTracker
+  ): Promise<ExtractionResult[]> {
     try {
-      // Extract JSON from response (handle cases where Gemini returns text before/after JSON)
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        logger.warn('No JSON found in response', { response: responseText.substring(0, 200) });
-        return [];
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
+      logger.info('Extracting data from PDF with voting', { path: pdfPath, passes: voting.passes });
 
-      if (!Array.isArray(parsed)) {
-        logger.warn('Response is not an array');
-        return [];
+      const pdfBuffer = await fs.readFile(pdfPath);
+      const shots = await this.fewShot?.build(pdfPath);
+      const passes: ExtractionResult[][] = [];
+
+      for (let pass = 0; pass < voting.passes; pass++) {
+        const promptVersion = voting.prompts?.length ? voting.prompts[pass % voting.prompts.length] : null;
+        const temperature = voting.temperatures?.length
+          ? voting.temperatures[pass % voting.temperatures.length]
+          : undefined;
+
+        try {
+          const extraction = await this.extractWithRetries(
+            pdfPath,
+            pdfBuffer,
+            (promptVersion ? promptVersion.prompt : this.extractionPrompt) + (shots?.text || ''),
+            promptVersion ? promptVersion.version : this.promptVersion,
+            usageTracker,
+            temperature,
+            shots?.images
+          );
+          passes.push(extraction.results);
+        } catch (error) {
+          if (passes.length > 0 && error instanceof BudgetExceededError) {
+            logger.warn('No budget left for more voting passes', { path: pdfPath, passes: passes.length });
+            break;
+          }
+          throw error;
+        }
       }
 
-      return parsed.map((item) => this.validateAndScoreTender(item));
+      const voted = this.voter.vote(passes);
+      logger.info('Extraction passes voted', {
+        path: pdfPath,
+        passes: passes.length,
+        rows: voted.length,
+        disputed_rows: voted.filter((r) => PassVoter.isDisputed(r)).length,
+      });
+
+      return voted;
     } catch (error) {
-      logger.error('JSON parsing failed', { error });
-      return [];
+      logger.error('PDF extraction failed', { error });
+      throw error;
     }
   }
 
   /**
-   * Validate and score individual tender
+   * Call the model and parse its answer. An answer that cannot be parsed
+   * into valid rows is kept in the parse failure log and the model is asked
+   * again with the problems found, up to EXTRACTION_PARSE_RETRIES times.
    */
-  private validateAndScoreTender(data: any): ExtractionResult {
-    const extraction: Partial<Tender> = {};
-    const perFieldConfidence: Record<string, number> = {};
-    const warnings: string[] = [];
-    const errors: string[] = [];
-
-    // Validate BIL
-    if (typeof data.bil === 'number' && data.bil > 0) {
-      extraction.bil = data.bil;
-      perFieldConfidence.bil = 1;
-    } else {
-      perFieldConfidence.bil = 0;
-      errors.push('Invalid BIL');
-    }
+  private async extractWithRetries(
+    pdfPath: string,
+    pdfBuffer: Buffer,
+    prompt: string,
+    promptVersion: number | null,
+    usageTracker: UsageTracker | null,
+    temperature?: number,
+    images: ProviderImage[] = []
+  ): Promise<{ results: ExtractionResult[]; parsed: boolean; costUsd: number }> {
+    let best: ExtractionResult[] = [];
+    let totalCostUsd = 0;
+    let attemptPrompt = prompt;
+
+    for (let attempt = 1; attempt <= this.parseRetries + 1; attempt++) {
+      let response;
+      try {
+        response = await this.callModel(
+          attemptPrompt,
+          pdfPath,
+          pdfBuffer,
+          promptVersion,
+          usageTracker,
+          temperature,
+          images
+        );
+      } catch (error) {
+        // Out of budget for a correction: keep what the first answer gave
+        if (attempt > 1 && error instanceof BudgetExceededError) {
+          logger.warn('No budget left for a correction retry', { path: pdfPath, attempt });
+          break;
+        }
+        throw error;
+      }
+      totalCostUsd += response.costUsd;
 
-    // Validate TARIKH
-    const normalizedDate = normalizeDate(data.tarikh || '');
-    if (normalizedDate) {
-      extraction.tarikh = normalizedDate;
-      perFieldConfidence.tarikh = 1;
-    } else {
-      perFieldConfidence.tarikh = 0;
-      errors.push(`Invalid date format: ${data.tarikh}`);
-    }
+      // Parse JSON response
+      const { results, problems } = this.parseGeminiResponse(response.text);
+      if (results.length > best.length) {
+        best = results;
+      }
 
-    // Validate DAFTAR
-    if (data.daftar && typeof data.daftar === 'string') {
-      extraction.daftar = cleanText(data.daftar);
-      perFieldConfidence.daftar = 0.9; // Slight uncertainty due to possible variations
-    } else {
-      perFieldConfidence.daftar = 0;
-      errors.push('Missing DAFTAR');
-    }
+      if (problems.length === 0) {
+        return { results, parsed: true, costUsd: totalCostUsd };
+      }
 
-    // Validate BIDANG
-    if (data.bidang && typeof data.bidang === 'string' && data.bidang.length > 5) {
-      extraction.bidang = cleanText(data.bidang);
-      perFieldConfidence.bidang = 0.95;
-    } else {
-      perFieldConfidence.bidang = 0;
-      errors.push('Invalid BIDANG');
-    }
+      logger.warn('Model response could not be fully parsed', {
+        path: pdfPath,
+        attempt,
+        recovered_rows: results.length,
+        problems,
+      });
 
-    // Validate KOD BIDANG (critical field)
-    if (isValidKodBidang(data.kod_bidang)) {
-      extraction.kod_bidang = data.kod_bidang;
-      perFieldConfidence.kod_bidang = 1;
-    } else {
-      perFieldConfidence.kod_bidang = 0;
-      errors.push(`Invalid KOD BIDANG format: ${data.kod_bidang}`);
-    }
+      await this.parseFailures.record({
+        run_id: usageTracker?.getContext().run_id,
+        provider: this.provider.name,
+        model: response.model,
+        prompt_version: promptVersion,
+        pdf_path: pdfPath,
+        attempt,
+        problems,
+        recovered_rows: results.length,
+        response_text: response.text,
+      });
 
-    // Validate KETERANGAN
-    if (data.keterangan && typeof data.keterangan === 'string' && data.keterangan.length > 5) {
-      extraction.keterangan = cleanText(data.keterangan);
-      perFieldConfidence.keterangan = 0.9;
-    } else {
-      perFieldConfidence.keterangan = 0;
-      errors.push('Invalid KETERANGAN');
+      attemptPrompt = this.buildCorrectionPrompt(prompt, problems);
     }
 
-    // Validate STATUS
-    if (isValidStatus(data.status)) {
-      extraction.status = data.status;
-      perFieldConfidence.status = 1;
-    } else {
-      perFieldConfidence.status = 0;
-      errors.push(`Invalid STATUS: ${data.status}`);
-    }
+    return { results: best, parsed: false, costUsd: totalCostUsd };
+  }
+
+  /**
+   * The prompt with the page's few-shot examples appended, and their crops
+   */
+  private async withExamples(pdfPath: string, prompt: string): Promise<{ prompt: string; images: ProviderImage[] }> {
+    if (!this.fewShot) return { prompt, images: [] };
 
-    // Calculate overall confidence
-    const confidenceValues = Object.values(perFieldConfidence);
-    const overallConfidence =
-      confidenceValues.length > 0
-        ? confidenceValues.reduce((a, b) => a + b) / confidenceValues.length
-        : 0;
+    const shots = await this.fewShot.build(pdfPath);
+    return { prompt: prompt + shots.text, images: shots.images };
+  }
 
-    if (errors.length > 0) {
-      warnings.push(`Extraction had ${errors.length} validation errors`);
+  /**
+   * One model call, checked against and recorded on the usage tracker
+   */
+  private async callModel(
+    prompt: string,
+    pdfPath: string,
+    pdfBuffer: Buffer,
+    promptVersion: number | null,
+    usageTracker: UsageTracker | null,
+    temperature?: number,
+    images: ProviderImage[] = []
+  ): Promise<{ text: string; model: string; costUsd: number }> {
+    const estimatedPromptTokens = estimatePromptTokens(prompt, pdfBuffer, images.length);
+
+    usageTracker?.checkBudget(
+      this.provider.billable
+        ? estimateCost(this.provider.model, { prompt_tokens: estimatedPromptTokens, response_tokens: 0 })
+        : 0
+    );
+    await this.rateLimiter?.acquire();
+
+    // Call extraction provider
+    const startedAt = Date.now();
+    let response;
+    try {
+      response = await this.provider.generate({
+        prompt,
+        pdfPath,
+        pdfData: pdfBuffer,
+        temperature,
+        images: images.length > 0 ? images : undefined,
+      });
+    } catch (error) {
+      await usageTracker?.record({
+        provider: this.provider.name,
+        model: this.provider.model,
+        prompt_version: promptVersion,
+        pdf_path: pdfPath,
+        prompt_tokens: estimatedPromptTokens,
+        response_tokens: 0,
+        usage_estimated: true,
+        latency_ms: Date.now() - startedAt,
+        cost_usd: 0,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
     }
 
-    return {
-      tender: extraction,
-      confidence: {
-        overall: parseFloat(overallConfidence.toFixed(3)),
-        per_field: perFieldConfidence,
-      },
-      warnings,
-      errors,
-      raw_gemini_response: JSON.stringify(data),
+    const responseText = response.text;
+    const usage = response.usage || {
+      prompt_tokens: estimatedPromptTokens,
+      response_tokens: estimateTokens(responseText),
     };
+    const costUsd = this.provider.billable ? estimateCost(response.model, usage) : 0;
+    const latencyMs = Date.now() - startedAt;
+
+    await usageTracker?.record({
+      provider: this.provider.name,
+      model: response.model,
+      prompt_version: promptVersion,
+      pdf_path: pdfPath,
+      prompt_tokens: usage.prompt_tokens,
+      response_tokens: usage.response_tokens,
+      usage_estimated: !response.usage,
+      latency_ms: latencyMs,
+      cost_usd: costUsd,
+      success: true,
+    });
+
+    logger.info('Model response received', {
+      provider: this.provider.name,
+      model: response.model,
+      prompt_version: promptVersion,
+      length: responseText.length,
+      prompt_tokens: usage.prompt_tokens,
+      response_tokens: usage.response_tokens,
+      latency_ms: latencyMs,
+      cost_usd: parseFloat(costUsd.toFixed(6)),
+    });
+
+    return { text: responseText, model: response.model, costUsd };
+  }
+
+  /**
+   * Parse and validate Gemini response. Repairs fences, prose, trailing
+   * commas and truncation; problems lists what could not be repaired, and
+   * the tenderSchema errors when no recovered row is a valid tender.
+   */
+  private parseGeminiResponse(responseText: string): { results: ExtractionResult[]; problems: string[] } {
+    const { items, issues } = parseModelResponse(responseText);
+
+    const results = items.map((item) => ({
+      ...scoreTender(item),
+      raw_gemini_response: JSON.stringify(item),
+    }));
+
+    const problems = [...issues];
+    const checks = results.map((result) => tenderSchema.safeParse(result.tender));
+    if (results.length > 0 && checks.every((check) => !check.success)) {
+      checks.forEach((check, index) => {
+        if (check.success) return;
+        for (const issue of check.error.errors) {
+          problems.push(`Row ${index + 1}: ${issue.path.join('.')}: ${issue.message}`);
+        }
+      });
+    }
+
+    return { results, problems: problems.slice(0, MAX_REPORTED_PROBLEMS) };
+  }
+
+  /**
+   * The original prompt plus what was wrong with the last response
+   */
+  private buildCorrectionPrompt(prompt: string, problems: string[]): string {
+    return `${prompt}
+
+YOUR PREVIOUS RESPONSE COULD NOT BE USED:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Answer again with the complete JSON array for every row in the table. Return ONLY the JSON array: no code fences, no text before or after it, no trailing commas.
+`;
   }
 
   /**
@@ -288,4 +549,18 @@ If extraction fails or data is unclear, return: []
   }
 }
 
+/**
+ * EXTRACTION_PARSE_RETRIES as a whole number of retries. Anything else
+ * falls back to the default: a bad value must not stop every model call.
+ */
+function parseRetriesSetting(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_PARSE_RETRIES;
+
+  const retries = Number(value);
+  if (Number.isInteger(retries) && retries >= 0) return retries;
+
+  logger.warn('Invalid EXTRACTION_PARSE_RETRIES, using the default', { value, default: DEFAULT_PARSE_RETRIES });
+  return DEFAULT_PARSE_RETRIES;
+}
+
 export default GeminiExtractor;
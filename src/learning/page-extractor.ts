@@ -0,0 +1,129 @@
+/**
+ * PAGE EXTRACTION
+ * This module handles:
+ * - Text layer extraction first, vision model for rows below threshold
+ * - Merging text-layer and vision rows of the same PDF
+ * - Calibrating row confidences, using the other read of each row as a signal
+ */
+
+import GeminiExtractor, { VotingOptions } from './gemini-extractor.js';
+import TextLayerExtractor from './text-layer-extractor.js';
+import RowMatcher from './row-matcher.js';
+import UsageTracker from './usage-tracker.js';
+import ConfidenceCalibrator from './confidence-calibrator.js';
+import { ExtractionResult, Tender } from '../types/index.js';
+
+export interface PageExtractOptions {
+  visionOnly?: boolean; // Skip the text layer
+  usageTracker?: UsageTracker; // Record vision calls here instead of the extractor's tracker
+  voting?: VotingOptions; // Vote over several vision passes instead of trusting one
+}
+
+export interface PageExtractResult {
+  extractions: ExtractionResult[];
+  text_layer_rows: number;
+  model_called: boolean;
+}
+
+export class PageExtractor {
+  private extractor: GeminiExtractor;
+  private textLayer: TextLayerExtractor;
+  private rowMatcher: RowMatcher;
+  private threshold: number;
+  private calibrator: ConfidenceCalibrator | null;
+
+  constructor(
+    extractor: GeminiExtractor,
+    columns: string[] = [],
+    threshold: number = parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.85'),
+    fieldMapping: Record<string, keyof Tender> = {},
+    calibrator: ConfidenceCalibrator | null = null
+  ) {
+    this.extractor = extractor;
+    this.textLayer = new TextLayerExtractor(columns, fieldMapping);
+    this.rowMatcher = new RowMatcher();
+    this.threshold = threshold;
+    this.calibrator = calibrator;
+  }
+
+  /**
+   * Extract the rows of one captured PDF
+   */
+  async extractPage(pdfPath: string, options: PageExtractOptions = {}): Promise<PageExtractResult> {
+    const textRows = options.visionOnly ? [] : await this.textLayer.extractFromPDF(pdfPath);
+
+    if (textRows.length > 0 && textRows.every((r) => r.confidence.overall >= this.threshold)) {
+      return {
+        extractions: this.calibrate(textRows, textRows, []),
+        text_layer_rows: textRows.length,
+        model_called: false,
+      };
+    }
+
+    const visionRows = options.voting
+      ? await this.extractor.extractWithVoting(pdfPath, options.voting, options.usageTracker)
+      : options.usageTracker
+        ? await this.extractor.extractFromPDF(pdfPath, options.usageTracker)
+        : await this.extractor.extractFromPDF(pdfPath);
+
+    return {
+      extractions: this.calibrate(this.mergeWithVision(textRows, visionRows), textRows, visionRows),
+      text_layer_rows: textRows.length,
+      model_called: true,
+    };
+  }
+
+  /**
+   * Keep confident text-layer rows and take the vision model's row for the
+   * rest, plus any rows the text layer missed entirely
+   */
+  private mergeWithVision(
+    textRows: ExtractionResult[],
+    visionRows: ExtractionResult[]
+  ): ExtractionResult[] {
+    if (textRows.length === 0) return visionRows;
+
+    const alignment = this.rowMatcher.align(
+      visionRows.map((r) => r.tender),
+      textRows.map((r) => r.tender)
+    );
+    const merged = [...textRows];
+
+    for (const match of alignment.matches) {
+      const textRow = textRows[match.known_index];
+      const visionRow = visionRows[match.extracted_index];
+
+      if (textRow.confidence.overall < this.threshold && visionRow.confidence.overall > textRow.confidence.overall) {
+        merged[match.known_index] = visionRow;
+      }
+    }
+
+    for (const index of alignment.invented) {
+      merged.push(visionRows[index]);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Calibrate the kept rows; a row's counterpart from the other read
+   * (vision for text-layer rows and the other way round) is the text signal
+   */
+  private calibrate(
+    rows: ExtractionResult[],
+    textRows: ExtractionResult[],
+    visionRows: ExtractionResult[]
+  ): ExtractionResult[] {
+    const calibrator = this.calibrator;
+    if (!calibrator) return rows;
+
+    return rows.map((row) => {
+      const other = (textRows.includes(row) ? visionRows : textRows).map((r) => r.tender);
+      const match = this.rowMatcher.align([row.tender], other).matches[0];
+
+      return calibrator.calibrate(row, { textLayer: match ? other[match.known_index] : null });
+    });
+  }
+}
+
+export default PageExtractor;
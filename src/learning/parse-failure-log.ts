@@ -0,0 +1,66 @@
+/**
+ * PARSE FAILURE LOG
+ * This module handles:
+ * - Keeping every model response that could not be parsed into valid rows
+ * - Reading them back for analysis (which prompts and models fail, and how)
+ *
+ * Failures are appended to PARSE_FAILURES_FILE as JSON lines, with the full
+ * response text so they can be re-parsed after parser changes.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import logger from '../utils/logger.js';
+import { ParseFailure } from '../types/index.js';
+
+export class ParseFailureLog {
+  private file: string;
+
+  constructor(
+    file: string = process.env.PARSE_FAILURES_FILE ||
+      path.join(process.env.TRAINING_DATA_DIR || './training_data', 'parse-failures.jsonl')
+  ) {
+    this.file = file;
+  }
+
+  /**
+   * Append one failure
+   */
+  async record(input: Omit<ParseFailure, 'id' | 'failed_at'>): Promise<ParseFailure> {
+    const failure: ParseFailure = {
+      id: randomUUID(),
+      ...input,
+      failed_at: new Date(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, JSON.stringify(failure) + '\n');
+    } catch (error) {
+      logger.warn('Failed to store parse failure', { pdf: input.pdf_path, error });
+    }
+
+    return failure;
+  }
+
+  /**
+   * Stored failures, optionally since a date
+   */
+  async list(since?: Date): Promise<ParseFailure[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as ParseFailure)
+      .filter((failure) => !since || new Date(failure.failed_at) >= since);
+  }
+}
+
+export default ParseFailureLog;
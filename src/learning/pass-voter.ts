@@ -0,0 +1,114 @@
+/**
+ * PASS VOTING
+ * This module handles:
+ * - Aligning the rows of several extraction passes over the same PDF
+ * - A per-field majority vote across the passes
+ * - Lowering field confidence by the share of passes that disagree
+ * - Flagging rows without a clear majority for manual review
+ */
+
+import RowMatcher from './row-matcher.js';
+import { scoreTender } from '../utils/scoring.js';
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { ExtractionResult } from '../types/index.js';
+
+export class PassVoter {
+  private rowMatcher: RowMatcher;
+
+  constructor() {
+    this.rowMatcher = new RowMatcher();
+  }
+
+  /**
+   * Vote the rows of every pass into one set of rows
+   */
+  vote(passes: ExtractionResult[][]): ExtractionResult[] {
+    // Each cluster holds one row per pass that found it, first pass first
+    const clusters: ExtractionResult[][] = [];
+
+    for (const rows of passes) {
+      const alignment = this.rowMatcher.align(
+        rows.map((r) => r.tender),
+        clusters.map((c) => c[0].tender)
+      );
+
+      for (const match of alignment.matches) {
+        clusters[match.known_index].push(rows[match.extracted_index]);
+      }
+      for (const index of alignment.invented) {
+        clusters.push([rows[index]]);
+      }
+    }
+
+    return clusters.map((cluster) => this.voteRow(cluster, passes.length));
+  }
+
+  /**
+   * Majority value of each field among the passes that found the row
+   */
+  private voteRow(cluster: ExtractionResult[], passCount: number): ExtractionResult {
+    const voted: Record<string, unknown> = {};
+    const agreement: Record<string, number> = {};
+    // A row most passes missed is disputed as a whole
+    const disputed: string[] = cluster.length * 2 <= passCount ? ['row'] : [];
+
+    for (const field of TENDER_FIELDS) {
+      const tally = new Map<string, { value: unknown; count: number }>();
+
+      for (const row of cluster) {
+        const value = row.tender[field];
+        if (value === undefined) continue;
+
+        const key = typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+        const entry = tally.get(key) || { value, count: 0 };
+        entry.count++;
+        tally.set(key, entry);
+      }
+
+      const winner = [...tally.values()].sort((a, b) => b.count - a.count)[0];
+      if (!winner) {
+        // No pass read a valid value: they agree, and scoring gives it 0
+        agreement[field] = 1;
+        continue;
+      }
+
+      // Passes that missed the row or the field count against the winner
+      voted[field] = winner.value;
+      agreement[field] = parseFloat((winner.count / passCount).toFixed(3));
+      if (winner.count * 2 <= passCount && disputed[0] !== 'row') {
+        disputed.push(field);
+      }
+    }
+
+    const scored = scoreTender(voted);
+    const perField: Record<string, number> = {};
+    for (const [field, confidence] of Object.entries(scored.confidence.per_field)) {
+      perField[field] = parseFloat((confidence * (agreement[field] ?? 1)).toFixed(3));
+    }
+
+    const values = Object.values(perField);
+    const overall = values.length > 0 ? values.reduce((a, b) => a + b) / values.length : 0;
+    const warnings = [...scored.warnings];
+    if (disputed.length > 0) {
+      warnings.push(`Passes disagree on: ${disputed.join(', ')}`);
+    }
+
+    return {
+      ...scored,
+      confidence: { overall: parseFloat(overall.toFixed(3)), per_field: perField },
+      warnings,
+      raw_gemini_response: cluster[0].raw_gemini_response,
+      votes: { passes: passCount, rows_found: cluster.length, agreement, disputed },
+    };
+  }
+
+  /**
+   * Whether a voted row should go to manual review instead of being trusted
+   */
+  static isDisputed(result: ExtractionResult): boolean {
+    return (result.votes?.disputed.length || 0) > 0;
+  }
+}
+
+export default PassVoter;
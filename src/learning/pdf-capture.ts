@@ -2,9 +2,10 @@
  * PHASE 2: PDF CAPTURE & STORAGE
  * This module handles:
  * - PDF generation from web pages
- * - Screenshot capture
+ * - Screenshot capture, with the position of each table row on it
  * - Storage management
  * - Metadata tracking
+ * - Resumable crawls: reusing captures of unchanged pages
  */
 
 import puppeteer, { Browser, Page } from 'puppeteer';
@@ -12,6 +13,24 @@ import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger.js';
+import { sha256 } from '../utils/hash.js';
+import CrawlManifest, { ManifestPage } from './crawl-manifest.js';
+
+export interface TableSnapshot {
+  headers: string[];
+  rows: string[][]; // Cell text of each tbody row
+}
+
+/**
+ * Where a table row sits on the page screenshot, in screenshot pixels
+ */
+export interface RowBox {
+  cells: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface CaptureResult {
   id: string;
@@ -20,6 +39,23 @@ export interface CaptureResult {
   url: string;
   timestamp: Date;
   page_number?: number;
+  table?: TableSnapshot; // Set when captured with includeTable
+  content_hash?: string; // Hash of the rendered table text
+  unchanged?: boolean; // Reused a previous capture with the same content
+}
+
+export interface TableCapture {
+  id: string;
+  url: string;
+  page_number: number;
+  table: TableSnapshot;
+  timestamp: Date;
+}
+
+export interface CaptureOptions {
+  includeTable?: boolean; // Also read the table cells from the DOM
+  previous?: ManifestPage | null; // Reuse this capture if the content hash matches
+  manifest?: CrawlManifest; // Resume and record pages (captureMultiplePages)
 }
 
 export class PDFCapture {
@@ -30,6 +66,13 @@ export class PDFCapture {
     this.storageDir = storageDir;
   }
 
+  /**
+   * Build the URL of a results page from the learned pagination pattern
+   */
+  static pageUrl(paginationPattern: string, page: number): string {
+    return paginationPattern.replace('{page}', page.toString());
+  }
+
   /**
    * Initialize storage directory
    */
@@ -68,7 +111,11 @@ export class PDFCapture {
   /**
    * Capture page as PDF with high quality
    */
-  async capturePDF(url: string, pageNumber: number = 1): Promise<CaptureResult> {
+  async capturePDF(
+    url: string,
+    pageNumber: number = 1,
+    options: CaptureOptions = {}
+  ): Promise<CaptureResult> {
     if (!this.browser) {
       await this.launchBrowser();
     }
@@ -96,6 +143,25 @@ export class PDFCapture {
       // Wait for any dynamic content
       await page.waitForTimeout(2000);
 
+      const contentHash = await this.hashContent(page);
+      const previous = options.previous;
+
+      if (
+        previous?.content_hash === contentHash &&
+        previous.capture_id &&
+        previous.pdf_path &&
+        (await this.exists(previous.pdf_path))
+      ) {
+        logger.info('Page unchanged, reusing capture', { pageNumber, id: previous.capture_id });
+        return {
+          ...this.fromManifest(previous),
+          table: options.includeTable ? await this.readTable(page) : undefined,
+          unchanged: true,
+        };
+      }
+
+      const table = options.includeTable ? await this.readTable(page) : undefined;
+
       // Capture PDF
       const pdfPath = path.join(this.storageDir, `${captureId}.pdf`);
       await page.pdf({
@@ -124,6 +190,7 @@ export class PDFCapture {
         fullPage: true,
         type: 'png',
       });
+      await this.saveRowBoxes(page, screenshotPath);
 
       return {
         id: captureId,
@@ -132,6 +199,8 @@ export class PDFCapture {
         url,
         timestamp: new Date(),
         page_number: pageNumber,
+        table,
+        content_hash: contentHash,
       };
     } catch (error) {
       logger.error('PDF capture failed', { url, error });
@@ -142,27 +211,157 @@ export class PDFCapture {
   }
 
   /**
-   * Capture multiple pages sequentially
+   * Read table cells straight from the DOM, without rendering a PDF
+   */
+  async captureTable(url: string, pageNumber: number = 1): Promise<TableCapture> {
+    if (!this.browser) {
+      await this.launchBrowser();
+    }
+
+    const page = await this.browser!.newPage();
+
+    try {
+      logger.info('Reading table from DOM', { url, pageNumber });
+
+      await page.setViewport({ width: 1920, height: 1080 });
+      await page.goto(url, {
+        waitUntil: 'networkidle2',
+        timeout: 30000,
+      });
+
+      await page.waitForSelector('table', { timeout: 10000 }).catch(() => {
+        logger.warn('No table found on page');
+      });
+
+      const table = await this.readTable(page);
+      logger.info('Table read from DOM', { rows: table.rows.length });
+
+      return {
+        id: uuidv4(),
+        url,
+        page_number: pageNumber,
+        table,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      logger.error('DOM table capture failed', { url, error });
+      throw error;
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Capture multiple pages sequentially. With a manifest, pages already
+   * captured in the current crawl are skipped and every page is recorded.
+   * The crawl is left open: the caller completes the manifest once the
+   * captured pages are also extracted.
    */
   async captureMultiplePages(
     baseUrl: string,
     totalPages: number,
-    paginationPattern: string
+    paginationPattern: string,
+    options: CaptureOptions = {}
   ): Promise<CaptureResult[]> {
-    const results: CaptureResult[] = [];
+    const { manifest } = options;
+    const resumed: CaptureResult[] = [];
+    const pending: number[] = [];
 
     for (let page = 1; page <= totalPages; page++) {
+      const entry = manifest?.getPage(page) || null;
+
+      if (manifest?.isDone(entry) && entry!.pdf_path && (await this.exists(entry!.pdf_path))) {
+        resumed.push({ ...this.fromManifest(entry!), unchanged: entry!.status === 'unchanged' });
+      } else {
+        pending.push(page);
+      }
+    }
+
+    if (resumed.length > 0) {
+      logger.info('Resuming crawl', { already_captured: resumed.length, remaining: pending.length });
+    }
+
+    const captured = await this.forEachPage(pending, paginationPattern, async (url, page) => {
+      const previous = manifest?.getPage(page) || null;
+
       try {
-        const url = paginationPattern.replace('{page}', page.toString());
+        const result = await this.capturePDF(url, page, { ...options, previous });
+
+        await manifest?.recordPage({
+          page_number: page,
+          url,
+          status: result.unchanged ? 'unchanged' : 'captured',
+          capture_id: result.id,
+          pdf_path: result.pdf_path,
+          screenshot_path: result.screenshot_path,
+          content_hash: result.content_hash,
+          captured_at: result.timestamp,
+        });
+
+        return result;
+      } catch (error) {
+        await manifest?.recordPage({
+          ...previous,
+          page_number: page,
+          url,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    });
+
+    const results = [...resumed, ...captured].sort(
+      (a, b) => (a.page_number || 0) - (b.page_number || 0)
+    );
+
+    logger.info('Multi-page capture complete', {
+      captured: results.length,
+      total: totalPages,
+      unchanged: results.filter((r) => r.unchanged).length,
+    });
+    return results;
+  }
+
+  /**
+   * Read the table of multiple pages sequentially
+   */
+  async captureMultipleTables(
+    totalPages: number,
+    paginationPattern: string
+  ): Promise<TableCapture[]> {
+    const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+    const results = await this.forEachPage(pages, paginationPattern, (url, page) =>
+      this.captureTable(url, page)
+    );
+
+    logger.info('Multi-page table read complete', { captured: results.length, total: totalPages });
+    return results;
+  }
+
+  /**
+   * Visit each page with a delay between requests, skipping failed pages
+   */
+  private async forEachPage<T>(
+    pages: number[],
+    paginationPattern: string,
+    capture: (url: string, page: number) => Promise<T>
+  ): Promise<T[]> {
+    const results: T[] = [];
+    const totalPages = pages[pages.length - 1] || 0;
+
+    for (const page of pages) {
+      try {
+        const url = PDFCapture.pageUrl(paginationPattern, page);
         const delay = parseInt(process.env.DELAY_BETWEEN_REQUESTS || '3000');
         
         logger.info(`Capturing page ${page}/${totalPages}`);
         
-        const result = await this.capturePDF(url, page);
+        const result = await capture(url, page);
         results.push(result);
 
         // Delay between requests to avoid rate limiting
-        if (page < totalPages) {
+        if (page !== totalPages) {
           await new Promise((resolve) => setTimeout(resolve, delay));
         }
       } catch (error) {
@@ -172,10 +371,113 @@ export class PDFCapture {
       }
     }
 
-    logger.info('Multi-page capture complete', { captured: results.length, total: totalPages });
     return results;
   }
 
+  /**
+   * Hash the visible table text, falling back to the whole page HTML
+   */
+  private async hashContent(page: Page): Promise<string> {
+    const tableText = await page
+      .$$eval('table', (tables) =>
+        tables.map((t) => t.textContent?.replace(/\s+/g, ' ').trim() || '').join('\n')
+      )
+      .catch(() => '');
+
+    return sha256(tableText || (await page.content()));
+  }
+
+  /**
+   * Rebuild a capture result from its manifest entry
+   */
+  private fromManifest(entry: ManifestPage): CaptureResult {
+    return {
+      id: entry.capture_id!,
+      pdf_path: entry.pdf_path!,
+      screenshot_path: entry.screenshot_path,
+      url: entry.url,
+      timestamp: entry.captured_at ? new Date(entry.captured_at) : new Date(),
+      page_number: entry.page_number,
+      content_hash: entry.content_hash,
+    };
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read header labels and body cell text of the document's first table,
+   * the one behavior learning reads
+   */
+  private async readTable(page: Page): Promise<TableSnapshot> {
+    try {
+      const table = await page.$('table');
+      if (!table) return { headers: [], rows: [] };
+
+      const headers = await table.$$eval('th', (cells) =>
+        cells.map((th) => th.textContent?.replace(/\s+/g, ' ').trim() || '')
+      );
+
+      // tsconfig has no DOM lib, so describe the row shape we rely on
+      const rows = await table.$$eval('tbody tr', (trs) =>
+        trs.map((tr) =>
+          Array.from(
+            (tr as unknown as { querySelectorAll(s: string): ArrayLike<{ textContent: string | null }> })
+              .querySelectorAll('td')
+          ).map((td) => td.textContent?.replace(/\s+/g, ' ').trim() || '')
+        )
+      );
+
+      return { headers, rows };
+    } catch {
+      return { headers: [], rows: [] };
+    }
+  }
+
+  /**
+   * Record where each row of the document's first table (the one readTable
+   * reads) sits on the full-page screenshot, so a single row can be cropped
+   * out of it later
+   */
+  private async saveRowBoxes(page: Page, screenshotPath: string): Promise<void> {
+    try {
+      const table = await page.$('table');
+      if (!table) return;
+
+      const boxes: RowBox[] = await table.$$eval('tbody tr', (trs) => {
+        const scroll = globalThis as unknown as { scrollX: number; scrollY: number };
+        return trs.map((tr) => {
+          const row = tr as unknown as {
+            getBoundingClientRect(): { x: number; y: number; width: number; height: number };
+            querySelectorAll(s: string): ArrayLike<{ textContent: string | null }>;
+          };
+          const rect = row.getBoundingClientRect();
+          return {
+            cells: Array.from(row.querySelectorAll('td')).map(
+              (td) => td.textContent?.replace(/\s+/g, ' ').trim() || ''
+            ),
+            x: Math.round(rect.x + scroll.scrollX),
+            y: Math.round(rect.y + scroll.scrollY),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          };
+        });
+      });
+
+      if (boxes.length > 0) {
+        await fs.writeFile(rowBoxesPath(screenshotPath), JSON.stringify(boxes));
+      }
+    } catch (error) {
+      logger.warn('Could not record table row positions', { path: screenshotPath, error });
+    }
+  }
+
   /**
    * Close browser
    */
@@ -187,4 +489,11 @@ export class PDFCapture {
   }
 }
 
+/**
+ * Sidecar file holding the RowBoxes of a screenshot
+ */
+export function rowBoxesPath(screenshotPath: string): string {
+  return screenshotPath.replace(/\.png$/, '') + '.rows.json';
+}
+
 export default PDFCapture;
@@ -0,0 +1,225 @@
+/**
+ * PROMPT REGISTRY
+ * This module handles:
+ * - Versioned storage of extraction prompts
+ * - Lineage (parent version, failure patterns, accuracy)
+ * - Promotion and rollback of the active prompt
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { PromptVersion } from '../types/index.js';
+
+interface ActivePointer {
+  version: number;
+  history: number[]; // Previously active versions, most recent last
+}
+
+export interface PromptComparison {
+  from: PromptVersion;
+  to: PromptVersion;
+  accuracy_delta: number | null;
+  patterns_added: string[];
+  patterns_removed: string[];
+  lines_added: string[];
+  lines_removed: string[];
+}
+
+export class PromptRegistry {
+  private promptsDir: string;
+  private activeFile: string;
+
+  constructor(modelsDir: string = process.env.MODELS_DIR || './models') {
+    this.promptsDir = path.join(modelsDir, 'prompts');
+    this.activeFile = path.join(this.promptsDir, 'active.json');
+  }
+
+  /**
+   * Initialize prompt directory
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.promptsDir, { recursive: true });
+  }
+
+  /**
+   * Store a prompt as the next version
+   */
+  async register(
+    prompt: string,
+    lineage: {
+      parentVersion?: number | null;
+      failurePatterns?: string[];
+      accuracy?: number | null;
+    } = {}
+  ): Promise<PromptVersion> {
+    await this.initialize();
+
+    const versions = await this.list();
+    const promptVersion: PromptVersion = {
+      version: (versions[versions.length - 1]?.version || 0) + 1,
+      parent_version: lineage.parentVersion ?? null,
+      prompt,
+      failure_patterns: lineage.failurePatterns || [],
+      accuracy: lineage.accuracy ?? null,
+      created_at: new Date(),
+    };
+
+    await this.write(promptVersion);
+    logger.info('Prompt version registered', {
+      version: promptVersion.version,
+      parent: promptVersion.parent_version,
+    });
+
+    return promptVersion;
+  }
+
+  /**
+   * Record the accuracy a prompt version reached
+   */
+  async setAccuracy(version: number, accuracy: number): Promise<PromptVersion> {
+    const promptVersion = await this.require(version);
+    promptVersion.accuracy = accuracy;
+    await this.write(promptVersion);
+    return promptVersion;
+  }
+
+  /**
+   * Get all prompt versions, oldest first
+   */
+  async list(): Promise<PromptVersion[]> {
+    try {
+      const files = await fs.readdir(this.promptsDir);
+      const versions: PromptVersion[] = [];
+
+      for (const file of files) {
+        if (!/^v\d+\.json$/.test(file)) continue;
+
+        const content = await fs.readFile(path.join(this.promptsDir, file), 'utf-8');
+        versions.push(JSON.parse(content));
+      }
+
+      return versions.sort((a, b) => a.version - b.version);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get a prompt version
+   */
+  async get(version: number): Promise<PromptVersion | null> {
+    try {
+      const content = await fs.readFile(
+        path.join(this.promptsDir, `v${version}.json`),
+        'utf-8'
+      );
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the active prompt version, if any
+   */
+  async getActive(): Promise<PromptVersion | null> {
+    const pointer = await this.readActivePointer();
+    return pointer ? this.get(pointer.version) : null;
+  }
+
+  /**
+   * Make a version the active prompt
+   */
+  async promote(version: number): Promise<PromptVersion> {
+    const promptVersion = await this.require(version);
+    const pointer = await this.readActivePointer();
+
+    if (pointer?.version === version) {
+      return promptVersion;
+    }
+
+    const next: ActivePointer = {
+      version,
+      history: pointer ? [...pointer.history, pointer.version] : [],
+    };
+    await fs.writeFile(this.activeFile, JSON.stringify(next, null, 2));
+
+    promptVersion.promoted_at = new Date();
+    await this.write(promptVersion);
+
+    logger.info('Prompt version promoted', { version, previous: pointer?.version });
+    return promptVersion;
+  }
+
+  /**
+   * Re-activate the previously active version
+   */
+  async rollback(): Promise<PromptVersion> {
+    const pointer = await this.readActivePointer();
+
+    if (!pointer || pointer.history.length === 0) {
+      throw new Error('No previous prompt version to roll back to');
+    }
+
+    const previous = pointer.history[pointer.history.length - 1];
+    const next: ActivePointer = {
+      version: previous,
+      history: pointer.history.slice(0, -1),
+    };
+    await fs.writeFile(this.activeFile, JSON.stringify(next, null, 2));
+
+    logger.info('Prompt version rolled back', { from: pointer.version, to: previous });
+    return this.require(previous);
+  }
+
+  /**
+   * Compare two prompt versions
+   */
+  async compare(fromVersion: number, toVersion: number): Promise<PromptComparison> {
+    const from = await this.require(fromVersion);
+    const to = await this.require(toVersion);
+
+    const fromLines = from.prompt.split('\n').map((l) => l.trim()).filter(Boolean);
+    const toLines = to.prompt.split('\n').map((l) => l.trim()).filter(Boolean);
+
+    return {
+      from,
+      to,
+      accuracy_delta:
+        from.accuracy !== null && to.accuracy !== null
+          ? parseFloat((to.accuracy - from.accuracy).toFixed(2))
+          : null,
+      patterns_added: to.failure_patterns.filter((p) => !from.failure_patterns.includes(p)),
+      patterns_removed: from.failure_patterns.filter((p) => !to.failure_patterns.includes(p)),
+      lines_added: toLines.filter((l) => !fromLines.includes(l)),
+      lines_removed: fromLines.filter((l) => !toLines.includes(l)),
+    };
+  }
+
+  private async require(version: number): Promise<PromptVersion> {
+    const promptVersion = await this.get(version);
+    if (!promptVersion) {
+      throw new Error(`Prompt version not found: v${version}`);
+    }
+    return promptVersion;
+  }
+
+  private async write(promptVersion: PromptVersion): Promise<void> {
+    await fs.writeFile(
+      path.join(this.promptsDir, `v${promptVersion.version}.json`),
+      JSON.stringify(promptVersion, null, 2)
+    );
+  }
+
+  private async readActivePointer(): Promise<ActivePointer | null> {
+    try {
+      const content = await fs.readFile(this.activeFile, 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export default PromptRegistry;
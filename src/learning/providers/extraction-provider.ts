@@ -0,0 +1,35 @@
+/**
+ * EXTRACTION PROVIDER INTERFACE
+ * A provider turns a prompt plus a PDF, and any example images, into the
+ * model's raw text response.
+ * Parsing and scoring stay in GeminiExtractor, so every backend is scored
+ * the same way.
+ */
+
+import { TokenUsage } from '../../types/index.js';
+
+export interface ProviderImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  pdfPath: string;
+  pdfData: Buffer;
+  temperature?: number; // Sampling temperature; the provider's default when unset
+  images?: ProviderImage[]; // Few-shot example crops, sent before the PDF in prompt order
+}
+
+export interface ProviderResponse {
+  text: string;
+  model: string;
+  usage?: TokenUsage; // As reported by the model API, when it reports it
+}
+
+export interface ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly billable: boolean; // False when responses cost nothing, e.g. replay
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
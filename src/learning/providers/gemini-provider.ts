@@ -0,0 +1,68 @@
+/**
+ * Gemini Vision provider (Google Generative AI)
+ */
+
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { ExtractionProvider, ProviderRequest, ProviderResponse } from './extraction-provider.js';
+
+interface GeminiUsageMetadata {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+}
+
+export class GeminiProvider implements ExtractionProvider {
+  readonly name = 'gemini';
+  readonly billable = true;
+  readonly model: string;
+  private client: GoogleGenerativeAI;
+  private generativeModel: GenerativeModel;
+
+  constructor(
+    apiKey: string = process.env.GEMINI_API_KEY || '',
+    model: string = process.env.GEMINI_MODEL || 'gemini-1.5-flash'
+  ) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY not provided');
+    }
+    this.model = model;
+    this.client = new GoogleGenerativeAI(apiKey);
+    this.generativeModel = this.client.getGenerativeModel({ model });
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.generativeModel.generateContent({
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: request.prompt },
+            ...(request.images || []).map((image) => ({
+              inlineData: { mimeType: image.mimeType, data: image.data.toString('base64') },
+            })),
+            {
+              inlineData: {
+                mimeType: 'application/pdf',
+                data: request.pdfData.toString('base64'),
+              },
+            },
+          ],
+        },
+      ],
+      generationConfig:
+        request.temperature !== undefined ? { temperature: request.temperature } : undefined,
+    });
+
+    // The API returns usageMetadata, but this SDK version does not type it
+    const usage = (response.response as { usageMetadata?: GeminiUsageMetadata }).usageMetadata;
+
+    return {
+      text: response.response.text(),
+      model: this.model,
+      usage: usage
+        ? { prompt_tokens: usage.promptTokenCount, response_tokens: usage.candidatesTokenCount }
+        : undefined,
+    };
+  }
+}
+
+export default GeminiProvider;
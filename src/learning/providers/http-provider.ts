@@ -0,0 +1,62 @@
+/**
+ * HTTP provider: posts the prompt and PDF to a configurable endpoint, e.g.
+ * a local stand-in server during development.
+ *
+ * Request body:  { prompt, pdf_base64, mime_type, pdf_path, temperature?,
+ *                  images?: [{ mime_type, data_base64 }] }
+ * Response body: { text, model?, usage?: { prompt_tokens, response_tokens } }
+ */
+
+import axios from 'axios';
+import { ExtractionProvider, ProviderRequest, ProviderResponse } from './extraction-provider.js';
+
+export class HttpProvider implements ExtractionProvider {
+  readonly name = 'http';
+  readonly billable = true;
+  readonly model: string;
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(
+    url: string = process.env.EXTRACTION_PROVIDER_URL || '',
+    model: string = process.env.EXTRACTION_PROVIDER_MODEL || 'http',
+    timeoutMs: number = parseInt(process.env.EXTRACTION_PROVIDER_TIMEOUT_MS || '120000')
+  ) {
+    if (!url) {
+      throw new Error('EXTRACTION_PROVIDER_URL not provided');
+    }
+    this.url = url;
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await axios.post(
+      this.url,
+      {
+        prompt: request.prompt,
+        pdf_base64: request.pdfData.toString('base64'),
+        mime_type: 'application/pdf',
+        pdf_path: request.pdfPath,
+        temperature: request.temperature,
+        images: request.images?.map((image) => ({
+          mime_type: image.mimeType,
+          data_base64: image.data.toString('base64'),
+        })),
+      },
+      { timeout: this.timeoutMs }
+    );
+
+    if (typeof response.data?.text !== 'string') {
+      throw new Error(`Provider at ${this.url} returned no text`);
+    }
+
+    return {
+      text: response.data.text,
+      model: response.data.model || this.model,
+      usage: response.data.usage,
+    };
+  }
+}
+
+export default HttpProvider;
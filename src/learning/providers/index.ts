@@ -0,0 +1,35 @@
+/**
+ * Extraction provider selection
+ *
+ * EXTRACTION_PROVIDER=gemini|replay|http (default: gemini)
+ * EXTRACTION_RECORD=true records every live response for later replay
+ */
+
+import { ExtractionProvider } from './extraction-provider.js';
+import GeminiProvider from './gemini-provider.js';
+import HttpProvider from './http-provider.js';
+import ReplayProvider, { RecordingProvider } from './replay-provider.js';
+
+export * from './extraction-provider.js';
+export { GeminiProvider, HttpProvider, ReplayProvider, RecordingProvider };
+
+export function createExtractionProvider(
+  name: string = process.env.EXTRACTION_PROVIDER || 'gemini'
+): ExtractionProvider {
+  let provider: ExtractionProvider;
+
+  switch (name) {
+    case 'gemini':
+      provider = new GeminiProvider();
+      break;
+    case 'replay':
+      return new ReplayProvider();
+    case 'http':
+      provider = new HttpProvider();
+      break;
+    default:
+      throw new Error(`Unknown extraction provider: ${name}`);
+  }
+
+  return process.env.EXTRACTION_RECORD === 'true' ? new RecordingProvider(provider) : provider;
+}
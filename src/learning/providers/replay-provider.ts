@@ -0,0 +1,209 @@
+/**
+ * Replay provider: serves recorded model responses from disk so the
+ * learning pipeline runs offline and in CI.
+ *
+ * Lookup order for a request:
+ * 1. recordings/<pdf hash>/<prompt hash>.json (exact prompt)
+ * 2. the newest recording for the same PDF (unless strict)
+ * 3. the raw_gemini_response rows of training examples for the same PDF,
+ *    read through the storage backend (STORAGE_BACKEND)
+ *
+ * With a model set (REPLAY_MODEL), only responses recorded from that model
+ * are replayed, from recordings/<pdf hash>/<prompt hash>.<model>.json, so
+ * several models can be replayed against the same prompt.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../../utils/logger.js';
+import { sha256 } from '../../utils/hash.js';
+import { createStorage, StorageBackend } from '../../storage/index.js';
+import { TokenUsage } from '../../types/index.js';
+import { ExtractionProvider, ProviderRequest, ProviderResponse } from './extraction-provider.js';
+
+export interface RecordedResponse {
+  pdf_hash: string;
+  prompt_hash: string;
+  model: string;
+  text: string;
+  usage?: TokenUsage;
+  recorded_at: Date;
+}
+
+export class ReplayProvider implements ExtractionProvider {
+  readonly name = 'replay';
+  readonly model: string; // 'replay', or 'replay:<model>' when limited to one recorded model
+  readonly billable = false;
+  private recordingsDir: string;
+  private storage: StorageBackend | null;
+  private strict: boolean;
+  private recordedModel: string | null;
+
+  constructor(
+    recordingsDir: string = process.env.REPLAY_DIR ||
+      path.join(process.env.TRAINING_DATA_DIR || './training_data', 'recordings'),
+    storage: StorageBackend | null = null, // Opened for each lookup when not given
+    strict: boolean = process.env.REPLAY_STRICT === 'true',
+    recordedModel: string | null = process.env.REPLAY_MODEL || null
+  ) {
+    this.recordingsDir = recordingsDir;
+    this.storage = storage;
+    this.strict = strict;
+    this.recordedModel = recordedModel;
+    this.model = recordedModel ? `replay:${recordedModel}` : 'replay';
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResponse> {
+    const pdfHash = sha256(request.pdfData);
+    const promptHash = sha256(request.prompt);
+    const pdfDir = path.join(this.recordingsDir, pdfHash);
+
+    const exact = this.recordedModel
+      ? await this.readRecording(path.join(pdfDir, `${promptHash}.${modelKey(this.recordedModel)}.json`))
+      : await this.readRecording(path.join(pdfDir, `${promptHash}.json`));
+    if (exact) {
+      return { text: exact.text, model: exact.model, usage: exact.usage };
+    }
+
+    if (!this.strict) {
+      const newest = await this.newestRecording(pdfDir);
+      if (newest) {
+        logger.warn('Replaying response recorded with a different prompt', {
+          pdf: request.pdfPath,
+          prompt_hash: newest.prompt_hash,
+        });
+        return { text: newest.text, model: newest.model, usage: newest.usage };
+      }
+
+      // Example rows do not say which model read them
+      const rebuilt = this.recordedModel ? null : await this.rebuildFromExamples(request.pdfPath);
+      if (rebuilt) {
+        return { text: rebuilt, model: 'replay' };
+      }
+    }
+
+    throw new Error(`No recorded response for ${request.pdfPath}`);
+  }
+
+  private async readRecording(file: string): Promise<RecordedResponse | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async newestRecording(pdfDir: string): Promise<RecordedResponse | null> {
+    try {
+      const files = (await fs.readdir(pdfDir)).filter((f) => f.endsWith('.json'));
+      const recordings: RecordedResponse[] = [];
+
+      for (const file of files) {
+        const recording = await this.readRecording(path.join(pdfDir, file));
+        if (recording && (!this.recordedModel || recording.model === this.recordedModel)) {
+          recordings.push(recording);
+        }
+      }
+
+      recordings.sort(
+        (a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime()
+      );
+      return recordings[0] || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rebuild a response array from the per-row raw responses saved on
+   * training examples
+   */
+  private async rebuildFromExamples(pdfPath: string): Promise<string | null> {
+    let opened: StorageBackend | null = null;
+
+    try {
+      const storage = this.storage || (opened = createStorage());
+      if (opened) await opened.initialize();
+      const rows: { created_at: number; bil: number; data: unknown }[] = [];
+
+      for (const example of await storage.listExamples()) {
+        if (example.pdf_path !== pdfPath || !example.gemini_extraction.raw_gemini_response) continue;
+
+        rows.push({
+          created_at: new Date(example.created_at).getTime(),
+          bil: example.gemini_extraction.tender.bil || 0,
+          data: JSON.parse(example.gemini_extraction.raw_gemini_response),
+        });
+      }
+
+      if (rows.length === 0) return null;
+
+      rows.sort((a, b) => a.created_at - b.created_at || a.bil - b.bil);
+      return JSON.stringify(rows.map((r) => r.data));
+    } catch (error) {
+      logger.warn('Failed to rebuild a response from training examples', { pdf: pdfPath, error });
+      return null;
+    } finally {
+      if (opened) await opened.close().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Wraps another provider and records every response for later replay
+ */
+export class RecordingProvider implements ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly billable: boolean;
+  private inner: ExtractionProvider;
+  private recordingsDir: string;
+
+  constructor(
+    inner: ExtractionProvider,
+    recordingsDir: string = process.env.REPLAY_DIR ||
+      path.join(process.env.TRAINING_DATA_DIR || './training_data', 'recordings')
+  ) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.model = inner.model;
+    this.billable = inner.billable;
+    this.recordingsDir = recordingsDir;
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.inner.generate(request);
+
+    const recording: RecordedResponse = {
+      pdf_hash: sha256(request.pdfData),
+      prompt_hash: sha256(request.prompt),
+      model: response.model,
+      text: response.text,
+      usage: response.usage,
+      recorded_at: new Date(),
+    };
+
+    try {
+      const pdfDir = path.join(this.recordingsDir, recording.pdf_hash);
+      await fs.mkdir(pdfDir, { recursive: true });
+      // The latest answer to the prompt, and the answer of this model
+      const files = [`${recording.prompt_hash}.json`, `${recording.prompt_hash}.${modelKey(recording.model)}.json`];
+      for (const file of files) {
+        await fs.writeFile(path.join(pdfDir, file), JSON.stringify(recording, null, 2));
+      }
+    } catch (error) {
+      logger.warn('Failed to record response', { error });
+    }
+
+    return response;
+  }
+}
+
+/**
+ * File name part for a model name
+ */
+function modelKey(model: string): string {
+  return model.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
+
+export default ReplayProvider;
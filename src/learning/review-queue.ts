@@ -0,0 +1,326 @@
+/**
+ * ACTIVE-LEARNING REVIEW QUEUE
+ * This module handles:
+ * - Ranking unvalidated examples by how much validating them should teach
+ * - Capping the rows taken from one PDF so a session covers many pages
+ *
+ * A row scores higher when:
+ * - its fields have low confidence, or voted passes disputed it
+ * - its kod_bidang prefix is rare among validated examples
+ * - its values have formats no validated example has (e.g. a new daftar
+ *   pattern)
+ * - recent prompt versions read it, or its page, differently
+ *
+ * Rows are picked greedily: once a row is picked, the prefix and formats it
+ * covers count as seen, so the next pick favours something new.
+ */
+
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { Tender, TrainingExample } from '../types/index.js';
+
+export interface ReviewPriority {
+  example: TrainingExample;
+  score: number;
+  signals: {
+    uncertainty: number; // Mean of 1 - per-field confidence
+    disputed: boolean; // Voted passes had no majority
+    rarity: number; // 1 / (1 + validated rows with the kod_bidang prefix)
+    novelty: number; // Share of format fields with an unseen format
+    disagreement: number; // Share of fields recent prompt versions read differently
+  };
+  reasons: string[];
+  over_cap: boolean; // Deferred: its PDF already has the capped number of rows ahead
+}
+
+// Weights of the signals in the score, summing to 1
+const WEIGHTS = {
+  uncertainty: 0.35,
+  disputed: 0.2,
+  rarity: 0.15,
+  novelty: 0.15,
+  disagreement: 0.15,
+};
+
+// Fields whose format (not value) says something about the page layout
+const FORMAT_FIELDS: (keyof Tender)[] = ['tarikh', 'daftar', 'kod_bidang'];
+
+// kod_bidang is hierarchical; its first two digits are the category
+const KOD_PREFIX_LENGTH = 2;
+
+// Prompt versions compared for disagreement, newest first
+const RECENT_PROMPT_VERSIONS = 3;
+
+interface Candidate {
+  example: TrainingExample;
+  index: number; // Input order, which breaks ties
+  prefix: string | null;
+  formats: string[]; // formatKey of each FORMAT_FIELDS value
+  base: number; // Weighted uncertainty, dispute and disagreement
+  priority: ReviewPriority; // Rarity, novelty and score as of the last rescore
+}
+
+export class ReviewQueue {
+  private maxPerPdf: number;
+
+  constructor(maxPerPdf: number = parseInt(process.env.REVIEW_MAX_PER_PDF || '3')) {
+    this.maxPerPdf = maxPerPdf;
+  }
+
+  /**
+   * Unvalidated examples, most informative first. Rows past the per-PDF
+   * cap are not dropped but go after every other row.
+   *
+   * Picking only ever lowers the rarity and novelty of the rows left, so
+   * rows wait in a max-heap under their last score and are rescored when
+   * they reach the top: a row whose score still holds is the best pick.
+   * This keeps ranking near O(n log n) for thousands of rows.
+   */
+  rank(unvalidated: TrainingExample[], validated: TrainingExample[]): ReviewPriority[] {
+    const prefixCounts = new Map<string, number>();
+    const formats = new Set<string>();
+
+    for (const example of validated) {
+      const truth = example.manual_validation;
+      if (!truth) continue;
+      const prefix = kodPrefix(truth);
+      if (prefix) prefixCounts.set(prefix, (prefixCounts.get(prefix) || 0) + 1);
+      for (const field of FORMAT_FIELDS) formats.add(formatKey(field, truth[field]));
+    }
+
+    const rowDisagreements = new Map(unvalidated.map((e) => [e.id, rowDisagreement(e)]));
+    const pageDisagreement = this.pageDisagreement(unvalidated, rowDisagreements);
+    const heap = new MaxHeap<Candidate>((a, b) => a.priority.score - b.priority.score || b.index - a.index);
+
+    unvalidated.forEach((example, index) => {
+      const candidate = this.candidate(example, index, rowDisagreements, pageDisagreement);
+      this.rescore(candidate, prefixCounts, formats);
+      heap.push(candidate);
+    });
+
+    const perPdf = new Map<string, number>();
+    const ranked: ReviewPriority[] = [];
+    const deferred: ReviewPriority[] = [];
+
+    while (heap.size() > 0) {
+      const candidate = heap.pop()!;
+      const before = candidate.priority.score;
+      if (this.rescore(candidate, prefixCounts, formats) < before) {
+        heap.push(candidate);
+        continue;
+      }
+
+      const { example, priority } = candidate;
+      priority.reasons = this.describe(priority, formats);
+      const taken = perPdf.get(example.pdf_path) || 0;
+
+      if (this.maxPerPdf > 0 && taken >= this.maxPerPdf) {
+        priority.over_cap = true;
+        deferred.push(priority);
+        continue;
+      }
+
+      perPdf.set(example.pdf_path, taken + 1);
+      ranked.push(priority);
+
+      // What this row covers is no longer new for the rows after it
+      if (candidate.prefix) prefixCounts.set(candidate.prefix, (prefixCounts.get(candidate.prefix) || 0) + 1);
+      for (const format of candidate.formats) formats.add(format);
+    }
+
+    return [...ranked, ...deferred];
+  }
+
+  /**
+   * The signals of a row that do not depend on what was picked before it
+   */
+  private candidate(
+    example: TrainingExample,
+    index: number,
+    rowDisagreements: Map<string, number>,
+    pageDisagreement: Map<string, number>
+  ): Candidate {
+    const extraction = example.gemini_extraction;
+    const tender = extraction.tender;
+
+    const uncertainty =
+      TENDER_FIELDS.reduce((sum, field) => sum + (1 - (extraction.confidence.per_field[field] ?? 0)), 0) /
+      TENDER_FIELDS.length;
+    const disputed = (extraction.votes?.disputed.length || 0) > 0;
+    const disagreement = Math.max(
+      rowDisagreements.get(example.id) || 0,
+      pageDisagreement.get(example.pdf_path) || 0
+    );
+
+    return {
+      example,
+      index,
+      prefix: kodPrefix(tender),
+      formats: FORMAT_FIELDS.map((field) => formatKey(field, tender[field])),
+      base:
+        WEIGHTS.uncertainty * uncertainty +
+        WEIGHTS.disputed * (disputed ? 1 : 0) +
+        WEIGHTS.disagreement * disagreement,
+      priority: {
+        example,
+        score: 0,
+        signals: {
+          uncertainty: parseFloat(uncertainty.toFixed(3)),
+          disputed,
+          rarity: 0,
+          novelty: 0,
+          disagreement: parseFloat(disagreement.toFixed(3)),
+        },
+        reasons: [],
+        over_cap: false,
+      },
+    };
+  }
+
+  /**
+   * Update a row's rarity, novelty and score for what is covered so far;
+   * returns the new score
+   */
+  private rescore(candidate: Candidate, prefixCounts: Map<string, number>, formats: Set<string>): number {
+    const rarity = candidate.prefix ? 1 / (1 + (prefixCounts.get(candidate.prefix) || 0)) : 0;
+    const novelty = candidate.formats.filter((format) => !formats.has(format)).length / FORMAT_FIELDS.length;
+    const { priority } = candidate;
+
+    priority.score = parseFloat(
+      (candidate.base + WEIGHTS.rarity * rarity + WEIGHTS.novelty * novelty).toFixed(4)
+    );
+    priority.signals.rarity = parseFloat(rarity.toFixed(3));
+    priority.signals.novelty = parseFloat(novelty.toFixed(3));
+    return priority.score;
+  }
+
+  /**
+   * Why a row ranks where it does, for the reviewer
+   */
+  private describe(priority: ReviewPriority, formats: Set<string>): string[] {
+    const extraction = priority.example.gemini_extraction;
+    const { signals } = priority;
+    const reasons: string[] = [];
+
+    const lowFields = TENDER_FIELDS.filter((field) => (extraction.confidence.per_field[field] ?? 0) < 0.6);
+    if (lowFields.length > 0) reasons.push(`low confidence: ${lowFields.join(', ')}`);
+    if (signals.disputed) reasons.push(`passes disagree: ${extraction.votes!.disputed.join(', ')}`);
+    if (signals.rarity >= 0.5) reasons.push(`rare kod_bidang prefix ${kodPrefix(extraction.tender)}`);
+    const unseen = FORMAT_FIELDS.filter((field) => !formats.has(formatKey(field, extraction.tender[field])));
+    if (unseen.length > 0) reasons.push(`new format: ${unseen.join(', ')}`);
+    if (signals.disagreement > 0) {
+      reasons.push(`prompt versions disagree (${Math.round(signals.disagreement * 100)}% of fields)`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Mean row disagreement of each PDF's examples
+   */
+  private pageDisagreement(
+    examples: TrainingExample[],
+    rowDisagreements: Map<string, number>
+  ): Map<string, number> {
+    const totals = new Map<string, { sum: number; count: number }>();
+
+    for (const example of examples) {
+      const total = totals.get(example.pdf_path) || { sum: 0, count: 0 };
+      total.sum += rowDisagreements.get(example.id) || 0;
+      total.count++;
+      totals.set(example.pdf_path, total);
+    }
+
+    return new Map([...totals].map(([pdfPath, { sum, count }]) => [pdfPath, sum / count]));
+  }
+}
+
+/**
+ * Binary max-heap ordered by compare (positive when a ranks above b)
+ */
+class MaxHeap<T> {
+  private items: T[] = [];
+  private compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) <= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+
+    items[0] = last;
+    for (let i = 0; ; ) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < items.length && this.compare(items[left], items[largest]) > 0) largest = left;
+      if (right < items.length && this.compare(items[right], items[largest]) > 0) largest = right;
+      if (largest === i) break;
+      [items[i], items[largest]] = [items[largest], items[i]];
+      i = largest;
+    }
+    return top;
+  }
+}
+
+/**
+ * Share of fields on which the latest reads of the recent prompt versions
+ * (and the original extraction) do not all agree
+ */
+function rowDisagreement(example: TrainingExample): number {
+  const latest = new Map<number | null, Partial<Tender>>();
+  for (const candidate of example.candidate_extractions || []) {
+    latest.set(candidate.prompt_version, candidate.extraction.tender);
+  }
+  if (latest.size === 0) return 0;
+
+  const versions = [...latest.keys()].sort((a, b) => (b ?? 0) - (a ?? 0)).slice(0, RECENT_PROMPT_VERSIONS);
+  const reads = [example.gemini_extraction.tender, ...versions.map((v) => latest.get(v)!)];
+
+  const differing = TENDER_FIELDS.filter(
+    (field) => new Set(reads.map((read) => normalize(read[field]))).size > 1
+  );
+  return differing.length / TENDER_FIELDS.length;
+}
+
+function kodPrefix(tender: Partial<Tender>): string | null {
+  return tender.kod_bidang ? tender.kod_bidang.slice(0, KOD_PREFIX_LENGTH) : null;
+}
+
+/**
+ * A value's format: digit runs become 9, letter runs become A
+ */
+function formatKey(field: keyof Tender, value: unknown): string {
+  if (value === undefined || value === null || value === '') return `${field}:missing`;
+  const shape = cleanText(String(value))
+    .replace(/[0-9]+/g, '9')
+    .replace(/[A-Za-z]+/g, 'A');
+  return `${field}:${shape}`;
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
+export default ReviewQueue;
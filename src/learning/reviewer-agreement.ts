@@ -0,0 +1,160 @@
+/**
+ * REVIEWER AGREEMENT
+ * This module handles:
+ * - Inter-annotator agreement per field on double-reviewed examples
+ * - How often each reviewer's values became ground truth
+ *
+ * Agreement compares each assigned reviewer's first validation of an
+ * example, made before they could see the others', so later resolutions
+ * do not inflate it. Kappa is Fleiss' kappa, which allows different
+ * reviewer pairs on different examples: 1 is perfect agreement, 0 is what
+ * chance alone would give.
+ */
+
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { AgreementReport, FieldAgreement, ReviewerStats, Tender, TrainingExample } from '../types/index.js';
+
+export class ReviewerAgreement {
+  /**
+   * Agreement and reviewer stats over the given examples
+   */
+  report(examples: TrainingExample[]): AgreementReport {
+    const doubleReviewed = examples.filter((e) => (e.assigned_reviewers?.length || 0) >= 2);
+    const complete: { example: TrainingExample; reads: Tender[] }[] = [];
+
+    for (const example of doubleReviewed) {
+      const first = this.firstValidations(example);
+      const reads = example.assigned_reviewers!.map((reviewer) => first.get(reviewer));
+      if (reads.every((read) => read !== undefined)) {
+        complete.push({ example, reads: reads as Tender[] });
+      }
+    }
+
+    const perField: Record<string, FieldAgreement> = {};
+    for (const field of TENDER_FIELDS) {
+      perField[field] = fieldAgreement(complete.map(({ reads }) => reads.map((read) => normalize(read[field]))));
+    }
+
+    return {
+      double_reviewed: doubleReviewed.length,
+      complete: complete.length,
+      conflicts: doubleReviewed.filter((e) => e.conflict_fields).length,
+      per_field: perField,
+      reviewers: this.reviewerStats(examples, complete),
+    };
+  }
+
+  /**
+   * Each reviewer's first validation of an example
+   */
+  private firstValidations(example: TrainingExample): Map<string, Tender> {
+    const first = new Map<string, Tender>();
+
+    for (const revision of example.revisions || []) {
+      if (revision.kind === 'validation' && revision.tender && !first.has(revision.reviewer_id)) {
+        first.set(revision.reviewer_id, revision.tender);
+      }
+    }
+
+    return first;
+  }
+
+  private reviewerStats(
+    examples: TrainingExample[],
+    complete: { example: TrainingExample; reads: Tender[] }[]
+  ): ReviewerStats[] {
+    const stats = new Map<string, ReviewerStats & { matches: number }>();
+    const statsFor = (reviewerId: string) => {
+      let entry = stats.get(reviewerId);
+      if (!entry) {
+        entry = {
+          reviewer_id: reviewerId,
+          validations: 0,
+          rejections: 0,
+          resolutions: 0,
+          compared_fields: 0,
+          accuracy: null,
+          matches: 0,
+        };
+        stats.set(reviewerId, entry);
+      }
+      return entry;
+    };
+
+    for (const example of examples) {
+      for (const revision of example.revisions || []) {
+        const entry = statsFor(revision.reviewer_id);
+        if (revision.kind === 'validation') entry.validations++;
+        if (revision.kind === 'rejection') entry.rejections++;
+        if (revision.kind === 'resolution') entry.resolutions++;
+      }
+    }
+
+    // Settled double-reviewed examples: did the reviewer's value become ground truth?
+    for (const { example, reads } of complete) {
+      const truth = example.manual_validation;
+      if (!truth) continue;
+
+      example.assigned_reviewers!.forEach((reviewer, i) => {
+        const entry = statsFor(reviewer);
+        for (const field of TENDER_FIELDS) {
+          entry.compared_fields++;
+          if (normalize(reads[i][field]) === normalize(truth[field])) entry.matches++;
+        }
+      });
+    }
+
+    return [...stats.values()]
+      .map(({ matches, ...entry }) => ({
+        ...entry,
+        accuracy: entry.compared_fields > 0 ? parseFloat((matches / entry.compared_fields).toFixed(3)) : null,
+      }))
+      .sort((a, b) => b.validations - a.validations);
+  }
+}
+
+/**
+ * Raw agreement and Fleiss' kappa of one field. Each item holds the values
+ * its reviewers gave.
+ */
+function fieldAgreement(items: string[][]): FieldAgreement {
+  if (items.length === 0) {
+    return { examples: 0, agreement: 0, kappa: null };
+  }
+
+  const categoryTotals = new Map<string, number>();
+  let ratings = 0;
+  let observed = 0;
+  let unanimous = 0;
+
+  for (const values of items) {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+      categoryTotals.set(value, (categoryTotals.get(value) || 0) + 1);
+    }
+
+    const n = values.length;
+    const agreeingPairs = [...counts.values()].reduce((sum, count) => sum + count * (count - 1), 0);
+    observed += agreeingPairs / (n * (n - 1));
+    ratings += n;
+    if (counts.size === 1) unanimous++;
+  }
+
+  observed /= items.length;
+  const expected = [...categoryTotals.values()].reduce((sum, count) => sum + (count / ratings) ** 2, 0);
+
+  return {
+    examples: items.length,
+    agreement: parseFloat((unanimous / items.length).toFixed(3)),
+    kappa: expected === 1 ? null : parseFloat(((observed - expected) / (1 - expected)).toFixed(3)),
+  };
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
+export default ReviewerAgreement;
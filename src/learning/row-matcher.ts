@@ -0,0 +1,110 @@
+/**
+ * ROW ALIGNMENT
+ * This module handles:
+ * - Lining up extracted rows with known (validated) rows of the same PDF
+ * - Detecting missed, invented and duplicated rows
+ */
+
+import { cleanText, calculateFieldConfidence } from '../utils/validation.js';
+import { RowAlignment, RowMatch, Tender } from '../types/index.js';
+
+// Weights of the identifying fields; they add up to 1
+const WEIGHTS = {
+  daftar: 0.4,
+  bil: 0.2,
+  kod_bidang: 0.1,
+  keterangan: 0.3,
+};
+
+export class RowMatcher {
+  private minScore: number;
+
+  constructor(minScore: number = 0.45) {
+    this.minScore = minScore;
+  }
+
+  /**
+   * Score how likely two rows describe the same tender (0-1)
+   */
+  score(extracted: Partial<Tender>, known: Partial<Tender>): number {
+    let score = 0;
+
+    if (extracted.daftar && known.daftar && this.normalize(extracted.daftar) === this.normalize(known.daftar)) {
+      score += WEIGHTS.daftar;
+    }
+
+    if (extracted.bil !== undefined && extracted.bil === known.bil) {
+      score += WEIGHTS.bil;
+    }
+
+    if (extracted.kod_bidang && extracted.kod_bidang === known.kod_bidang) {
+      score += WEIGHTS.kod_bidang;
+    }
+
+    if (extracted.keterangan && known.keterangan) {
+      score +=
+        WEIGHTS.keterangan *
+        calculateFieldConfidence(cleanText(extracted.keterangan), cleanText(known.keterangan));
+    }
+
+    return parseFloat(score.toFixed(3));
+  }
+
+  /**
+   * Align extracted rows with known rows one-to-one, best pairs first
+   */
+  align(extracted: Partial<Tender>[], known: Partial<Tender>[]): RowAlignment {
+    const pairs: RowMatch[] = [];
+
+    for (let e = 0; e < extracted.length; e++) {
+      for (let k = 0; k < known.length; k++) {
+        const score = this.score(extracted[e], known[k]);
+        if (score >= this.minScore) {
+          pairs.push({ extracted_index: e, known_index: k, score });
+        }
+      }
+    }
+
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matches: RowMatch[] = [];
+    const usedExtracted = new Set<number>();
+    const usedKnown = new Set<number>();
+
+    for (const pair of pairs) {
+      if (usedExtracted.has(pair.extracted_index) || usedKnown.has(pair.known_index)) continue;
+
+      matches.push(pair);
+      usedExtracted.add(pair.extracted_index);
+      usedKnown.add(pair.known_index);
+    }
+
+    // Unmatched extracted rows that resemble a matched known row are duplicates
+    const duplicates: number[] = [];
+    const invented: number[] = [];
+
+    for (let e = 0; e < extracted.length; e++) {
+      if (usedExtracted.has(e)) continue;
+
+      const repeatsMatchedRow = pairs.some(
+        (p) => p.extracted_index === e && usedKnown.has(p.known_index)
+      );
+      (repeatsMatchedRow ? duplicates : invented).push(e);
+    }
+
+    const missed = known.map((_, k) => k).filter((k) => !usedKnown.has(k));
+
+    return {
+      matches: matches.sort((a, b) => a.known_index - b.known_index),
+      missed,
+      invented,
+      duplicates,
+    };
+  }
+
+  private normalize(value: string): string {
+    return cleanText(value).toUpperCase().replace(/\s+/g, '');
+  }
+}
+
+export default RowMatcher;
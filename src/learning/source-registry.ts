@@ -0,0 +1,179 @@
+/**
+ * SOURCE REGISTRY
+ * This module handles:
+ * - Loading the tender portals to crawl from SOURCES_FILE
+ * - Per-source locations for behavior profiles, prompts and crawl manifests
+ * - Crawl schedules (which sources are due)
+ *
+ * Without a sources file the single GOV_WEBSITE_URL portal is used as the
+ * default source. The default source keeps the original MODELS_DIR and
+ * CRAWL_MANIFEST_FILE locations, so existing profiles, prompts and
+ * manifests carry over when a sources file is added.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import logger from '../utils/logger.js';
+import CrawlManifest from './crawl-manifest.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { ExtractionResult, Tender, TenderSource } from '../types/index.js';
+
+export const DEFAULT_SOURCE_ID = 'eperolehan';
+
+const sourcesSchema = z.object({
+  sources: z
+    .array(
+      z.object({
+        id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Source ID must be lowercase letters, digits and dashes'),
+        name: z.string().min(1),
+        url: z.string().url(),
+        enabled: z.boolean().default(true),
+        field_mapping: z
+          .record(z.enum(TENDER_FIELDS as [keyof Tender, ...(keyof Tender)[]]))
+          .default({}),
+        prompt_file: z.string().optional(),
+        schedule: z.object({ interval_hours: z.number().positive() }).optional(),
+      })
+    )
+    .min(1),
+});
+
+export class SourceRegistry {
+  private sourcesFile: string;
+  private modelsDir: string;
+  private manifestFile: string;
+  private sources: TenderSource[] = [];
+
+  constructor(
+    sourcesFile: string = process.env.SOURCES_FILE || './sources.json',
+    modelsDir: string = process.env.MODELS_DIR || './models',
+    manifestFile: string = process.env.CRAWL_MANIFEST_FILE || './storage/crawl-manifest.json'
+  ) {
+    this.sourcesFile = sourcesFile;
+    this.modelsDir = modelsDir;
+    this.manifestFile = manifestFile;
+  }
+
+  /**
+   * Load and validate the sources file, falling back to the GOV_WEBSITE_URL
+   * source when there is none
+   */
+  async load(): Promise<TenderSource[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.sourcesFile, 'utf-8');
+    } catch {
+      this.sources = [
+        {
+          id: DEFAULT_SOURCE_ID,
+          name: 'ePerolehan',
+          url: process.env.GOV_WEBSITE_URL || '',
+          enabled: true,
+          field_mapping: {},
+        },
+      ];
+      return this.sources;
+    }
+
+    const parsed = sourcesSchema.parse(JSON.parse(content));
+
+    const ids = parsed.sources.map((s) => s.id);
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw new Error(`Duplicate source IDs: ${[...new Set(duplicates)].join(', ')}`);
+    }
+
+    this.sources = parsed.sources;
+    logger.info('Sources loaded', { sources: ids });
+    return this.sources;
+  }
+
+  list(): TenderSource[] {
+    return this.sources;
+  }
+
+  /**
+   * Source by ID
+   */
+  get(id: string): TenderSource {
+    const source = this.sources.find((s) => s.id === id);
+    if (!source) {
+      throw new Error(`Unknown source: ${id} (available: ${this.sources.map((s) => s.id).join(', ')})`);
+    }
+    return source;
+  }
+
+  /**
+   * Source for a --source flag: the named one, else the first enabled source
+   */
+  resolve(id?: string): TenderSource {
+    if (id) return this.get(id);
+
+    const source = this.sources.find((s) => s.enabled);
+    if (!source) {
+      throw new Error('No enabled sources. Enable one in the sources file or pass --source.');
+    }
+    return source;
+  }
+
+  /**
+   * Models directory holding the source's behavior profiles and prompts
+   */
+  getModelsDir(source: TenderSource): string {
+    return source.id === DEFAULT_SOURCE_ID ? this.modelsDir : path.join(this.modelsDir, 'sources', source.id);
+  }
+
+  /**
+   * Crawl manifest file of the source
+   */
+  getManifestFile(source: TenderSource): string {
+    if (source.id === DEFAULT_SOURCE_ID) return this.manifestFile;
+
+    const ext = path.extname(this.manifestFile);
+    return path.join(
+      path.dirname(this.manifestFile),
+      `${path.basename(this.manifestFile, ext)}.${source.id}${ext}`
+    );
+  }
+
+  /**
+   * Prompt that seeds the source's prompt registry, if it has its own
+   */
+  async loadSeedPrompt(source: TenderSource): Promise<string | undefined> {
+    if (!source.prompt_file) return undefined;
+    return fs.readFile(source.prompt_file, 'utf-8');
+  }
+
+  /**
+   * When the source's last crawl completed, or null if it never did
+   */
+  async getLastCrawl(source: TenderSource): Promise<Date | null> {
+    return new CrawlManifest(this.getManifestFile(source)).getLastCompleted();
+  }
+
+  /**
+   * True when a scheduled, enabled source has not completed a crawl
+   * within its interval
+   */
+  async isDue(source: TenderSource, now: Date = new Date()): Promise<boolean> {
+    if (!source.enabled || !source.schedule) return false;
+
+    const lastCrawl = await this.getLastCrawl(source);
+    if (!lastCrawl) return true;
+
+    return now.getTime() - lastCrawl.getTime() >= source.schedule.interval_hours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Stamp extracted rows with the source they came from
+   */
+  static tagSource(extractions: ExtractionResult[], sourceId: string): ExtractionResult[] {
+    for (const extraction of extractions) {
+      extraction.tender.source_id = sourceId;
+    }
+    return extractions;
+  }
+}
+
+export default SourceRegistry;
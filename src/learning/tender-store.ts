@@ -0,0 +1,254 @@
+/**
+ * CANONICAL TENDER STORE
+ * This module handles:
+ * - One record per tender, keyed by source + DAFTAR + KOD BIDANG, so portals
+ *   sharing a registration number keep separate records
+ * - Merging repeated sightings, keeping the most confident value per field
+ *   within a crawl and the newer value across crawls
+ * - First/last seen timestamps and capture lineage
+ */
+
+import logger from '../utils/logger.js';
+import { DEFAULT_SOURCE_ID } from './source-registry.js';
+import { cleanText } from '../utils/validation.js';
+import { createStorage, StorageBackend } from '../storage/index.js';
+import { ExtractionResult, Tender, TenderRecord } from '../types/index.js';
+
+export interface MergeSummary {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  skipped: number; // Rows without a usable key
+}
+
+export class TenderStore {
+  private storage: StorageBackend;
+  private records: Map<string, TenderRecord> = new Map();
+  private dirty: Set<string> = new Set();
+  private replaced: Set<string> = new Set(); // Keys from before source IDs were part of keys
+
+  constructor(storage: StorageBackend = createStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Build the stable key of a tender, or null when DAFTAR is missing.
+   * Untagged tenders belong to the default source.
+   */
+  static keyFor(tender: Partial<Tender>): string | null {
+    if (!tender.daftar) return null;
+
+    return [
+      tender.source_id || DEFAULT_SOURCE_ID,
+      TenderStore.normalizeDaftar(tender.daftar),
+      TenderStore.normalizeKodBidang(tender.kod_bidang),
+    ].join('|');
+  }
+
+  /**
+   * Key prefix of every record of one DAFTAR on a source
+   */
+  static daftarPrefix(daftar: string, sourceId: string = DEFAULT_SOURCE_ID): string {
+    return `${sourceId}|${TenderStore.normalizeDaftar(daftar)}|`;
+  }
+
+  /**
+   * A key stored before source IDs were part of keys (DAFTAR|KOD BIDANG)
+   * as the key of the same tender on the given source
+   */
+  static upgradeKey(key: string, sourceId: string = DEFAULT_SOURCE_ID): string {
+    return key.split('|').length === 2 ? `${sourceId}|${key}` : key;
+  }
+
+  /**
+   * DAFTAR as used in keys: trimmed, upper case, no whitespace
+   */
+  static normalizeDaftar(daftar: string): string {
+    return cleanText(daftar).toUpperCase().replace(/\s+/g, '');
+  }
+
+  /**
+   * KOD BIDANG as used in keys: no whitespace, and an empty string however
+   * a missing code was read (undefined, null, blank or their spelled-out
+   * text), so such a tender keeps one key across crawls
+   */
+  static normalizeKodBidang(kodBidang: unknown): string {
+    if (kodBidang === undefined || kodBidang === null) return '';
+
+    const kod = String(kodBidang).replace(/\s+/g, '');
+    return ['undefined', 'null'].includes(kod.toLowerCase()) ? '' : kod;
+  }
+
+  /**
+   * Load records from storage
+   */
+  async load(): Promise<void> {
+    try {
+      const records = await this.storage.getTenders();
+      this.records = new Map();
+      this.dirty.clear();
+      this.replaced.clear();
+
+      for (const record of records) {
+        const key = TenderStore.upgradeKey(record.key, record.tender.source_id);
+        if (key !== record.key) {
+          this.replaced.add(record.key);
+          this.dirty.add(key);
+        }
+        this.records.set(key, { ...record, key });
+      }
+      logger.info('Tender store loaded', { records: this.records.size, rekeyed: this.replaced.size });
+    } catch (error) {
+      logger.warn('Failed to load tender store', { error });
+      this.records = new Map();
+      this.dirty.clear();
+      this.replaced.clear();
+    }
+  }
+
+  /**
+   * Write records touched since the last load or save
+   */
+  async save(): Promise<void> {
+    const changed = Array.from(this.dirty, (key) => this.records.get(key)!);
+    await this.storage.upsertTenders(changed);
+    if (this.replaced.size > 0) await this.storage.deleteTenders([...this.replaced]);
+    this.dirty.clear();
+    this.replaced.clear();
+    logger.info('Tender store saved', { records: this.records.size, written: changed.length });
+  }
+
+  /**
+   * Merge the rows extracted from one capture. With a crawl ID, the first
+   * sighting in a new crawl replaces the values from earlier crawls, so
+   * real changes on the website are not outvoted by older confidences.
+   */
+  merge(
+    extractions: ExtractionResult[],
+    captureId: string,
+    seenAt: Date = new Date(),
+    crawlId?: string
+  ): MergeSummary {
+    const summary: MergeSummary = { inserted: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+    for (const extraction of extractions) {
+      const key = TenderStore.keyFor(extraction.tender);
+      if (!key) {
+        summary.skipped++;
+        continue;
+      }
+
+      const existing = this.records.get(key);
+      this.dirty.add(key);
+
+      if (!existing) {
+        this.records.set(key, {
+          key,
+          tender: { ...extraction.tender },
+          field_confidence: this.confidenceOf(extraction),
+          first_seen: seenAt,
+          last_seen: seenAt,
+          capture_ids: [captureId],
+          last_crawl_id: crawlId,
+        });
+        summary.inserted++;
+        continue;
+      }
+
+      const newCrawl = crawlId !== undefined && existing.last_crawl_id !== crawlId;
+      const changed = this.mergeFields(existing, extraction, newCrawl);
+
+      existing.last_seen = seenAt;
+      if (crawlId !== undefined) {
+        existing.last_crawl_id = crawlId;
+      }
+      if (!existing.capture_ids.includes(captureId)) {
+        existing.capture_ids.push(captureId);
+      }
+
+      if (changed) {
+        summary.updated++;
+      } else {
+        summary.unchanged++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Get a record by key
+   */
+  get(key: string): TenderRecord | null {
+    return this.records.get(key) || null;
+  }
+
+  /**
+   * Get all records
+   */
+  list(): TenderRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Get records seen in any of the given captures
+   */
+  findByCaptureIds(captureIds: string[]): TenderRecord[] {
+    const ids = new Set(captureIds);
+    return this.list().filter((r) => r.capture_ids.some((id) => ids.has(id)));
+  }
+
+  /**
+   * Mark records as seen in a crawl without new rows, e.g. pages whose
+   * capture was reused because their content is unchanged
+   */
+  touch(captureIds: string[], crawlId: string, seenAt: Date = new Date()): void {
+    for (const record of this.findByCaptureIds(captureIds)) {
+      record.last_seen = seenAt;
+      record.last_crawl_id = crawlId;
+      this.dirty.add(record.key);
+    }
+  }
+
+  /**
+   * Keep the more confident value of each field, or every incoming value
+   * when replacing; returns true if any value was replaced
+   */
+  private mergeFields(
+    record: TenderRecord,
+    extraction: ExtractionResult,
+    replace: boolean = false
+  ): boolean {
+    const incoming = this.confidenceOf(extraction);
+    let changed = false;
+
+    for (const [field, value] of Object.entries(extraction.tender)) {
+      if (value === undefined || value === null) continue;
+
+      const key = field as keyof Tender;
+      const current = record.field_confidence[field] ?? -1;
+
+      if (replace || incoming[field] > current) {
+        if (record.tender[key] !== value) {
+          changed = true;
+        }
+        (record.tender as Record<string, unknown>)[key] = value;
+        record.field_confidence[field] = incoming[field];
+      }
+    }
+
+    return changed;
+  }
+
+  private confidenceOf(extraction: ExtractionResult): Record<string, number> {
+    const confidence: Record<string, number> = {};
+
+    for (const field of Object.keys(extraction.tender)) {
+      confidence[field] = extraction.confidence.per_field[field] ?? extraction.confidence.overall;
+    }
+
+    return confidence;
+  }
+}
+
+export default TenderStore;
@@ -0,0 +1,143 @@
+/**
+ * HELD-OUT TEST SET
+ * This module handles:
+ * - Freezing a stratified share of validated PDFs as the test set
+ * - Keeping those PDFs out of prompt training, calibration and few-shot pools
+ *
+ * Whole PDFs are held out, stratified by the most common kod_bidang prefix
+ * of their rows, so each category is tested in proportion. Which PDFs of a
+ * stratum are picked depends only on their paths. The set is stored in
+ * MODELS_DIR/eval/test-set.json and never changes until it is frozen again;
+ * rows validated later on a held-out PDF are held out too.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { sha256 } from '../utils/hash.js';
+import { TestSet, TrainingExample } from '../types/index.js';
+
+const KOD_PREFIX_LENGTH = 2;
+// Strata with fewer PDFs are pooled, so rounding does not leave them untested
+const MIN_STRATUM_PDFS = 3;
+const SMALL_STRATA = 'other';
+
+export class HeldOutSet {
+  private file: string;
+  private testSet: TestSet | null = null;
+  private pdfPaths = new Set<string>();
+
+  constructor(modelsDir: string = process.env.MODELS_DIR || './models') {
+    this.file = path.join(modelsDir, 'eval', 'test-set.json');
+  }
+
+  /**
+   * Load the frozen set; without one, nothing is held out
+   */
+  async load(): Promise<TestSet | null> {
+    try {
+      this.testSet = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+    } catch {
+      this.testSet = null;
+    }
+    this.pdfPaths = new Set(this.testSet?.pdf_paths || []);
+    return this.testSet;
+  }
+
+  getTestSet(): TestSet | null {
+    return this.testSet;
+  }
+
+  /**
+   * Hold out testShare of the PDFs behind the validated examples. Refuses to
+   * replace an existing set unless force is set.
+   */
+  async freeze(examples: TrainingExample[], testShare: number, force: boolean = false): Promise<TestSet> {
+    if (!force && (await this.load())) {
+      throw new Error(`A test set is already frozen in ${this.file}; freeze again with force to replace it`);
+    }
+
+    const validated = examples.filter((e) => e.manual_validation && !e.rejected_at);
+    const byPdf = new Map<string, TrainingExample[]>();
+    for (const example of validated) {
+      byPdf.set(example.pdf_path, [...(byPdf.get(example.pdf_path) || []), example]);
+    }
+
+    const strata = new Map<string, string[]>();
+    for (const [pdfPath, rows] of byPdf) {
+      const stratum = mainPrefix(rows);
+      strata.set(stratum, [...(strata.get(stratum) || []), pdfPath]);
+    }
+    for (const [stratum, pdfs] of [...strata]) {
+      if (pdfs.length < MIN_STRATUM_PDFS && stratum !== SMALL_STRATA) {
+        strata.delete(stratum);
+        strata.set(SMALL_STRATA, [...(strata.get(SMALL_STRATA) || []), ...pdfs]);
+      }
+    }
+
+    const testPdfs: string[] = [];
+    const summary: TestSet['strata'] = {};
+    for (const [stratum, pdfs] of [...strata].sort(([a], [b]) => a.localeCompare(b))) {
+      const ordered = [...pdfs].sort((a, b) => sha256(a).localeCompare(sha256(b)));
+      const picked = ordered.slice(0, Math.round(ordered.length * testShare));
+      testPdfs.push(...picked);
+      summary[stratum] = { pdfs: pdfs.length, test_pdfs: picked.length };
+    }
+
+    const held = new Set(testPdfs);
+    this.testSet = {
+      frozen_at: new Date(),
+      test_share: testShare,
+      pdf_paths: testPdfs.sort(),
+      example_ids: validated.filter((e) => held.has(e.pdf_path)).map((e) => e.id),
+      strata: summary,
+    };
+    this.pdfPaths = held;
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(this.testSet, null, 2));
+
+    logger.info('Test set frozen', {
+      file: this.file,
+      pdfs: this.testSet.pdf_paths.length,
+      examples: this.testSet.example_ids.length,
+    });
+
+    return this.testSet;
+  }
+
+  isHeldOut(example: TrainingExample): boolean {
+    return this.pdfPaths.has(example.pdf_path);
+  }
+
+  /**
+   * Examples that may be learned from: everything outside the test set
+   */
+  trainingExamples(examples: TrainingExample[]): TrainingExample[] {
+    return examples.filter((e) => !this.isHeldOut(e));
+  }
+
+  /**
+   * The frozen test rows that are still validated
+   */
+  testExamples(examples: TrainingExample[]): TrainingExample[] {
+    const ids = new Set(this.testSet?.example_ids || []);
+    return examples.filter((e) => ids.has(e.id) && e.manual_validation && !e.rejected_at);
+  }
+}
+
+/**
+ * The most common kod_bidang prefix of a PDF's rows
+ */
+function mainPrefix(rows: TrainingExample[]): string {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const prefix = row.manual_validation?.kod_bidang?.slice(0, KOD_PREFIX_LENGTH);
+    if (prefix) counts.set(prefix, (counts.get(prefix) || 0) + 1);
+  }
+
+  const [best] = [...counts].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+  return best ? best[0] : SMALL_STRATA;
+}
+
+export default HeldOutSet;
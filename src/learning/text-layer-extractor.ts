@@ -0,0 +1,160 @@
+/**
+ * TEXT LAYER EXTRACTION
+ * This module handles:
+ * - Reading the text layer of captured PDFs (pdf-parse)
+ * - Splitting the table text into rows using the learned column order
+ * - Scoring rows exactly like vision-model rows
+ *
+ * Deterministic and free, so the vision model is only needed for rows the
+ * text layer cannot read with enough confidence.
+ */
+
+import fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import logger from '../utils/logger.js';
+import { scoreTender } from '../utils/scoring.js';
+import { TENDER_FIELDS, mapColumns } from '../utils/field-mapping.js';
+import { ExtractionResult, Tender } from '../types/index.js';
+
+// A row starts with BIL followed by TARIKH, e.g. "12 03/07/2024"
+const ROW_START = /(?:^|\s)(\d{1,4})\s+(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})(?=\s|$)/g;
+const KOD_BIDANG = /(?:^|\s)(\d{6})(?=\s|$)/;
+const STATUS = /\b(Tidak Aktif|Aktif)\b/gi;
+
+// The part of the pdf.js page pdf-parse passes to pagerender that is read here
+interface TextLayerPage {
+  getTextContent(options: { normalizeWhitespace?: boolean }): Promise<{
+    items: { str: string; transform: number[] }[];
+  }>;
+}
+
+export class TextLayerExtractor {
+  private fieldOrder: (keyof Tender)[];
+
+  constructor(columns: string[] = [], fieldMapping: Record<string, keyof Tender> = {}) {
+    const mapped = mapColumns(columns, fieldMapping).filter((f): f is keyof Tender => f !== null);
+    this.fieldOrder = mapped.length >= 4 ? mapped : TENDER_FIELDS;
+  }
+
+  /**
+   * Extract rows from the PDF text layer
+   */
+  async extractFromPDF(pdfPath: string): Promise<ExtractionResult[]> {
+    try {
+      const pdfBuffer = await fs.readFile(pdfPath);
+      const parsed = await pdfParse(pdfBuffer, { pagerender: renderPageWithSpaces });
+      const rows = this.parseText(parsed.text);
+
+      logger.info('Text layer parsed', { path: pdfPath, rows: rows.length });
+      return rows;
+    } catch (error) {
+      logger.warn('Text layer extraction failed', { path: pdfPath, error });
+      return [];
+    }
+  }
+
+  /**
+   * Split table text into scored rows
+   */
+  parseText(text: string): ExtractionResult[] {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const starts = [...flat.matchAll(ROW_START)];
+    const results: ExtractionResult[] = [];
+
+    for (let i = 0; i < starts.length; i++) {
+      const match = starts[i];
+      const rowEnd = i + 1 < starts.length ? starts[i + 1].index! : flat.length;
+      const rest = flat.slice(match.index! + match[0].length, rowEnd).trim();
+
+      const [, bil, day, month, year] = match;
+      const row: Record<string, unknown> = {
+        bil: parseInt(bil),
+        tarikh: `${day.padStart(2, '0')}/${month.padStart(2, '0')}/${year}`,
+        ...this.parseCells(rest),
+      };
+
+      results.push(scoreTender(row));
+    }
+
+    return results;
+  }
+
+  /**
+   * Walk the remaining fields in column order. DAFTAR, KOD BIDANG and STATUS
+   * are anchored by their format; BIDANG and KETERANGAN take the free text
+   * between anchors.
+   */
+  private parseCells(rest: string): Record<string, string> {
+    const cells: Record<string, string> = {};
+    const fields = this.fieldOrder.filter((f) => f !== 'bil' && f !== 'tarikh');
+
+    let cursor = 0;
+    let pendingFreeField: keyof Tender | null = null;
+
+    const closeFreeField = (end: number) => {
+      if (pendingFreeField) {
+        cells[pendingFreeField] = rest.slice(cursor, end).trim();
+        pendingFreeField = null;
+      }
+    };
+
+    for (const field of fields) {
+      if (field === 'daftar') {
+        const token = rest.slice(cursor).match(/^\s*(\S+)/);
+        if (token) {
+          cells.daftar = token[1];
+          cursor += token[0].length;
+        }
+      } else if (field === 'kod_bidang') {
+        const kod = rest.slice(cursor).match(KOD_BIDANG);
+        if (kod) {
+          const kodStart = cursor + kod.index!;
+          closeFreeField(kodStart);
+          cells.kod_bidang = kod[1];
+          cursor = kodStart + kod[0].length;
+        }
+      } else if (field === 'status') {
+        const statuses = [...rest.slice(cursor).matchAll(STATUS)];
+        const last = statuses[statuses.length - 1];
+        if (last) {
+          const statusStart = cursor + last.index!;
+          closeFreeField(statusStart);
+          cells.status = /tidak/i.test(last[1]) ? 'Tidak Aktif' : 'Aktif';
+          cursor = statusStart + last[0].length;
+        }
+      } else if (!pendingFreeField) {
+        // Adjacent free-text fields cannot be separated; the first takes the text
+        pendingFreeField = field;
+      }
+    }
+
+    closeFreeField(rest.length);
+    return cells;
+  }
+}
+
+/**
+ * pdf-parse joins text items on the same line with no separator, which
+ * glues table cells together; join them with a space instead
+ */
+async function renderPageWithSpaces(pageData: TextLayerPage): Promise<string> {
+  const content = await pageData.getTextContent({ normalizeWhitespace: true });
+  let text = '';
+  let lastY: number | undefined;
+
+  for (const item of content.items) {
+    const y = item.transform[5];
+    if (lastY === undefined) {
+      text += item.str;
+    } else if (Math.abs(y - lastY) < 2) {
+      text += ' ' + item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = y;
+  }
+
+  return text;
+}
+
+export default TextLayerExtractor;
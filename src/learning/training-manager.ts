@@ -1,8 +1,9 @@
 /**
  * PHASE 4: TRAINING DATA MANAGEMENT
  * This module handles:
- * - Storage and retrieval of training examples
- * - Manual validation tracking
+ * - Storage and retrieval of training examples (filesystem or Postgres)
+ * - Manual validation tracking: attributed revisions, double review and
+ *   conflict resolution
  * - Learning iteration management
  * - Performance metrics
  */
@@ -11,56 +12,65 @@ import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger.js';
+import RowMatcher from './row-matcher.js';
+import HeldOutSet from './test-set.js';
+import { DEFAULT_SOURCE_ID } from './source-registry.js';
+import { cleanText } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { createStorage, StorageBackend } from '../storage/index.js';
 import {
+  CandidateExtraction,
   TrainingExample,
   LearningSession,
   LearningIteration,
   ExtractionResult,
   Tender,
   ScrapingMetrics,
+  PdfAlignmentReport,
+  FieldChange,
+  ValidationRevision,
 } from '../types/index.js';
 
+// Reviewer of validations made without one, e.g. from a shared terminal
+export const DEFAULT_REVIEWER_ID = process.env.REVIEWER_ID || 'unknown';
+
 export class TrainingDataManager {
+  private storage: StorageBackend;
   private trainingDir: string;
-  private metricsFile: string;
-  private sessionsFile: string;
-
-  constructor(trainingDir: string = process.env.TRAINING_DATA_DIR || './training_data') {
+  private rowMatcher: RowMatcher;
+  private sourceId?: string; // Only examples extracted from this source, when set
+
+  constructor(
+    storage: StorageBackend = createStorage(),
+    trainingDir: string = process.env.TRAINING_DATA_DIR || './training_data',
+    sourceId?: string
+  ) {
+    this.storage = storage;
     this.trainingDir = trainingDir;
-    this.metricsFile = path.join(trainingDir, 'metrics.json');
-    this.sessionsFile = path.join(trainingDir, 'sessions.json');
+    this.rowMatcher = new RowMatcher();
+    this.sourceId = sourceId;
   }
 
   /**
-   * Initialize training data directory
+   * Initialize the storage backend
    */
   async initialize(): Promise<void> {
     try {
-      await fs.mkdir(path.join(this.trainingDir, 'examples'), { recursive: true });
-      await fs.mkdir(path.join(this.trainingDir, 'validations'), { recursive: true });
-      await fs.mkdir(path.join(this.trainingDir, 'iterations'), { recursive: true });
-
-      // Create metrics file if doesn't exist
-      try {
-        await fs.access(this.metricsFile);
-      } catch {
-        await fs.writeFile(this.metricsFile, JSON.stringify([], null, 2));
-      }
-
-      // Create sessions file if doesn't exist
-      try {
-        await fs.access(this.sessionsFile);
-      } catch {
-        await fs.writeFile(this.sessionsFile, JSON.stringify([], null, 2));
-      }
-
-      logger.info('Training data manager initialized', { dir: this.trainingDir });
+      await this.storage.initialize();
+      logger.info('Training data manager initialized', { storage: this.storage.name });
     } catch (error) {
       logger.error('Failed to initialize training data', { error });
       throw error;
     }
   }
 
+  /**
+   * Release the storage backend
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
   /**
    * Save training example
    */
@@ -68,7 +78,8 @@ export class TrainingDataManager {
     pdfPath: string,
     pdfUrl: string,
     extraction: ExtractionResult[],
-    iteration: number
+    iteration: number,
+    screenshotPath?: string
   ): Promise<TrainingExample[]> {
     const examples: TrainingExample[] = [];
 
@@ -78,6 +89,7 @@ export class TrainingDataManager {
         id: exampleId,
         pdf_url: pdfUrl,
         pdf_path: pdfPath,
+        screenshot_path: screenshotPath,
         gemini_extraction: extraction[i],
         confidence_score: extraction[i].confidence.overall,
         is_validated: false,
@@ -85,8 +97,7 @@ export class TrainingDataManager {
         learning_iteration: iteration,
       };
 
-      const exampleFile = path.join(this.trainingDir, 'examples', `${exampleId}.json`);
-      await fs.writeFile(exampleFile, JSON.stringify(example, null, 2));
+      await this.storage.saveExample(example);
 
       examples.push(example);
       logger.info('Training example saved', { id: exampleId });
@@ -96,57 +107,349 @@ export class TrainingDataManager {
   }
 
   /**
-   * Save manual validation for example
+   * Record a reviewer's validation of an example. With a single reviewer it
+   * becomes ground truth at once; an example assigned to several reviewers
+   * waits until all of them have reviewed it, and only becomes ground truth
+   * if they agree on every field (else it waits for resolveConflict()).
    */
   async validateExample(
     exampleId: string,
-    validatedTender: Tender
+    validatedTender: Tender,
+    reviewerId: string = DEFAULT_REVIEWER_ID
+  ): Promise<TrainingExample> {
+    const example = await this.getExample(exampleId);
+    this.checkReviewer(example, reviewerId);
+
+    this.addRevision(example, reviewerId, 'validation', validatedTender);
+    return this.settle(example, reviewerId, validatedTender);
+  }
+
+  /**
+   * Settle an example whose assigned reviewers disagree
+   */
+  async resolveConflict(
+    exampleId: string,
+    resolvedTender: Tender,
+    reviewerId: string = DEFAULT_REVIEWER_ID
+  ): Promise<TrainingExample> {
+    const example = await this.getExample(exampleId);
+
+    if (!example.conflict_fields) {
+      throw new Error(`Example ${exampleId} has no conflict to resolve`);
+    }
+
+    this.addRevision(example, reviewerId, 'resolution', resolvedTender);
+    delete example.conflict_fields;
+    await this.setGroundTruth(example, resolvedTender);
+
+    logger.info('Conflict resolved', { id: exampleId, reviewer: reviewerId });
+    return example;
+  }
+
+  /**
+   * Settle an example whose assigned reviewers disagree by rejecting it
+   */
+  async rejectConflict(
+    exampleId: string,
+    reason?: string,
+    reviewerId: string = DEFAULT_REVIEWER_ID
   ): Promise<TrainingExample> {
-    const exampleFile = path.join(this.trainingDir, 'examples', `${exampleId}.json`);
+    const example = await this.getExample(exampleId);
+
+    if (!example.conflict_fields) {
+      throw new Error(`Example ${exampleId} has no conflict to resolve`);
+    }
+
+    this.addRevision(example, reviewerId, 'resolution', undefined, reason);
+    await this.markRejected(example, reason);
+
+    logger.info('Conflict resolved by rejection', { id: exampleId, reviewer: reviewerId, reason });
+    return example;
+  }
+
+  /**
+   * Record a reviewer's finding that an example is not a tender row (e.g. a
+   * header or a row the model invented). Like a validation, it is final with
+   * a single reviewer; with several, the example is rejected only when all
+   * of them reject it, and one validating it is a conflict on every field.
+   */
+  async rejectExample(
+    exampleId: string,
+    reason?: string,
+    reviewerId: string = DEFAULT_REVIEWER_ID
+  ): Promise<TrainingExample> {
+    const example = await this.getExample(exampleId);
+    this.checkReviewer(example, reviewerId);
+
+    this.addRevision(example, reviewerId, 'rejection', undefined, reason);
+    return this.settle(example, reviewerId, null, reason);
+  }
+
+  /**
+   * Assign an unvalidated example to reviewers for double review
+   */
+  async assignReviewers(exampleId: string, reviewers: string[]): Promise<TrainingExample> {
+    const example = await this.getExample(exampleId);
+
+    if (example.is_validated) {
+      throw new Error(`Example ${exampleId} is already reviewed`);
+    }
 
-    const content = await fs.readFile(exampleFile, 'utf-8');
-    const example: TrainingExample = JSON.parse(content);
+    example.assigned_reviewers = [...new Set(reviewers)];
+    await this.storage.saveExample(example);
+
+    logger.info('Reviewers assigned', { id: exampleId, reviewers: example.assigned_reviewers });
+    return example;
+  }
+
+  /**
+   * Examples whose assigned reviewers disagree, waiting for resolution
+   */
+  async getConflictedExamples(): Promise<TrainingExample[]> {
+    return (await this.getUnvalidatedExamples()).filter((example) => example.conflict_fields);
+  }
+
+  /**
+   * Examples waiting for this reviewer: not yet validated by them, not in
+   * conflict, and not assigned only to others
+   */
+  async getExamplesForReviewer(reviewerId: string): Promise<TrainingExample[]> {
+    return (await this.getUnvalidatedExamples()).filter(
+      (example) =>
+        !example.conflict_fields &&
+        !this.latestReads(example).has(reviewerId) &&
+        (!example.assigned_reviewers?.length || example.assigned_reviewers.includes(reviewerId))
+    );
+  }
+
+  /**
+   * Latest validation of each reviewer since the example's last resolution
+   */
+  latestValidations(example: TrainingExample): Map<string, Tender> {
+    const latest = new Map<string, Tender>();
+
+    for (const [reviewer, tender] of this.latestReads(example)) {
+      if (tender) latest.set(reviewer, tender);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Latest review of each reviewer since the example's last resolution: the
+   * validated tender, or null for a rejection
+   */
+  latestReads(example: TrainingExample): Map<string, Tender | null> {
+    const latest = new Map<string, Tender | null>();
+
+    for (const revision of example.revisions || []) {
+      if (revision.kind === 'resolution') latest.clear();
+      else if (revision.kind === 'rejection') latest.set(revision.reviewer_id, null);
+      else if (revision.tender) latest.set(revision.reviewer_id, revision.tender);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Only an assigned reviewer may review an example, and not while its
+   * reviews are in conflict
+   */
+  private checkReviewer(example: TrainingExample, reviewerId: string): void {
+    if (example.conflict_fields) {
+      throw new Error(`Example ${example.id} has conflicting reviews; resolve it instead`);
+    }
+
+    const assigned = example.assigned_reviewers || [];
+    if (assigned.length > 0 && !assigned.includes(reviewerId)) {
+      throw new Error(`Example ${example.id} is assigned to ${assigned.join(', ')}, not ${reviewerId}`);
+    }
+  }
+
+  /**
+   * Apply a reviewer's validation (tender) or rejection (null) once every
+   * assigned reviewer has reviewed the example
+   */
+  private async settle(
+    example: TrainingExample,
+    reviewerId: string,
+    tender: Tender | null,
+    reason?: string
+  ): Promise<TrainingExample> {
+    const assigned = example.assigned_reviewers || [];
+
+    if (assigned.length < 2) {
+      if (tender) await this.setGroundTruth(example, tender);
+      else await this.markRejected(example, reason);
+      logger.info(tender ? 'Example validated' : 'Example rejected', { id: example.id, reviewer: reviewerId, reason });
+      return example;
+    }
+
+    const latest = this.latestReads(example);
+    if (!assigned.every((reviewer) => latest.has(reviewer))) {
+      await this.storage.saveExample(example);
+      logger.info('Review recorded, waiting for the other reviewers', {
+        id: example.id,
+        reviewer: reviewerId,
+        pending: assigned.filter((reviewer) => !latest.has(reviewer)),
+      });
+      return example;
+    }
+
+    const reads = assigned.map((reviewer) => latest.get(reviewer) ?? null);
+    const tenders = reads.filter((read): read is Tender => read !== null);
+
+    if (tenders.length === 0) {
+      await this.markRejected(example, reason);
+      logger.info('Example rejected by all assigned reviewers', { id: example.id, reviewers: assigned });
+      return example;
+    }
 
-    example.manual_validation = validatedTender;
+    // A reviewer rejecting the row disputes every field of it
+    const conflicts =
+      tenders.length < reads.length
+        ? [...TENDER_FIELDS]
+        : TENDER_FIELDS.filter(
+            (field) => new Set(tenders.map((read) => normalizeValue(read[field]))).size > 1
+          );
+
+    if (conflicts.length > 0) {
+      example.conflict_fields = conflicts;
+      await this.storage.saveExample(example);
+      logger.warn('Reviewers disagree, example needs resolution', { id: example.id, fields: conflicts });
+      return example;
+    }
+
+    await this.setGroundTruth(example, tender ?? tenders[0]);
+    logger.info('Example validated by all assigned reviewers', { id: example.id, reviewers: assigned });
+    return example;
+  }
+
+  private async markRejected(example: TrainingExample, reason?: string): Promise<void> {
+    example.is_validated = true;
+    example.rejected_at = new Date();
+    example.rejection_reason = reason;
+    delete example.conflict_fields;
+
+    await this.storage.saveExample(example);
+  }
+
+  private addRevision(
+    example: TrainingExample,
+    reviewerId: string,
+    kind: ValidationRevision['kind'],
+    tender?: Tender,
+    reason?: string
+  ): void {
+    const previous: Partial<Tender> = example.manual_validation || example.gemini_extraction.tender;
+    const changes: FieldChange[] = tender
+      ? TENDER_FIELDS.filter((field) => normalizeValue(previous[field]) !== normalizeValue(tender[field])).map(
+          (field) => ({ field, before: previous[field] ?? null, after: tender[field] ?? null })
+        )
+      : [];
+
+    example.revisions = [
+      ...(example.revisions || []),
+      { id: uuidv4(), reviewer_id: reviewerId, kind, tender, changes, reason, created_at: new Date() },
+    ];
+  }
+
+  private async setGroundTruth(example: TrainingExample, tender: Tender): Promise<void> {
+    example.manual_validation = tender;
     example.is_validated = true;
     example.improved_at = new Date();
 
-    await fs.writeFile(exampleFile, JSON.stringify(example, null, 2));
+    await this.storage.saveExample(example);
 
     // Save validation separately for analysis
-    const validationFile = path.join(
-      this.trainingDir,
-      'validations',
-      `${exampleId}_validation.json`
-    );
-    await fs.writeFile(validationFile, JSON.stringify(validatedTender, null, 2));
+    await this.storage.saveValidation(example.id, tender);
+  }
+
+  /**
+   * Store a re-extraction as a candidate for an example
+   */
+  async addCandidateExtraction(
+    exampleId: string,
+    candidate: CandidateExtraction
+  ): Promise<TrainingExample> {
+    const example = await this.getExample(exampleId);
 
-    logger.info('Example validated', { id: exampleId });
+    example.candidate_extractions = [...(example.candidate_extractions || []), candidate];
+
+    await this.storage.saveExample(example);
+
+    logger.info('Candidate extraction saved', {
+      id: exampleId,
+      prompt_version: candidate.prompt_version,
+    });
     return example;
   }
 
   /**
-   * Get all unvalidated examples
+   * Get an example by ID
    */
-  async getUnvalidatedExamples(): Promise<TrainingExample[]> {
-    try {
-      const examplesDir = path.join(this.trainingDir, 'examples');
-      const files = await fs.readdir(examplesDir);
-
-      const examples: TrainingExample[] = [];
+  async getExample(exampleId: string): Promise<TrainingExample> {
+    const example = await this.storage.getExample(exampleId);
 
-      for (const file of files) {
-        if (!file.endsWith('.json')) continue;
+    if (!example) {
+      throw new Error(`Example not found: ${exampleId}`);
+    }
 
-        const content = await fs.readFile(path.join(examplesDir, file), 'utf-8');
-        const example: TrainingExample = JSON.parse(content);
+    return example;
+  }
 
-        if (!example.is_validated) {
-          examples.push(example);
-        }
+  /**
+   * Pick the extraction to score for an example: the latest candidate from
+   * the first prompt version that has one, else the original extraction
+   */
+  getExtractionForPrompt(
+    example: TrainingExample,
+    promptVersions: number[] = []
+  ): ExtractionResult {
+    for (const version of promptVersions) {
+      const candidates = (example.candidate_extractions || []).filter(
+        (c) => c.prompt_version === version
+      );
+      if (candidates.length > 0) {
+        return candidates[candidates.length - 1].extraction;
       }
+    }
+
+    return example.gemini_extraction;
+  }
+
+  /**
+   * Check if all critical fields match the manual validation
+   */
+  isCorrectExtraction(extracted: Partial<Tender>, validated: Tender): boolean {
+    return (
+      extracted.bil === validated.bil &&
+      extracted.tarikh === validated.tarikh &&
+      extracted.kod_bidang === validated.kod_bidang &&
+      extracted.status === validated.status
+    );
+  }
+
+  /**
+   * Get every example, reviewed or not
+   */
+  async getAllExamples(): Promise<TrainingExample[]> {
+    try {
+      return (await this.storage.listExamples()).filter((example) => this.inSource(example));
+    } catch (error) {
+      logger.error('Failed to list examples', { error });
+      return [];
+    }
+  }
 
-      return examples;
+  /**
+   * Get all unvalidated examples
+   */
+  async getUnvalidatedExamples(): Promise<TrainingExample[]> {
+    try {
+      return (await this.storage.listExamples({ validated: false })).filter((example) =>
+        this.inSource(example)
+      );
     } catch (error) {
       logger.error('Failed to get unvalidated examples', { error });
       return [];
@@ -154,25 +457,16 @@ export class TrainingDataManager {
   }
 
   /**
-   * Get all validated examples for current iteration
+   * Get all validated examples for current iteration (rejected ones excluded)
    */
   async getValidatedExamples(iteration?: number): Promise<TrainingExample[]> {
     try {
-      const examplesDir = path.join(this.trainingDir, 'examples');
-      const files = await fs.readdir(examplesDir);
-
-      const examples: TrainingExample[] = [];
-
-      for (const file of files) {
-        if (!file.endsWith('.json')) continue;
-
-        const content = await fs.readFile(path.join(examplesDir, file), 'utf-8');
-        const example: TrainingExample = JSON.parse(content);
-
-        if (example.is_validated && (!iteration || example.learning_iteration === iteration)) {
-          examples.push(example);
-        }
-      }
+      const examples = (await this.storage.listExamples({ validated: true })).filter(
+        (example) =>
+          this.inSource(example) &&
+          !example.rejected_at &&
+          (!iteration || example.learning_iteration === iteration)
+      );
 
       return examples.sort((a, b) => a.learning_iteration - b.learning_iteration);
     } catch (error) {
@@ -181,6 +475,15 @@ export class TrainingDataManager {
     }
   }
 
+  /**
+   * True when the example belongs to this manager's source. Examples
+   * saved before multi-source support belong to the default source.
+   */
+  private inSource(example: TrainingExample): boolean {
+    if (!this.sourceId) return true;
+    return (example.gemini_extraction.tender.source_id || DEFAULT_SOURCE_ID) === this.sourceId;
+  }
+
   /**
    * Create new learning session
    */
@@ -194,10 +497,7 @@ export class TrainingDataManager {
       iterations: [],
     };
 
-    const sessions = await this.getSessions();
-    sessions.push(session);
-
-    await fs.writeFile(this.sessionsFile, JSON.stringify(sessions, null, 2));
+    await this.storage.saveSession(session);
     logger.info('Learning session created', { id: session.id });
 
     return session;
@@ -207,12 +507,7 @@ export class TrainingDataManager {
    * Get all learning sessions
    */
   async getSessions(): Promise<LearningSession[]> {
-    try {
-      const content = await fs.readFile(this.sessionsFile, 'utf-8');
-      return JSON.parse(content);
-    } catch {
-      return [];
-    }
+    return this.storage.getSessions();
   }
 
   /**
@@ -222,17 +517,7 @@ export class TrainingDataManager {
     sessionId: string,
     iteration: LearningIteration
   ): Promise<LearningSession> {
-    const sessions = await this.getSessions();
-    const session = sessions.find((s) => s.id === sessionId);
-
-    if (!session) {
-      throw new Error(`Session not found: ${sessionId}`);
-    }
-
-    session.iterations.push(iteration);
-    session.validation_accuracy = iteration.accuracy_after;
-
-    await fs.writeFile(this.sessionsFile, JSON.stringify(sessions, null, 2));
+    const session = await this.storage.addIteration(sessionId, iteration);
     logger.info('Iteration added to session', {
       sessionId,
       iterationNumber: iteration.iteration_number,
@@ -247,15 +532,7 @@ export class TrainingDataManager {
    */
   async saveMetrics(metrics: ScrapingMetrics): Promise<void> {
     try {
-      const allMetrics = await this.getMetrics();
-      allMetrics.push(metrics);
-
-      // Keep only last 100 metrics to avoid file bloat
-      if (allMetrics.length > 100) {
-        allMetrics.splice(0, allMetrics.length - 100);
-      }
-
-      await fs.writeFile(this.metricsFile, JSON.stringify(allMetrics, null, 2));
+      await this.storage.appendMetrics(metrics);
       logger.info('Metrics saved', {
         accuracy: metrics.extraction_accuracy,
         successful: metrics.successfully_extracted,
@@ -270,42 +547,94 @@ export class TrainingDataManager {
    */
   async getMetrics(): Promise<ScrapingMetrics[]> {
     try {
-      const content = await fs.readFile(this.metricsFile, 'utf-8');
-      return JSON.parse(content);
+      return await this.storage.getMetrics();
     } catch {
       return [];
     }
   }
 
   /**
-   * Calculate accuracy improvement
+   * Align extracted rows with validated rows for every PDF, optionally
+   * using the candidate extractions of the given prompt versions.
+   *
+   * A PDF's extracted rows are those of the first listed prompt version
+   * that re-extracted it, else the original extraction of every reviewed
+   * row, rejected ones included. Validated rows that version did not
+   * return count as missed, and extracted rows matching no validated row
+   * as invented. Unreviewed rows are left out of both sides, and so are
+   * the PDFs of heldOut's frozen test set when one is given.
    */
-  async calculateAccuracy(): Promise<number> {
-    const validated = await this.getValidatedExamples();
+  async alignByPdf(
+    promptVersions: number[] = [],
+    heldOut: HeldOutSet | null = null
+  ): Promise<PdfAlignmentReport[]> {
+    const reviewed = (await this.getAllExamples()).filter(
+      (e) => (e.manual_validation || e.rejected_at) && !heldOut?.isHeldOut(e)
+    );
+    const byPdf = new Map<string, TrainingExample[]>();
 
-    if (validated.length === 0) return 0;
+    for (const example of reviewed) {
+      byPdf.set(example.pdf_path, [...(byPdf.get(example.pdf_path) || []), example]);
+    }
 
-    let correctCount = 0;
+    const reports: PdfAlignmentReport[] = [];
 
-    for (const example of validated) {
-      if (!example.manual_validation) continue;
+    for (const [pdfPath, examples] of byPdf) {
+      const known = examples.filter((e) => e.manual_validation && !e.rejected_at).map((e) => e.manual_validation!);
+      if (known.length === 0) continue;
 
-      // Check if all critical fields match
-      const extracted = example.gemini_extraction.tender;
-      const validated_ = example.manual_validation;
+      const extracted = this.extractedRows(examples, promptVersions);
+      const alignment = this.rowMatcher.align(extracted, known);
 
-      const fieldsMatch =
-        extracted.bil === validated_.bil &&
-        extracted.tarikh === validated_.tarikh &&
-        extracted.kod_bidang === validated_.kod_bidang &&
-        extracted.status === validated_.status;
+      reports.push({
+        pdf_path: pdfPath,
+        known_rows: known.length,
+        extracted_rows: extracted.length,
+        matched: alignment.matches.length,
+        correct: alignment.matches.filter((m) =>
+          this.isCorrectExtraction(extracted[m.extracted_index], known[m.known_index])
+        ).length,
+        missed: alignment.missed.length,
+        invented: alignment.invented.length,
+        duplicates: alignment.duplicates.length,
+      });
+    }
 
-      if (fieldsMatch) {
-        correctCount++;
-      }
+    return reports;
+  }
+
+  /**
+   * Rows extracted from one PDF by the first prompt version with candidate
+   * extractions there, or originally
+   */
+  private extractedRows(examples: TrainingExample[], promptVersions: number[]): Partial<Tender>[] {
+    for (const version of promptVersions) {
+      const rows = examples
+        .map((e) => (e.candidate_extractions || []).filter((c) => c.prompt_version === version).pop())
+        .filter((candidate): candidate is CandidateExtraction => candidate !== undefined)
+        .map((candidate) => candidate.extraction.tender);
+      if (rows.length > 0) return rows;
     }
 
-    const accuracy = (correctCount / validated.length) * 100;
+    return examples.map((e) => e.gemini_extraction.tender);
+  }
+
+  /**
+   * Calculate accuracy against manual validation, optionally scoring the
+   * candidate extractions of the given prompt versions (in preference order).
+   * Rows are aligned per PDF, so missed rows count as errors. This is
+   * in-sample: it includes the examples prompts were trained on. Pass
+   * heldOut to score the training set only; held-out accuracy comes from
+   * npm run eval (Evaluator).
+   */
+  async calculateAccuracy(promptVersions: number[] = [], heldOut: HeldOutSet | null = null): Promise<number> {
+    const reports = await this.alignByPdf(promptVersions, heldOut);
+    const knownRows = reports.reduce((sum, r) => sum + r.known_rows, 0);
+
+    if (knownRows === 0) return 0;
+
+    const correctCount = reports.reduce((sum, r) => sum + r.correct, 0);
+    const accuracy = (correctCount / knownRows) * 100;
     return parseFloat(accuracy.toFixed(2));
   }
 
@@ -317,6 +646,7 @@ export class TrainingDataManager {
       const validated = await this.getValidatedExamples();
       const unvalidated = await this.getUnvalidatedExamples();
       const accuracy = await this.calculateAccuracy();
+      const alignment = await this.alignByPdf();
       const metrics = await this.getMetrics();
       const sessions = await this.getSessions();
 
@@ -326,6 +656,12 @@ export class TrainingDataManager {
         validated_examples: validated.length,
         unvalidated_examples: unvalidated.length,
         extraction_accuracy_percentage: accuracy,
+        row_alignment: {
+          pdfs: alignment.length,
+          missed_rows: alignment.reduce((sum, r) => sum + r.missed, 0),
+          invented_rows: alignment.reduce((sum, r) => sum + r.invented, 0),
+          duplicate_rows: alignment.reduce((sum, r) => sum + r.duplicates, 0),
+        },
         learning_sessions: sessions.length,
         latest_session: sessions[sessions.length - 1] || null,
         latest_metrics: metrics[metrics.length - 1] || null,
@@ -334,6 +670,7 @@ export class TrainingDataManager {
           : '0',
       };
 
+      await fs.mkdir(this.trainingDir, { recursive: true });
       const reportFile = path.join(this.trainingDir, 'report.json');
       await fs.writeFile(reportFile, JSON.stringify(report, null, 2));
 
@@ -350,4 +687,9 @@ export class TrainingDataManager {
   }
 }
 
+function normalizeValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? cleanText(value).toLowerCase() : String(value);
+}
+
 export default TrainingDataManager;
@@ -0,0 +1,161 @@
+/**
+ * MODEL USAGE TRACKING
+ * This module handles:
+ * - Recording every model call with tokens, latency, model, prompt version and cost
+ * - Rolling calls up per run for ScrapingMetrics
+ * - Stopping a run before it spends more than MODEL_BUDGET_USD
+ */
+
+import { randomUUID } from 'crypto';
+import logger from '../utils/logger.js';
+import { StorageBackend } from '../storage/index.js';
+import { ModelCall, ScrapingMetrics, UsageSummary } from '../types/index.js';
+
+export interface UsageContext {
+  run_id: string;
+  session_id?: string;
+  source_id?: string;
+}
+
+export type ModelCallInput = Omit<ModelCall, 'id' | 'run_id' | 'session_id' | 'source_id' | 'called_at'>;
+
+export class BudgetExceededError extends Error {
+  readonly spentUsd: number;
+  readonly budgetUsd: number;
+
+  constructor(spentUsd: number, nextCallUsd: number, budgetUsd: number) {
+    super(
+      `Model budget of $${budgetUsd.toFixed(4)} would be exceeded: ` +
+        `$${spentUsd.toFixed(4)} spent, next call estimated at $${nextCallUsd.toFixed(4)}`
+    );
+    this.name = 'BudgetExceededError';
+    this.spentUsd = spentUsd;
+    this.budgetUsd = budgetUsd;
+  }
+}
+
+export class UsageTracker {
+  private storage: StorageBackend | null;
+  private context: UsageContext;
+  private budgetUsd: number;
+  private calls: ModelCall[] = [];
+
+  constructor(
+    storage: StorageBackend | null,
+    context: UsageContext,
+    budgetUsd: number = parseFloat(process.env.MODEL_BUDGET_USD || '0')
+  ) {
+    this.storage = storage;
+    this.context = context;
+    this.budgetUsd = budgetUsd;
+  }
+
+  /**
+   * Load the calls already made in this run, so a resumed run keeps
+   * counting against the same budget
+   */
+  async load(): Promise<void> {
+    if (!this.storage) return;
+
+    this.calls = await this.storage.getModelCalls({ runId: this.context.run_id });
+    if (this.calls.length > 0) {
+      logger.info('Model usage resumed', { run_id: this.context.run_id, ...this.getSummary() });
+    }
+  }
+
+  getContext(): UsageContext {
+    return this.context;
+  }
+
+  setSession(sessionId: string): void {
+    this.context = { ...this.context, session_id: sessionId };
+  }
+
+  /**
+   * Throw before a call that would take the run over budget. The next call
+   * is estimated from its prompt size or the average of earlier calls,
+   * whichever is higher. A budget of 0 means no cap.
+   */
+  checkBudget(estimatedCostUsd: number): void {
+    if (this.budgetUsd <= 0) return;
+
+    const summary = this.getSummary();
+    const average = summary.calls > 0 ? summary.cost_usd / summary.calls : 0;
+    const nextCall = Math.max(estimatedCostUsd, average);
+
+    if (summary.cost_usd + nextCall > this.budgetUsd) {
+      throw new BudgetExceededError(summary.cost_usd, nextCall, this.budgetUsd);
+    }
+  }
+
+  /**
+   * Record one model call
+   */
+  async record(input: ModelCallInput): Promise<ModelCall> {
+    const call: ModelCall = {
+      id: randomUUID(),
+      ...this.context,
+      ...input,
+      called_at: new Date(),
+    };
+
+    this.calls.push(call);
+
+    if (this.storage) {
+      try {
+        await this.storage.saveModelCall(call);
+      } catch (error) {
+        logger.warn('Failed to store model call', { error });
+      }
+    }
+
+    return call;
+  }
+
+  getCalls(): ModelCall[] {
+    return this.calls;
+  }
+
+  getSummary(): UsageSummary {
+    return UsageTracker.summarize(this.calls);
+  }
+
+  /**
+   * Usage fields of a ScrapingMetrics snapshot for this run
+   */
+  toMetrics(): Pick<
+    ScrapingMetrics,
+    'run_id' | 'session_id' | 'source_id' | 'model_calls' | 'prompt_tokens' | 'response_tokens' | 'estimated_cost_usd'
+  > {
+    const summary = this.getSummary();
+
+    return {
+      run_id: this.context.run_id,
+      session_id: this.context.session_id,
+      source_id: this.context.source_id,
+      model_calls: summary.calls,
+      prompt_tokens: summary.prompt_tokens,
+      response_tokens: summary.response_tokens,
+      estimated_cost_usd: parseFloat(summary.cost_usd.toFixed(6)),
+    };
+  }
+
+  /**
+   * Totals over a set of calls
+   */
+  static summarize(calls: ModelCall[]): UsageSummary {
+    return calls.reduce<UsageSummary>(
+      (summary, call) => ({
+        calls: summary.calls + 1,
+        failed_calls: summary.failed_calls + (call.success ? 0 : 1),
+        prompt_tokens: summary.prompt_tokens + call.prompt_tokens,
+        response_tokens: summary.response_tokens + call.response_tokens,
+        latency_ms: summary.latency_ms + call.latency_ms,
+        cost_usd: summary.cost_usd + call.cost_usd,
+      }),
+      { calls: 0, failed_calls: 0, prompt_tokens: 0, response_tokens: 0, latency_ms: 0, cost_usd: 0 }
+    );
+  }
+}
+
+export default UsageTracker;
@@ -62,6 +62,38 @@ export class WebsiteBehaviorLearner {
     }
   }
 
+  /**
+   * Read the live table headers without running the full learning pass
+   */
+  async probeColumns(): Promise<string[]> {
+    let browser: Browser | null = null;
+
+    try {
+      browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      });
+
+      const page = await browser.newPage();
+      await page.goto(this.baseUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+      await page.waitForSelector('table', { timeout: 10000 }).catch(() => {
+        logger.warn('No table found on page');
+      });
+
+      const tableInfo = await readTable(page);
+
+      await page.close();
+      return tableInfo?.columns || [];
+    } catch (error) {
+      logger.error('Column probe failed', { error });
+      throw error;
+    } finally {
+      if (browser) {
+        await browser.close();
+      }
+    }
+  }
+
   /**
    * Step 1: Detect pagination pattern
    */
@@ -120,25 +152,7 @@ export class WebsiteBehaviorLearner {
         logger.warn('No table found on page');
       });
 
-      const tableInfo = await page.evaluate(() => {
-        const table = document.querySelector('table');
-        if (!table) return null;
-
-        // Get all headers
-        const headers = Array.from(table.querySelectorAll('th')).map(
-          (th) => th.textContent?.trim() || ''
-        );
-
-        // Count rows (excluding header)
-        const bodyRows = table.querySelectorAll('tbody tr');
-        const rowCount = bodyRows.length;
-
-        return {
-          columns: headers,
-          rows_per_page: rowCount,
-          has_dynamic_content: false,
-        };
-      });
+      const tableInfo = await readTable(page);
 
       if (tableInfo) {
         this.behavior.table_structure = {
@@ -240,4 +254,29 @@ export class WebsiteBehaviorLearner {
   }
 }
 
+/**
+ * Headers and body row count of the document's first table. Learning and
+ * the column probe both read this table, so their fingerprints agree on
+ * pages with several tables.
+ */
+async function readTable(page: Page): Promise<{ columns: string[]; rows_per_page: number } | null> {
+  return page.evaluate(() => {
+    const table = document.querySelector('table');
+    if (!table) return null;
+
+    // Get all headers
+    const headers = Array.from(table.querySelectorAll('th')).map(
+      (th) => th.textContent?.trim() || ''
+    );
+
+    // Count rows (excluding header)
+    const bodyRows = table.querySelectorAll('tbody tr');
+
+    return {
+      columns: headers,
+      rows_per_page: bodyRows.length,
+    };
+  });
+}
+
 export default WebsiteBehaviorLearner;
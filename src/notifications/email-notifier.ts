@@ -0,0 +1,50 @@
+/**
+ * Email notifier: sends alerts over SMTP
+ *
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailNotifierConfig, Notifier } from './notifier.js';
+import { alertSubject, formatAlert } from './format.js';
+import { TenderAlert } from '../types/index.js';
+
+export class EmailNotifier implements Notifier {
+  readonly type = 'email';
+  readonly id: string;
+  private config: EmailNotifierConfig;
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(id: string, config: EmailNotifierConfig) {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST not provided');
+    }
+    if (config.to.length === 0) {
+      throw new Error(`Email notifier ${id} has no recipients`);
+    }
+
+    this.id = id;
+    this.config = config;
+    this.from = process.env.SMTP_FROM || 'tendermy@localhost';
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+        : undefined,
+    });
+  }
+
+  async send(alert: TenderAlert): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: this.config.to.join(', '),
+      subject: alertSubject(alert, this.config.subject_prefix),
+      text: formatAlert(alert),
+    });
+  }
+}
+
+export default EmailNotifier;
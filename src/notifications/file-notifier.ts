@@ -0,0 +1,34 @@
+/**
+ * File notifier: appends a plain-text digest of each alert to a file
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { FileNotifierConfig, Notifier } from './notifier.js';
+import { alertSubject, formatAlert } from './format.js';
+import { TenderAlert } from '../types/index.js';
+
+export class FileNotifier implements Notifier {
+  readonly type = 'file';
+  readonly id: string;
+  private config: FileNotifierConfig;
+
+  constructor(id: string, config: FileNotifierConfig) {
+    if (!config.path) {
+      throw new Error(`File notifier ${id} has no path`);
+    }
+
+    this.id = id;
+    this.config = config;
+  }
+
+  async send(alert: TenderAlert): Promise<void> {
+    await fs.mkdir(path.dirname(path.resolve(this.config.path)), { recursive: true });
+    await fs.appendFile(
+      this.config.path,
+      `=== ${alertSubject(alert)} ===\n${formatAlert(alert)}\n`
+    );
+  }
+}
+
+export default FileNotifier;
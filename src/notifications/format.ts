@@ -0,0 +1,39 @@
+/**
+ * Plain-text rendering of alerts for email bodies and file digests
+ */
+
+import { TenderAlert, TenderEvent } from '../types/index.js';
+
+const EVENT_LABELS: Record<TenderEvent['type'], string> = {
+  new: 'NEW',
+  modified: 'MODIFIED',
+  status_changed: 'STATUS',
+  disappeared: 'GONE',
+};
+
+export function alertSubject(alert: TenderAlert, prefix: string = '[TenderMY]'): string {
+  const count = alert.events.length;
+  return `${prefix} ${alert.rule.name}: ${count} tender${count === 1 ? '' : 's'}`;
+}
+
+export function formatAlert(alert: TenderAlert): string {
+  const lines = [
+    `${alert.rule.name} (${alert.rule.id}) - ${new Date(alert.generated_at).toISOString()}`,
+    '',
+  ];
+
+  for (const event of alert.events) {
+    const t = event.tender;
+    lines.push(`[${EVENT_LABELS[event.type]}] ${t.daftar || event.daftar}  ${t.kod_bidang || ''}  ${t.tarikh || ''}  ${t.status || ''}`);
+    if (t.bidang) lines.push(`  Bidang:     ${t.bidang}`);
+    if (t.keterangan) lines.push(`  Keterangan: ${t.keterangan}`);
+
+    for (const change of event.changes) {
+      lines.push(`  ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
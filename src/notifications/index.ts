@@ -0,0 +1,24 @@
+/**
+ * Notifier selection by the `type` of each entry in the subscriptions file
+ */
+
+import { Notifier, NotifierConfig } from './notifier.js';
+import EmailNotifier from './email-notifier.js';
+import WebhookNotifier from './webhook-notifier.js';
+import FileNotifier from './file-notifier.js';
+
+export * from './notifier.js';
+export { EmailNotifier, WebhookNotifier, FileNotifier };
+
+export function createNotifier(id: string, config: NotifierConfig): Notifier {
+  switch (config.type) {
+    case 'email':
+      return new EmailNotifier(id, config);
+    case 'webhook':
+      return new WebhookNotifier(id, config);
+    case 'file':
+      return new FileNotifier(id, config);
+    default:
+      throw new Error(`Unknown notifier type: ${(config as { type: string }).type}`);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Notifier interface: delivers one alert (a rule and its matching events)
+ */
+
+import { TenderAlert } from '../types/index.js';
+
+export interface EmailNotifierConfig {
+  type: 'email';
+  to: string[];
+  subject_prefix?: string;
+}
+
+export interface WebhookNotifierConfig {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface FileNotifierConfig {
+  type: 'file';
+  path: string; // Digest file, appended to on every alert
+}
+
+export type NotifierConfig = EmailNotifierConfig | WebhookNotifierConfig | FileNotifierConfig;
+
+export interface Notifier {
+  readonly id: string;
+  readonly type: NotifierConfig['type'];
+
+  send(alert: TenderAlert): Promise<void>;
+}
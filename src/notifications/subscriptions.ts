@@ -0,0 +1,212 @@
+/**
+ * SUBSCRIPTIONS
+ * This module handles:
+ * - Loading subscription rules and notifiers from SUBSCRIPTIONS_FILE
+ * - Matching change events against KOD BIDANG prefixes, keywords,
+ *   date windows and statuses
+ * - Sending one alert per rule through each of its notifiers
+ */
+
+import fs from 'fs/promises';
+import { z } from 'zod';
+import logger from '../utils/logger.js';
+import { createNotifier } from './index.js';
+import { Notifier, NotifierConfig } from './notifier.js';
+import { SubscriptionRule, TenderAlert, TenderEvent } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format');
+
+const subscriptionsSchema = z.object({
+  notifiers: z.record(
+    z.discriminatedUnion('type', [
+      z.object({
+        type: z.literal('email'),
+        to: z.array(z.string().email()).min(1),
+        subject_prefix: z.string().optional(),
+      }),
+      z.object({
+        type: z.literal('webhook'),
+        url: z.string().url(),
+        headers: z.record(z.string()).optional(),
+      }),
+      z.object({ type: z.literal('file'), path: z.string().min(1) }),
+    ])
+  ),
+  rules: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      kod_bidang_prefixes: z.array(z.string().regex(/^\d{1,6}$/)).default([]),
+      keywords: z.array(z.string()).default([]),
+      date_window: z
+        .object({
+          from: isoDate.optional(),
+          to: isoDate.optional(),
+          last_days: z.number().int().positive().optional(),
+        })
+        .optional(),
+      statuses: z.array(z.enum(['Aktif', 'Tidak Aktif'])).optional(),
+      event_types: z
+        .array(z.enum(['new', 'modified', 'status_changed', 'disappeared']))
+        .optional(),
+      notifiers: z.array(z.string()).min(1),
+    })
+  ),
+});
+
+export interface DispatchSummary {
+  events: number;
+  alerts: number; // Rules with at least one matching event
+  sent: number; // Successful notifier deliveries
+  failures: { rule_id: string; notifier_id: string; error: string }[];
+}
+
+export class SubscriptionManager {
+  private subscriptionsFile: string;
+  private rules: SubscriptionRule[] = [];
+  private notifierConfigs: Record<string, NotifierConfig> = {};
+  private notifiers: Map<string, Notifier> = new Map();
+
+  constructor(subscriptionsFile: string = process.env.SUBSCRIPTIONS_FILE || './subscriptions.json') {
+    this.subscriptionsFile = subscriptionsFile;
+  }
+
+  /**
+   * Load and validate the subscriptions file; returns false when there is none
+   */
+  async load(): Promise<boolean> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.subscriptionsFile, 'utf-8');
+    } catch {
+      this.rules = [];
+      this.notifierConfigs = {};
+      return false;
+    }
+
+    const parsed = subscriptionsSchema.parse(JSON.parse(content));
+
+    for (const rule of parsed.rules) {
+      const unknown = rule.notifiers.filter((id) => !parsed.notifiers[id]);
+      if (unknown.length > 0) {
+        throw new Error(`Rule ${rule.id} uses unknown notifiers: ${unknown.join(', ')}`);
+      }
+    }
+
+    this.rules = parsed.rules;
+    this.notifierConfigs = parsed.notifiers;
+    this.notifiers.clear();
+
+    logger.info('Subscriptions loaded', {
+      rules: this.rules.length,
+      notifiers: Object.keys(this.notifierConfigs).length,
+    });
+    return true;
+  }
+
+  getRules(): SubscriptionRule[] {
+    return this.rules;
+  }
+
+  getNotifierIds(): string[] {
+    return Object.keys(this.notifierConfigs);
+  }
+
+  /**
+   * Check an event against every condition of a rule
+   */
+  matches(rule: SubscriptionRule, event: TenderEvent, now: Date = new Date()): boolean {
+    const tender = event.tender;
+
+    if (!(rule.event_types || ['new']).includes(event.type)) return false;
+
+    if (
+      rule.kod_bidang_prefixes.length > 0 &&
+      !rule.kod_bidang_prefixes.some((prefix) => (tender.kod_bidang || '').startsWith(prefix))
+    ) {
+      return false;
+    }
+
+    if (rule.keywords.length > 0) {
+      const text = `${tender.bidang || ''} ${tender.keterangan || ''}`.toLowerCase();
+      if (!rule.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) return false;
+    }
+
+    if (rule.statuses && rule.statuses.length > 0) {
+      if (!tender.status || !rule.statuses.includes(tender.status)) return false;
+    }
+
+    if (rule.date_window) {
+      const { from, to, last_days } = rule.date_window;
+      if (!tender.tarikh) return false;
+      if (from && tender.tarikh < from) return false;
+      if (to && tender.tarikh > to) return false;
+      if (last_days) {
+        const earliest = new Date(now.getTime() - last_days * DAY_MS).toISOString().slice(0, 10);
+        if (tender.tarikh < earliest) return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Group events into one alert per rule that matched anything
+   */
+  buildAlerts(events: TenderEvent[], now: Date = new Date()): { rule: SubscriptionRule; alert: TenderAlert }[] {
+    return this.rules
+      .map((rule) => ({
+        rule,
+        alert: {
+          rule: { id: rule.id, name: rule.name },
+          events: events.filter((event) => this.matches(rule, event, now)),
+          generated_at: now,
+        },
+      }))
+      .filter(({ alert }) => alert.events.length > 0);
+  }
+
+  /**
+   * Send matching events through each rule's notifiers. A failing notifier
+   * is logged and reported but does not stop the others.
+   */
+  async dispatch(events: TenderEvent[]): Promise<DispatchSummary> {
+    const summary: DispatchSummary = { events: events.length, alerts: 0, sent: 0, failures: [] };
+
+    for (const { rule, alert } of this.buildAlerts(events)) {
+      summary.alerts++;
+
+      for (const notifierId of rule.notifiers) {
+        try {
+          await this.getNotifier(notifierId).send(alert);
+          summary.sent++;
+          logger.info('Alert sent', { rule: rule.id, notifier: notifierId, events: alert.events.length });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          summary.failures.push({ rule_id: rule.id, notifier_id: notifierId, error: message });
+          logger.error('Failed to send alert', { rule: rule.id, notifier: notifierId, error: message });
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Notifier by ID, created on first use
+   */
+  getNotifier(id: string): Notifier {
+    const config = this.notifierConfigs[id];
+    if (!config) {
+      throw new Error(`Unknown notifier: ${id}`);
+    }
+
+    if (!this.notifiers.has(id)) {
+      this.notifiers.set(id, createNotifier(id, config));
+    }
+    return this.notifiers.get(id)!;
+  }
+}
+
+export default SubscriptionManager;
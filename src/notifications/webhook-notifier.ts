@@ -0,0 +1,39 @@
+/**
+ * Webhook notifier: POSTs the alert as JSON
+ *
+ * Request body: { rule: { id, name }, events: TenderEvent[], generated_at }
+ */
+
+import axios from 'axios';
+import { Notifier, WebhookNotifierConfig } from './notifier.js';
+import { TenderAlert } from '../types/index.js';
+
+export class WebhookNotifier implements Notifier {
+  readonly type = 'webhook';
+  readonly id: string;
+  private config: WebhookNotifierConfig;
+  private timeoutMs: number;
+
+  constructor(
+    id: string,
+    config: WebhookNotifierConfig,
+    timeoutMs: number = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000')
+  ) {
+    if (!config.url) {
+      throw new Error(`Webhook notifier ${id} has no url`);
+    }
+
+    this.id = id;
+    this.config = config;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send(alert: TenderAlert): Promise<void> {
+    await axios.post(this.config.url, alert, {
+      headers: this.config.headers,
+      timeout: this.timeoutMs,
+    });
+  }
+}
+
+export default WebhookNotifier;
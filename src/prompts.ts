@@ -0,0 +1,202 @@
+/**
+ * PROMPT VERSIONS
+ * List, compare, promote and roll back extraction prompt versions
+ *
+ * Usage:
+ *   npm run prompts -- list
+ *   npm run prompts -- show <version>
+ *   npm run prompts -- compare <from> <to>
+ *   npm run prompts -- promote <version> [--force]
+ *   npm run prompts -- rollback
+ *
+ * Promotion replays both versions on the frozen test set (npm run eval) and
+ * fails when the version regresses on a critical field; --force skips the
+ * check.
+ *
+ * Add --source ID to work on another portal's prompts (see SOURCES_FILE).
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import SourceRegistry from './learning/source-registry.js';
+import HeldOutSet from './learning/test-set.js';
+import Evaluator from './learning/evaluator.js';
+import TrainingDataManager from './learning/training-manager.js';
+import { GateResult, PromptVersion, TenderSource } from './types/index.js';
+
+class PromptCommand {
+  private source: TenderSource;
+  private modelsDir: string;
+  private registry: PromptRegistry;
+
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.source = source;
+    this.modelsDir = sources.getModelsDir(source);
+    this.registry = new PromptRegistry(this.modelsDir);
+  }
+
+  async run(args: string[], force: boolean = false): Promise<void> {
+    const [command = 'list', ...rest] = args;
+
+    switch (command) {
+      case 'list':
+        return this.list();
+      case 'show':
+        return this.show(parseInt(rest[0]));
+      case 'compare':
+        return this.compare(parseInt(rest[0]), parseInt(rest[1]));
+      case 'promote':
+        return this.promote(parseInt(rest[0]), force);
+      case 'rollback': {
+        const restored = await this.registry.rollback();
+        console.log(`Rolled back to prompt v${restored.version}`);
+        return;
+      }
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: list, show <v>, compare <from> <to>, promote <v>, rollback');
+    }
+  }
+
+  /**
+   * Promote a version unless it regresses on the held-out test set
+   */
+  private async promote(version: number, force: boolean): Promise<void> {
+    const candidate = await this.registry.get(version);
+    const active = await this.registry.getActive();
+
+    if (!candidate) {
+      console.log(`Prompt version not found: v${version}`);
+      return;
+    }
+
+    if (!force && active && active.version !== candidate.version) {
+      const gate = await this.checkRegression(active, candidate);
+      if (gate && !gate.passed) {
+        console.log(`Not promoting v${candidate.version}: it regresses against v${active.version} on the test set`);
+        gate.reasons.forEach((reason) => console.log(`- ${reason}`));
+        console.log(`Details: npm run eval -- compare ${active.version} ${candidate.version}`);
+        console.log('Use --force to promote anyway');
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    const promoted = await this.registry.promote(candidate.version);
+    console.log(`Active prompt is now v${promoted.version}`);
+  }
+
+  /**
+   * Replay both versions on the frozen test set; null when there is none
+   */
+  private async checkRegression(active: PromptVersion, candidate: PromptVersion): Promise<GateResult | null> {
+    const heldOut = new HeldOutSet(this.modelsDir);
+    if (!(await heldOut.load())) {
+      console.log('No frozen test set (npm run eval -- freeze): promoting without a regression check');
+      return null;
+    }
+
+    const trainingManager = new TrainingDataManager(undefined, undefined, this.source.id);
+    try {
+      await trainingManager.initialize();
+      const testExamples = heldOut.testExamples(await trainingManager.getValidatedExamples());
+
+      const evaluator = new Evaluator();
+      const [baseline, report] = await evaluator.evaluate(
+        [active, candidate].map((promptVersion) => ({
+          label: `v${promptVersion.version}`,
+          prompt_version: promptVersion.version,
+          model: process.env.REPLAY_MODEL || null,
+          extractor: Evaluator.replayExtractor(promptVersion),
+        })),
+        testExamples
+      );
+      return evaluator.gate(baseline, report);
+    } finally {
+      await trainingManager.close();
+    }
+  }
+
+  /**
+   * List all prompt versions with lineage
+   */
+  private async list(): Promise<void> {
+    const versions = await this.registry.list();
+    const active = await this.registry.getActive();
+
+    if (versions.length === 0) {
+      console.log('No prompt versions stored. Run npm run learn or npm run train first.');
+      return;
+    }
+
+    console.log(`\n=== PROMPT VERSIONS: ${this.source.id} ===`);
+    for (const v of versions) {
+      const marker = active?.version === v.version ? '*' : ' ';
+      const accuracy = v.accuracy !== null ? `${v.accuracy}%` : 'n/a';
+      const parent = v.parent_version !== null ? `v${v.parent_version}` : '-';
+      console.log(
+        `${marker} v${v.version}  parent=${parent}  accuracy=${accuracy}  ` +
+          `patterns=[${v.failure_patterns.join(', ')}]  ${new Date(v.created_at).toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * Print a prompt version
+   */
+  private async show(version: number): Promise<void> {
+    const promptVersion = await this.registry.get(version);
+
+    if (!promptVersion) {
+      console.log(`Prompt version not found: v${version}`);
+      return;
+    }
+
+    console.log(`\n=== PROMPT v${promptVersion.version} ===`);
+    console.log(promptVersion.prompt);
+  }
+
+  /**
+   * Compare two prompt versions
+   */
+  private async compare(from: number, to: number): Promise<void> {
+    const comparison = await this.registry.compare(from, to);
+
+    console.log(`\n=== PROMPT v${from} → v${to} ===`);
+    console.log(
+      `Accuracy: ${comparison.from.accuracy ?? 'n/a'}% → ${comparison.to.accuracy ?? 'n/a'}%` +
+        (comparison.accuracy_delta !== null ? ` (${comparison.accuracy_delta >= 0 ? '+' : ''}${comparison.accuracy_delta}%)` : '')
+    );
+
+    if (comparison.patterns_added.length > 0) {
+      console.log(`Failure patterns added: ${comparison.patterns_added.join(', ')}`);
+    }
+    if (comparison.patterns_removed.length > 0) {
+      console.log(`Failure patterns removed: ${comparison.patterns_removed.join(', ')}`);
+    }
+
+    comparison.lines_removed.forEach((line) => console.log(`- ${line}`));
+    comparison.lines_added.forEach((line) => console.log(`+ ${line}`));
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    force: { type: 'boolean', default: false },
+  },
+});
+
+// Run command
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new PromptCommand(sources, sources.resolve(values.source as string | undefined)))
+  .then((promptCommand) => promptCommand.run(positionals, values.force as boolean))
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,7 @@
+/**
+ * QUEUE
+ * Distributed capture -> extract -> persist pipeline on Bull/Redis
+ */
+
+export * from './queues.js';
+export { JobProcessors } from './processors.js';
@@ -0,0 +1,324 @@
+/**
+ * JOB PROCESSORS
+ * This module handles:
+ * - capture: render one results page to PDF, then queue its extraction
+ * - extract: text layer / vision extraction of one capture, then queue persistence;
+ *   model calls count against the run's budget across all workers; with
+ *   EXTRACTION_VOTES > 1 the vision model is asked that many times and voted on
+ * - persist: merge the rows into the canonical tender store under the run's
+ *   crawl ID; disputed voted rows are saved as unvalidated training examples
+ *   for review instead. Persist jobs hold a Redis lock, so workers never
+ *   overwrite each other's store writes. Once every page of a run is
+ *   persisted, the crawl is compared with the previous one and alerted on,
+ *   as npm run extract does (CrawlChanges).
+ */
+
+import { Job } from 'bull';
+import logger from '../utils/logger.js';
+import PDFCapture from '../learning/pdf-capture.js';
+import GeminiExtractor, { VotingOptions } from '../learning/gemini-extractor.js';
+import PageExtractor from '../learning/page-extractor.js';
+import PassVoter from '../learning/pass-voter.js';
+import TrainingDataManager from '../learning/training-manager.js';
+import ConfidenceCalibrator from '../learning/confidence-calibrator.js';
+import FewShotPromptBuilder, { FEW_SHOT_EXAMPLES } from '../learning/few-shot-builder.js';
+import HeldOutSet from '../learning/test-set.js';
+import TextLayerExtractor from '../learning/text-layer-extractor.js';
+import PromptRegistry from '../learning/prompt-registry.js';
+import SourceRegistry from '../learning/source-registry.js';
+import UsageTracker, { BudgetExceededError } from '../learning/usage-tracker.js';
+import TenderStore, { MergeSummary } from '../learning/tender-store.js';
+import CrawlChanges from '../learning/crawl-changes.js';
+import { createStorage, StorageBackend } from '../storage/index.js';
+import { TenderSource } from '../types/index.js';
+import {
+  CaptureJobData,
+  CrawlInfo,
+  ExtractJobData,
+  PersistJobData,
+  TenderQueues,
+  createCallRateLimiter,
+  recordPersistedPage,
+  withPersistLock,
+} from './queues.js';
+
+export class JobProcessors {
+  private queues: TenderQueues;
+  private pdfCapture: PDFCapture | null = null;
+  private sources: SourceRegistry;
+  private sourcesLoaded: boolean = false;
+  private extractors: Map<string, { run_id: string; extractor: GeminiExtractor }> = new Map(); // Per source, per crawl
+  private calibrators: Map<string, ConfidenceCalibrator> = new Map();
+  private storage: StorageBackend | null = null;
+  private voting: VotingOptions | undefined;
+
+  constructor(queues: TenderQueues, sources: SourceRegistry = new SourceRegistry()) {
+    this.queues = queues;
+    this.sources = sources;
+
+    const votes = parseInt(process.env.EXTRACTION_VOTES || '1');
+    this.voting =
+      votes > 1
+        ? {
+            passes: votes,
+            temperatures: (process.env.EXTRACTION_VOTE_TEMPERATURES || '')
+              .split(',')
+              .filter((t) => t.trim().length > 0)
+              .map((t) => parseFloat(t)),
+          }
+        : undefined;
+  }
+
+  /**
+   * Capture one page and queue its extraction
+   */
+  async capture(job: Job<CaptureJobData>): Promise<{ capture_id: string }> {
+    const pdfCapture = await this.getPdfCapture();
+    await job.progress(10);
+
+    const capture = await pdfCapture.capturePDF(job.data.url, job.data.page_number);
+    await job.progress(90);
+
+    await this.queues.extract.add(
+      {
+        run_id: job.data.run_id,
+        source_id: job.data.source_id,
+        capture_id: capture.id,
+        url: capture.url,
+        page_number: job.data.page_number,
+        pdf_path: capture.pdf_path,
+        screenshot_path: capture.screenshot_path,
+        columns: job.data.columns,
+        crawl: job.data.crawl,
+      },
+      { jobId: `${job.data.run_id}:extract:${job.data.page_number}` }
+    );
+    await job.progress(100);
+
+    return { capture_id: capture.id };
+  }
+
+  /**
+   * Extract one capture and queue its persistence
+   */
+  async extract(job: Job<ExtractJobData>): Promise<{ tenders: number; model_called: boolean }> {
+    const source = await this.getSource(job.data.source_id);
+    const extractor = await this.getExtractor(source, job.data.run_id, job.data.columns);
+    const pageExtractor = new PageExtractor(
+      extractor,
+      job.data.columns,
+      undefined,
+      source.field_mapping,
+      await this.getCalibrator(source.id)
+    );
+    await job.progress(10);
+
+    // Calls already stored for the run, by any worker, count against the budget
+    const usageTracker = new UsageTracker(await this.getStorage(), {
+      run_id: job.data.run_id,
+      source_id: source.id,
+    });
+    await usageTracker.load();
+
+    let result;
+    try {
+      result = await pageExtractor.extractPage(job.data.pdf_path, { usageTracker, voting: this.voting });
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        // Retrying cannot help; dead-letter it for retry-dead after raising the budget
+        job.discard();
+      }
+      throw error;
+    }
+    await job.progress(90);
+
+    await this.queues.persist.add(
+      {
+        run_id: job.data.run_id,
+        source_id: job.data.source_id,
+        capture_id: job.data.capture_id,
+        url: job.data.url,
+        page_number: job.data.page_number,
+        pdf_path: job.data.pdf_path,
+        screenshot_path: job.data.screenshot_path,
+        extractions: result.extractions,
+        model_called: result.model_called,
+        crawl: job.data.crawl,
+      },
+      { jobId: `${job.data.run_id}:persist:${job.data.page_number}` }
+    );
+    await job.progress(100);
+
+    logger.info('Extracted from PDF', {
+      page: job.data.page_number,
+      tenders_found: result.extractions.length,
+      text_layer_rows: result.text_layer_rows,
+    });
+
+    return { tenders: result.extractions.length, model_called: result.model_called };
+  }
+
+  /**
+   * Merge one capture's rows into the tender store, and finish the crawl
+   * after its last page. The store is reloaded under the persist lock, so
+   * workers build on each other's writes.
+   */
+  async persist(job: Job<PersistJobData>): Promise<MergeSummary> {
+    return withPersistLock(this.queues.persist, () => this.persistPage(job));
+  }
+
+  private async persistPage(job: Job<PersistJobData>): Promise<MergeSummary> {
+    const storage = await this.getStorage();
+    const tenderStore = new TenderStore(storage);
+
+    await tenderStore.load();
+    const extractions = SourceRegistry.tagSource(job.data.extractions, job.data.source_id);
+
+    // Disputed rows are not trusted: they wait for manual review
+    const disputed = extractions.filter((e) => PassVoter.isDisputed(e));
+    if (disputed.length > 0) {
+      await new TrainingDataManager(storage).saveTrainingExample(
+        job.data.pdf_path,
+        job.data.url,
+        disputed,
+        0,
+        job.data.screenshot_path
+      );
+      logger.warn('Disputed rows sent to manual review', { page: job.data.page_number, rows: disputed.length });
+    }
+
+    const summary = tenderStore.merge(
+      extractions.filter((e) => !PassVoter.isDisputed(e)),
+      job.data.capture_id,
+      new Date(),
+      job.data.run_id
+    );
+    await tenderStore.save();
+    await job.progress(90);
+
+    if (job.data.crawl) {
+      const captureIds = await recordPersistedPage(
+        this.queues.persist,
+        job.data.run_id,
+        job.data.page_number,
+        job.data.capture_id
+      );
+      if (captureIds.length >= job.data.crawl.pages) {
+        await this.finishCrawl(job.data, job.data.crawl, tenderStore, captureIds);
+      }
+    }
+    await job.progress(100);
+
+    return summary;
+  }
+
+  /**
+   * Detect the changes of a run whose pages are all persisted, and alert on
+   * them. Finishing again, e.g. after a retried page, reports no event twice.
+   */
+  private async finishCrawl(
+    data: PersistJobData,
+    crawl: CrawlInfo,
+    tenderStore: TenderStore,
+    captureIds: string[]
+  ): Promise<void> {
+    const crawlChanges = new CrawlChanges(await this.getStorage());
+    const events = await crawlChanges.detect(
+      data.run_id,
+      tenderStore.findByCaptureIds(captureIds),
+      crawl.complete,
+      data.source_id
+    );
+
+    const alerts = crawl.alerts ? await crawlChanges.alert(events) : null;
+    logger.info('Queued crawl finished', {
+      run_id: data.run_id,
+      source: data.source_id,
+      pages: captureIds.length,
+      events: events.length,
+      alerts_sent: alerts?.sent ?? 0,
+    });
+  }
+
+  /**
+   * Release the browser and storage
+   */
+  async close(): Promise<void> {
+    if (this.pdfCapture) {
+      await this.pdfCapture.close();
+    }
+    if (this.storage) {
+      await this.storage.close();
+    }
+  }
+
+  private async getPdfCapture(): Promise<PDFCapture> {
+    if (!this.pdfCapture) {
+      this.pdfCapture = new PDFCapture();
+      await this.pdfCapture.initialize();
+      await this.pdfCapture.launchBrowser();
+    }
+    return this.pdfCapture;
+  }
+
+  private async getSource(sourceId: string): Promise<TenderSource> {
+    if (!this.sourcesLoaded) {
+      await this.sources.load();
+      this.sourcesLoaded = true;
+    }
+    return this.sources.get(sourceId);
+  }
+
+  /**
+   * Extractor set up as npm run extract sets it up: the active prompt and
+   * few-shot examples read with the crawl's columns, so both paths send the
+   * same prompt for a page. Rebuilt for each crawl to pick up newly
+   * validated examples.
+   */
+  private async getExtractor(source: TenderSource, runId: string, columns: string[]): Promise<GeminiExtractor> {
+    const cached = this.extractors.get(source.id);
+    if (cached?.run_id === runId) return cached.extractor;
+
+    const extractor = new GeminiExtractor();
+    extractor.setRateLimiter(createCallRateLimiter(this.queues.extract));
+    await extractor.loadActivePrompt(
+      new PromptRegistry(this.sources.getModelsDir(source)),
+      await this.sources.loadSeedPrompt(source)
+    );
+    if (FEW_SHOT_EXAMPLES > 0) {
+      const trainingManager = new TrainingDataManager(await this.getStorage(), undefined, source.id);
+      const heldOut = new HeldOutSet(this.sources.getModelsDir(source));
+      await heldOut.load();
+      extractor.setFewShot(
+        new FewShotPromptBuilder(
+          heldOut.trainingExamples(await trainingManager.getValidatedExamples()),
+          FEW_SHOT_EXAMPLES,
+          undefined,
+          new TextLayerExtractor(columns, source.field_mapping)
+        )
+      );
+    }
+
+    this.extractors.set(source.id, { run_id: runId, extractor });
+    return extractor;
+  }
+
+  private async getCalibrator(sourceId: string): Promise<ConfidenceCalibrator> {
+    if (!this.calibrators.has(sourceId)) {
+      const calibrator = new ConfidenceCalibrator(this.sources.getModelsDir(await this.getSource(sourceId)));
+      await calibrator.load();
+      this.calibrators.set(sourceId, calibrator);
+    }
+    return this.calibrators.get(sourceId)!;
+  }
+
+  private async getStorage(): Promise<StorageBackend> {
+    if (!this.storage) {
+      this.storage = createStorage();
+      await this.storage.initialize();
+    }
+    return this.storage;
+  }
+}
+
+export default JobProcessors;
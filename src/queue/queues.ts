@@ -0,0 +1,225 @@
+/**
+ * JOB QUEUES
+ * This module handles:
+ * - Capture, extract and persist queues on REDIS_URL
+ * - Retries driven by MAX_RETRIES with exponential backoff
+ * - Rate limits enforced in Redis, so they hold across all workers: capture
+ *   jobs per DELAY_BETWEEN_REQUESTS, model calls per minute
+ * - A Redis lock serializing persist jobs, and the pages each run has persisted
+ * - Moving jobs that exhausted their retries (or hit the model budget) to
+ *   the dead-letter queue
+ */
+
+import Bull, { Job, Queue } from 'bull';
+import { randomUUID } from 'crypto';
+import logger from '../utils/logger.js';
+import { CallRateLimiter } from '../learning/gemini-extractor.js';
+import { BudgetExceededError } from '../learning/usage-tracker.js';
+import { ExtractionResult } from '../types/index.js';
+
+export const QUEUE_NAMES = {
+  capture: 'tender-capture',
+  extract: 'tender-extract',
+  persist: 'tender-persist',
+  deadLetter: 'tender-dead-letter',
+} as const;
+
+export type StageName = 'capture' | 'extract' | 'persist';
+
+// Held while one persist job loads, merges and saves the tender store
+const PERSIST_LOCK_KEY = `${QUEUE_NAMES.persist}:lock`;
+const PERSIST_LOCK_TTL_MS = 5 * 60 * 1000;
+const PERSIST_LOCK_POLL_MS = 200;
+// How long the persisted pages of a run are remembered
+const RUN_PAGES_TTL_S = 7 * 24 * 60 * 60;
+
+/**
+ * The crawl a page belongs to; its run_id is the crawl ID
+ */
+export interface CrawlInfo {
+  pages: number; // Pages enqueued; the crawl finishes when all are persisted
+  complete: boolean; // Covers every page of the source, so absent tenders disappeared
+  alerts: boolean; // Send the crawl's change events to subscriptions
+}
+
+export interface CaptureJobData {
+  run_id: string;
+  source_id: string;
+  url: string;
+  page_number: number;
+  columns: string[]; // Learned table columns, for the text layer
+  crawl?: CrawlInfo; // Missing on jobs queued before crawls were finished by the queue
+}
+
+export interface ExtractJobData {
+  run_id: string;
+  source_id: string;
+  capture_id: string;
+  url: string;
+  page_number: number;
+  pdf_path: string;
+  screenshot_path?: string;
+  columns: string[];
+  crawl?: CrawlInfo;
+}
+
+export interface PersistJobData {
+  run_id: string;
+  source_id: string;
+  capture_id: string;
+  url: string;
+  page_number: number;
+  pdf_path: string;
+  screenshot_path?: string; // Shown next to disputed rows in the review console
+  extractions: ExtractionResult[];
+  model_called: boolean;
+  crawl?: CrawlInfo;
+}
+
+export interface DeadLetterJobData {
+  queue: StageName;
+  job_id: string;
+  data: CaptureJobData | ExtractJobData | PersistJobData;
+  failed_reason: string;
+  attempts_made: number;
+  failed_at: Date;
+}
+
+export interface TenderQueues {
+  capture: Queue<CaptureJobData>;
+  extract: Queue<ExtractJobData>;
+  persist: Queue<PersistJobData>;
+  deadLetter: Queue<DeadLetterJobData>;
+}
+
+/**
+ * Open all queues. Capture is limited to one page per
+ * DELAY_BETWEEN_REQUESTS against the website; model calls are limited by
+ * createCallRateLimiter, since one extract job may make none or several.
+ */
+export function createQueues(redisUrl: string = process.env.REDIS_URL || 'redis://localhost:6379'): TenderQueues {
+  const delay = parseInt(process.env.DELAY_BETWEEN_REQUESTS || '3000');
+  const defaultJobOptions: Bull.JobOptions = {
+    attempts: parseInt(process.env.MAX_RETRIES || '3'),
+    backoff: { type: 'exponential', delay },
+    removeOnComplete: 1000,
+    removeOnFail: false,
+  };
+
+  return {
+    capture: new Bull<CaptureJobData>(QUEUE_NAMES.capture, redisUrl, {
+      defaultJobOptions,
+      limiter: { max: 1, duration: delay },
+    }),
+    extract: new Bull<ExtractJobData>(QUEUE_NAMES.extract, redisUrl, { defaultJobOptions }),
+    persist: new Bull<PersistJobData>(QUEUE_NAMES.persist, redisUrl, { defaultJobOptions }),
+    deadLetter: new Bull<DeadLetterJobData>(QUEUE_NAMES.deadLetter, redisUrl),
+  };
+}
+
+/**
+ * Limit model calls to max per duration across all workers, counted in
+ * fixed windows in Redis. Voting passes and correction retries each count.
+ */
+export function createCallRateLimiter(
+  queue: Queue<ExtractJobData>,
+  max: number = parseInt(process.env.QUEUE_EXTRACT_RATE_PER_MINUTE || '15'),
+  duration: number = 60000
+): CallRateLimiter {
+  return {
+    async acquire(): Promise<void> {
+      for (;;) {
+        const window = Math.floor(Date.now() / duration);
+        const key = `${QUEUE_NAMES.extract}:calls:${window}`;
+        const calls = await queue.client.incr(key);
+        if (calls === 1) await queue.client.pexpire(key, duration * 2);
+        if (calls <= max) return;
+
+        await sleep((window + 1) * duration - Date.now());
+      }
+    },
+  };
+}
+
+/**
+ * Run fn holding the persist lock, so workers persist one page at a time.
+ * Gives up (and the job is retried) when the lock is not free within its TTL.
+ */
+export async function withPersistLock<T>(queue: Queue<PersistJobData>, fn: () => Promise<T>): Promise<T> {
+  const token = randomUUID();
+  const deadline = Date.now() + PERSIST_LOCK_TTL_MS;
+
+  while ((await queue.client.set(PERSIST_LOCK_KEY, token, 'PX', PERSIST_LOCK_TTL_MS, 'NX')) !== 'OK') {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the persist lock');
+    }
+    await sleep(PERSIST_LOCK_POLL_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // Release only our own lock, not one taken after ours expired
+    await queue.client.eval(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0",
+      1,
+      PERSIST_LOCK_KEY,
+      token
+    );
+  }
+}
+
+/**
+ * Remember that a page of a run is persisted; returns the capture IDs of
+ * every page of the run persisted so far
+ */
+export async function recordPersistedPage(
+  queue: Queue<PersistJobData>,
+  runId: string,
+  pageNumber: number,
+  captureId: string
+): Promise<string[]> {
+  const key = `${QUEUE_NAMES.persist}:run:${runId}`;
+  await queue.client.hset(key, String(pageNumber), captureId);
+  await queue.client.expire(key, RUN_PAGES_TTL_S);
+  return queue.client.hvals(key);
+}
+
+/**
+ * Copy jobs that failed their last attempt, or were stopped by the model
+ * budget, to the dead-letter queue
+ */
+export function forwardToDeadLetter(
+  stage: StageName,
+  queue: Queue<CaptureJobData | ExtractJobData | PersistJobData>,
+  deadLetter: Queue<DeadLetterJobData>
+): void {
+  queue.on('failed', async (job: Job, error: Error) => {
+    if (job.attemptsMade < (job.opts.attempts ?? 1) && !(error instanceof BudgetExceededError)) return;
+
+    try {
+      await deadLetter.add({
+        queue: stage,
+        job_id: String(job.id),
+        data: job.data,
+        failed_reason: error.message,
+        attempts_made: job.attemptsMade,
+        failed_at: new Date(),
+      });
+      logger.error('Job moved to dead-letter queue', { queue: stage, job_id: job.id, error: error.message });
+    } catch (deadLetterError) {
+      logger.error('Failed to dead-letter job', { queue: stage, job_id: job.id, error: deadLetterError });
+    }
+  });
+}
+
+/**
+ * Close all queues
+ */
+export async function closeQueues(queues: TenderQueues): Promise<void> {
+  await Promise.all(Object.values(queues).map((queue: Queue) => queue.close()));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
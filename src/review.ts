@@ -0,0 +1,133 @@
+/**
+ * MANUAL REVIEW
+ * Serve the review console for every extraction waiting for validation
+ *
+ * Usage:
+ *   npm run review -- [--source ID]         Serve the console (default: examples from every source)
+ *   npm run review -- --list [--limit N]    Print the review queue instead
+ *   npm run review -- --resolve             Settle examples whose double reviewers disagree
+ *
+ * Validations are attributed to --reviewer (default: REVIEWER_ID).
+ *
+ * Open the printed URL, review the rows and press Done to exit. Rows are
+ * ranked by ReviewQueue, most informative first.
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import TrainingDataManager, { DEFAULT_REVIEWER_ID } from './learning/training-manager.js';
+import ReviewQueue from './learning/review-queue.js';
+import ReviewServer from './review/review-server.js';
+import { createStorage } from './storage/index.js';
+import { TrainingExample } from './types/index.js';
+
+interface ReviewOptions {
+  list: boolean;
+  limit: number;
+  resolve: boolean;
+}
+
+class ReviewCommand {
+  private sourceId?: string;
+  private reviewerId: string;
+  private trainingManager: TrainingDataManager;
+
+  constructor(sourceId?: string, reviewerId: string = DEFAULT_REVIEWER_ID) {
+    this.sourceId = sourceId;
+    this.reviewerId = reviewerId;
+    this.trainingManager = new TrainingDataManager(createStorage(), undefined, sourceId);
+  }
+
+  async run(options: ReviewOptions): Promise<void> {
+    try {
+      await this.trainingManager.initialize();
+
+      const unvalidated = options.resolve
+        ? await this.trainingManager.getConflictedExamples()
+        : await this.trainingManager.getExamplesForReviewer(this.reviewerId);
+      if (unvalidated.length === 0) {
+        console.log(
+          options.resolve
+            ? 'No conflicting double reviews to resolve.'
+            : `No extractions waiting for ${this.reviewerId}. Run npm run learn or npm run extract first.`
+        );
+        return;
+      }
+
+      if (options.list) {
+        return this.list(unvalidated, options.limit);
+      }
+
+      const reviewServer = new ReviewServer(this.trainingManager, {
+        title: this.sourceId ? `Tender review: ${this.sourceId}` : 'Tender review',
+        reviewer_id: this.reviewerId,
+        resolve: options.resolve,
+      });
+      const url = await reviewServer.start();
+
+      try {
+        console.log(`\n${unvalidated.length} ${options.resolve ? 'conflicts to resolve' : 'extractions to validate'}`);
+        console.log(`Open ${url} to review them, then press Done.\n`);
+
+        const summary = await reviewServer.waitUntilDone();
+
+        console.log('=== REVIEW SUMMARY ===');
+        console.log(`Rows saved:     ${summary.validated}`);
+        console.log(`  accepted fields: ${summary.accepted_fields}`);
+        console.log(`  edited fields:   ${summary.edited_fields}`);
+        console.log(`  rejected fields: ${summary.rejected_fields}`);
+        console.log(`Rows rejected:  ${summary.rejected_rows}`);
+      } finally {
+        await reviewServer.stop();
+      }
+    } finally {
+      await this.trainingManager.close();
+    }
+  }
+
+  /**
+   * Print the top of the review queue with why each row ranks there
+   */
+  private async list(unvalidated: TrainingExample[], limit: number): Promise<void> {
+    const ranked = new ReviewQueue().rank(unvalidated, await this.trainingManager.getValidatedExamples());
+
+    console.log(`\n=== REVIEW QUEUE (${Math.min(limit, ranked.length)} of ${ranked.length}) ===`);
+    console.log(`${'#'.padStart(4)} ${'score'.padStart(6)}  ${'pdf'.padEnd(32)} row`);
+
+    ranked.slice(0, limit).forEach((priority, i) => {
+      const tender = priority.example.gemini_extraction.tender;
+      const pdf = priority.example.pdf_path.split('/').pop() || priority.example.pdf_path;
+      console.log(
+        `${String(i + 1).padStart(4)} ${priority.score.toFixed(3).padStart(6)}  ${pdf.padEnd(32)} ` +
+          `bil ${tender.bil ?? '?'} ${tender.daftar ?? ''}${priority.over_cap ? ' (over per-PDF cap)' : ''}`
+      );
+      for (const reason of priority.reasons) {
+        console.log(`${''.padStart(14)}- ${reason}`);
+      }
+    });
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    source: { type: 'string' },
+    list: { type: 'boolean', default: false },
+    limit: { type: 'string', default: '20' },
+    reviewer: { type: 'string' },
+    resolve: { type: 'boolean', default: false },
+  },
+});
+
+// Run review
+const reviewCommand = new ReviewCommand(values.source as string | undefined, values.reviewer as string | undefined);
+reviewCommand
+  .run({
+    list: values.list as boolean,
+    limit: parseInt(values.limit as string),
+    resolve: values.resolve as boolean,
+  })
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
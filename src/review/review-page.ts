@@ -0,0 +1,466 @@
+/**
+ * REVIEW CONSOLE PAGE
+ * This module handles:
+ * - The single-page UI served by ReviewServer
+ * - Showing each extracted row next to its page screenshot or PDF, in
+ *   review-queue order with the reasons for its rank
+ * - Per-field accept / edit / reject with inline schema errors
+ * - When resolving conflicts, each reviewer's value to pick from
+ * - Keyboard shortcuts for reviewing without the mouse
+ *
+ * The page is self-contained (no build step or external assets) and talks
+ * to the JSON API of review-server.ts.
+ */
+
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+
+const FIELD_HINTS: Record<string, string> = {
+  bil: 'Positive integer',
+  tarikh: 'YYYY-MM-DD',
+  daftar: 'Registration / reference number',
+  bidang: 'At least 5 characters',
+  kod_bidang: 'Exactly 6 digits',
+  keterangan: 'At least 10 characters',
+  status: 'Aktif or Tidak Aktif',
+};
+
+const STYLE = `
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #1d2329; background: #f4f5f7; }
+header { display: flex; align-items: center; gap: 16px; padding: 8px 16px; background: #1d2329; color: #fff; }
+header h1 { font-size: 16px; margin: 0; flex: 1; }
+header button { background: #3b4650; color: #fff; border: 0; padding: 6px 12px; border-radius: 4px; cursor: pointer; }
+#progress { width: 200px; height: 6px; background: #3b4650; border-radius: 3px; overflow: hidden; }
+#progress div { height: 100%; background: #4caf50; width: 0; }
+main { display: grid; grid-template-columns: 1fr 480px; height: calc(100vh - 44px); }
+#source { display: flex; flex-direction: column; border-right: 1px solid #d0d4d9; min-width: 0; }
+#tabs { display: flex; gap: 4px; padding: 6px 8px; background: #e6e8eb; }
+#tabs button { border: 0; padding: 4px 10px; border-radius: 4px; background: transparent; cursor: pointer; }
+#tabs button.active { background: #fff; }
+#viewer { flex: 1; overflow: auto; background: #fff; }
+#viewer img { max-width: 100%; display: block; }
+#viewer iframe { width: 100%; height: 100%; border: 0; }
+#viewer .empty { padding: 24px; color: #6b7580; }
+#row { overflow: auto; padding: 12px 16px; }
+.meta { color: #6b7580; font-size: 12px; margin-bottom: 8px; }
+.warnings { background: #fff4e5; border-left: 3px solid #ff9800; padding: 6px 8px; margin-bottom: 8px; font-size: 12px; }
+.field { background: #fff; border: 1px solid #d0d4d9; border-radius: 6px; padding: 8px; margin-bottom: 8px; }
+.field.current { border-color: #1976d2; box-shadow: 0 0 0 2px #bbdefb; }
+.field.accept { border-left: 4px solid #4caf50; }
+.field.edit { border-left: 4px solid #1976d2; }
+.field.reject { border-left: 4px solid #e53935; }
+.field.disputed .name::after { content: ' disputed'; color: #e53935; font-size: 11px; }
+.field .top { display: flex; align-items: center; gap: 8px; }
+.field .name { font-weight: 600; flex: 1; }
+.field .conf { font-size: 12px; padding: 1px 6px; border-radius: 8px; background: #e6e8eb; }
+.field .conf.low { background: #ffcdd2; }
+.field .conf.mid { background: #fff3c4; }
+.field input { width: 100%; margin-top: 6px; padding: 6px; border: 1px solid #d0d4d9; border-radius: 4px; font: inherit; }
+.field input.invalid { border-color: #e53935; }
+.field .hint { font-size: 11px; color: #6b7580; }
+.field .reviews { margin-top: 4px; display: flex; flex-wrap: wrap; gap: 4px; }
+.field .reviews button { border: 1px solid #d0d4d9; background: #f4f5f7; border-radius: 4px; padding: 1px 6px; font-size: 12px; cursor: pointer; }
+.field .error { font-size: 12px; color: #e53935; }
+.field .actions button { border: 1px solid #d0d4d9; background: #fff; border-radius: 4px; padding: 2px 8px; cursor: pointer; font-size: 12px; }
+.buttons { display: flex; gap: 8px; margin-top: 12px; }
+.buttons button { flex: 1; padding: 8px; border: 0; border-radius: 4px; cursor: pointer; font-weight: 600; }
+#save { background: #4caf50; color: #fff; }
+#reject-row { background: #e53935; color: #fff; }
+#status { margin-top: 8px; font-size: 12px; color: #6b7580; min-height: 1.4em; }
+#help { position: fixed; inset: 0; background: rgba(0,0,0,.4); display: none; align-items: center; justify-content: center; }
+#help.open { display: flex; }
+#help div { background: #fff; padding: 16px 24px; border-radius: 8px; }
+#help td { padding: 2px 12px 2px 0; }
+kbd { background: #e6e8eb; border-radius: 3px; padding: 0 4px; font: 12px monospace; }
+`;
+
+// Plain string concatenation only: this is embedded in a template literal
+const SCRIPT = `
+var FIELDS = window.REVIEW_FIELDS;
+var HINTS = window.REVIEW_HINTS;
+var examples = [];
+var index = 0;
+var current = 0;
+var state = null;
+var reviewed = 0;
+var validateTimer = null;
+
+function $(id) { return document.getElementById(id); }
+
+function api(method, url, body) {
+  return fetch(url, {
+    method: method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  }).then(function (res) {
+    return res.json().then(function (data) { return { status: res.status, data: data }; });
+  });
+}
+
+function setStatus(text) { $('status').textContent = text; }
+
+function load() {
+  return api('GET', '/api/examples').then(function (res) {
+    examples = res.data.examples;
+    index = Math.min(index, Math.max(examples.length - 1, 0));
+    show();
+  });
+}
+
+function show() {
+  var total = examples.length + reviewed;
+  $('progress-bar').style.width = (total ? (100 * reviewed / total) : 100) + '%';
+  $('count').textContent = reviewed + ' reviewed, ' + examples.length + ' left';
+
+  if (examples.length === 0) {
+    state = null;
+    $('row').innerHTML = '<p>Nothing left to review.</p><p>Press <kbd>Done</kbd> to finish.</p>';
+    $('viewer').innerHTML = '<p class="empty">No example selected</p>';
+    return;
+  }
+
+  var example = examples[index];
+  state = { example: example, values: {}, decisions: {}, errors: {} };
+  FIELDS.forEach(function (field) {
+    var value = example.tender[field];
+    state.values[field] = value === undefined || value === null ? '' : String(value);
+  });
+  current = 0;
+  renderRow();
+  showSource(example.has_screenshot ? 'screenshot' : 'pdf');
+  validate();
+}
+
+function showSource(kind) {
+  if (!state) return;
+  var example = state.example;
+  $('tab-screenshot').className = kind === 'screenshot' ? 'active' : '';
+  $('tab-pdf').className = kind === 'pdf' ? 'active' : '';
+  if (kind === 'screenshot') {
+    $('viewer').innerHTML = example.has_screenshot
+      ? '<img src="/api/examples/' + example.id + '/screenshot" alt="Page screenshot">'
+      : '<p class="empty">No screenshot was captured for this row</p>';
+  } else {
+    $('viewer').innerHTML = '<iframe src="/api/examples/' + example.id + '/pdf"></iframe>';
+  }
+}
+
+function escapeHtml(text) {
+  return String(text).replace(/[&<>"']/g, function (c) {
+    return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+  });
+}
+
+function confidenceClass(value) {
+  if (value === undefined) return 'conf low';
+  return value < 0.6 ? 'conf low' : value < 0.85 ? 'conf mid' : 'conf';
+}
+
+function renderRow() {
+  var example = state.example;
+  var html = '<div class="meta">Row ' + (index + 1) + ' of ' + examples.length +
+    ' &middot; overall confidence ' + example.confidence.overall.toFixed(2) +
+    ' &middot; ' + escapeHtml(example.pdf_path) + '</div>';
+
+  var priority = example.priority;
+  html += '<div class="meta">Review priority ' + priority.score.toFixed(2) +
+    (priority.reasons.length ? ': ' + priority.reasons.map(escapeHtml).join('; ') : '') +
+    (priority.over_cap ? ' &middot; more rows than the per-PDF cap' : '') + '</div>';
+
+  if (example.warnings && example.warnings.length) {
+    html += '<div class="warnings">' + example.warnings.map(escapeHtml).join('<br>') + '</div>';
+  }
+
+  FIELDS.forEach(function (field, i) {
+    var confidence = example.confidence.per_field[field];
+    var classes = ['field'];
+    if (i === current) classes.push('current');
+    if (state.decisions[field]) classes.push(state.decisions[field]);
+    if (example.disputed.indexOf(field) !== -1 || example.disputed.indexOf('row') !== -1 ||
+        (example.conflict && example.conflict.fields.indexOf(field) !== -1)) classes.push('disputed');
+
+    html += '<div class="' + classes.join(' ') + '" data-index="' + i + '">' +
+      '<div class="top"><span class="name">' + field + '</span>' +
+      '<span class="' + confidenceClass(confidence) + '">' +
+      (confidence === undefined ? 'n/a' : confidence.toFixed(2)) + '</span>' +
+      '<span class="actions">' +
+      '<button data-action="accept" title="Accept (a)">&#10003;</button> ' +
+      '<button data-action="edit" title="Edit (e)">&#9998;</button> ' +
+      '<button data-action="reject" title="Reject (x)">&#10007;</button></span></div>' +
+      '<input id="input-' + field + '" data-field="' + field + '" value="' + escapeHtml(state.values[field]) + '"' +
+      (state.errors[field] ? ' class="invalid"' : '') + '>' +
+      '<div class="hint">' + escapeHtml(HINTS[field]) + '</div>' +
+      renderReviews(example, field) +
+      '<div class="error" id="error-' + field + '">' + escapeHtml(state.errors[field] || '') + '</div>' +
+      '</div>';
+  });
+
+  html += '<div class="buttons"><button id="save" title="Save (s)">Save &amp; next</button>' +
+    '<button id="reject-row" title="Reject row (r)">Not a tender row</button></div>' +
+    '<div id="status"></div>';
+
+  $('row').innerHTML = html;
+}
+
+// Each reviewer's value of a conflicting field, to pick with 1-9
+function renderReviews(example, field) {
+  if (!example.conflict || example.conflict.fields.indexOf(field) === -1) return '';
+  return '<div class="reviews">' + Object.keys(example.conflict.reviews).map(function (reviewer, i) {
+    var value = example.conflict.reviews[reviewer][field];
+    return '<button data-pick="' + i + '" title="Use this value (' + (i + 1) + ')">' + (i + 1) + '. ' +
+      escapeHtml(reviewer) + ': ' + escapeHtml(value === undefined ? '(empty)' : value) + '</button>';
+  }).join('') + '</div>';
+}
+
+function pick(field, i) {
+  var example = state.example;
+  if (!example.conflict || example.conflict.fields.indexOf(field) === -1) return;
+  var reviewer = Object.keys(example.conflict.reviews)[i];
+  if (reviewer === undefined) return;
+  var value = example.conflict.reviews[reviewer][field];
+  $('input-' + field).value = value === undefined ? '' : String(value);
+  state.values[field] = $('input-' + field).value;
+  decide(field, 'edit');
+  $('input-' + field).blur();
+  validate();
+}
+
+function renderErrors() {
+  FIELDS.forEach(function (field) {
+    var input = $('input-' + field);
+    if (!input) return;
+    input.className = state.errors[field] ? 'invalid' : '';
+    $('error-' + field).textContent = state.errors[field] || '';
+  });
+}
+
+function focusField(i) {
+  current = Math.max(0, Math.min(FIELDS.length - 1, i));
+  var blocks = document.querySelectorAll('.field');
+  for (var j = 0; j < blocks.length; j++) {
+    blocks[j].classList.toggle('current', j === current);
+  }
+  blocks[current].scrollIntoView({ block: 'nearest' });
+}
+
+function decide(field, decision) {
+  state.decisions[field] = decision;
+  var block = document.querySelector('.field[data-index="' + FIELDS.indexOf(field) + '"]');
+  block.classList.remove('accept', 'edit', 'reject');
+  block.classList.add(decision);
+
+  var input = $('input-' + field);
+  if (decision === 'accept') {
+    input.value = state.example.tender[field] === undefined ? '' : String(state.example.tender[field]);
+    state.values[field] = input.value;
+    input.blur();
+    validate();
+  } else if (decision === 'reject') {
+    input.value = '';
+    state.values[field] = '';
+    input.focus();
+    validate();
+  } else {
+    input.focus();
+    input.select();
+  }
+}
+
+function validate() {
+  if (!state) return Promise.resolve();
+  var example = state.example;
+  return api('POST', '/api/validate', { tender: state.values }).then(function (res) {
+    if (!state || state.example !== example) return;
+    state.errors = {};
+    res.data.errors.forEach(function (error) { state.errors[error.field] = error.message; });
+    renderErrors();
+  });
+}
+
+function next(step) {
+  if (examples.length === 0) return;
+  index = (index + step + examples.length) % examples.length;
+  show();
+}
+
+function save() {
+  if (!state) return;
+  var example = state.example;
+  var decisions = {};
+  FIELDS.forEach(function (field) { decisions[field] = state.decisions[field] || 'accept'; });
+
+  api('POST', '/api/examples/' + example.id + '/validate', { tender: state.values, decisions: decisions })
+    .then(function (res) {
+      if (res.status !== 200) {
+        state.errors = {};
+        (res.data.errors || []).forEach(function (error) { state.errors[error.field] = error.message; });
+        renderErrors();
+        setStatus(res.data.error || 'Fix the highlighted fields before saving');
+        var first = FIELDS.filter(function (f) { return state.errors[f]; })[0];
+        if (first) focusField(FIELDS.indexOf(first));
+        return;
+      }
+      reviewed++;
+      examples.splice(index, 1);
+      if (index >= examples.length) index = 0;
+      show();
+    });
+}
+
+function rejectRow() {
+  if (!state) return;
+  var reason = window.prompt('Why is this not a tender row? (optional)', '');
+  if (reason === null) return;
+  api('POST', '/api/examples/' + state.example.id + '/reject', { reason: reason }).then(function () {
+    reviewed++;
+    examples.splice(index, 1);
+    if (index >= examples.length) index = 0;
+    show();
+  });
+}
+
+function done() {
+  api('POST', '/api/done').then(function (res) {
+    var s = res.data.summary;
+    document.body.innerHTML = '<p style="padding:24px">Review finished: ' + s.validated + ' rows saved (' +
+      s.accepted_fields + ' fields accepted, ' + s.edited_fields + ' edited, ' + s.rejected_fields +
+      ' rejected), ' + s.rejected_rows + ' rows rejected. You can close this tab.</p>';
+  });
+}
+
+document.addEventListener('click', function (event) {
+  var target = event.target;
+  if (target.id === 'save') return save();
+  if (target.id === 'reject-row') return rejectRow();
+  var choice = target.getAttribute('data-pick');
+  if (choice !== null) {
+    var picked = target.closest('.field');
+    focusField(Number(picked.getAttribute('data-index')));
+    return pick(FIELDS[current], Number(choice));
+  }
+  var action = target.getAttribute('data-action');
+  if (action) {
+    var block = target.closest('.field');
+    focusField(Number(block.getAttribute('data-index')));
+    decide(FIELDS[current], action);
+  }
+});
+
+document.addEventListener('input', function (event) {
+  var field = event.target.getAttribute('data-field');
+  if (!field || !state) return;
+  state.values[field] = event.target.value;
+  if (!state.decisions[field] || state.decisions[field] === 'accept') decide(field, 'edit');
+  clearTimeout(validateTimer);
+  validateTimer = setTimeout(validate, 250);
+});
+
+document.addEventListener('focusin', function (event) {
+  var field = event.target.getAttribute && event.target.getAttribute('data-field');
+  if (field) focusField(FIELDS.indexOf(field));
+});
+
+document.addEventListener('keydown', function (event) {
+  var inInput = event.target.tagName === 'INPUT';
+
+  if ($('help').classList.contains('open')) {
+    if (event.key === 'Escape' || event.key === '?') $('help').classList.remove('open');
+    return;
+  }
+  if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) { event.preventDefault(); return save(); }
+  if (inInput) {
+    if (event.key === 'Escape' || event.key === 'Enter') {
+      event.preventDefault();
+      event.target.blur();
+      if (event.key === 'Enter') focusField(current + 1);
+    }
+    return;
+  }
+  if (!state && event.key !== '?') return;
+
+  var field = state ? FIELDS[current] : null;
+  switch (event.key) {
+    case 'j': case 'ArrowDown': focusField(current + 1); break;
+    case 'k': case 'ArrowUp': focusField(current - 1); break;
+    case 'a': decide(field, 'accept'); focusField(current + 1); break;
+    case 'A': FIELDS.forEach(function (f) { if (!state.decisions[f]) decide(f, 'accept'); }); break;
+    case 'e': case 'Enter': decide(field, 'edit'); break;
+    case 'x': decide(field, 'reject'); break;
+    case 's': save(); break;
+    case 'r': rejectRow(); break;
+    case 'n': case 'ArrowRight': next(1); break;
+    case 'p': case 'ArrowLeft': next(-1); break;
+    case 'v': showSource($('tab-pdf').className === 'active' ? 'screenshot' : 'pdf'); break;
+    case '?': $('help').classList.add('open'); break;
+    default:
+      if (event.key >= '1' && event.key <= '9') { pick(field, Number(event.key) - 1); break; }
+      return;
+  }
+  event.preventDefault();
+});
+
+$('tab-screenshot').onclick = function () { showSource('screenshot'); };
+$('tab-pdf').onclick = function () { showSource('pdf'); };
+$('done').onclick = done;
+$('help-button').onclick = function () { $('help').classList.add('open'); };
+
+load();
+`;
+
+const SHORTCUTS: [string, string][] = [
+  ['j / k, arrows', 'Next / previous field'],
+  ['a', 'Accept field'],
+  ['Shift+A', 'Accept every undecided field'],
+  ['e, Enter', 'Edit field'],
+  ['x', 'Reject field: clear it and type the correct value'],
+  ['Esc', 'Leave the input'],
+  ['s, Ctrl+Enter', 'Save row and go to the next (undecided fields count as accepted)'],
+  ['r', 'Reject row: not a tender row'],
+  ['n / p', 'Next / previous row'],
+  ['v', 'Switch between screenshot and PDF'],
+  ['1-9', 'Resolving: use that reviewer\'s value for the field'],
+  ['?', 'This help'],
+];
+
+/**
+ * Render the review console
+ */
+export function renderReviewPage(title: string): string {
+  const hints = Object.fromEntries(TENDER_FIELDS.map((field) => [field, FIELD_HINTS[field] || '']));
+  const shortcuts = SHORTCUTS.map(([keys, action]) => `<tr><td><kbd>${keys}</kbd></td><td>${action}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <span id="count"></span>
+  <div id="progress"><div id="progress-bar"></div></div>
+  <button id="help-button">Shortcuts (?)</button>
+  <button id="done">Done</button>
+</header>
+<main>
+  <section id="source">
+    <div id="tabs"><button id="tab-screenshot">Screenshot</button><button id="tab-pdf">PDF</button></div>
+    <div id="viewer"></div>
+  </section>
+  <section id="row"></section>
+</main>
+<div id="help"><div><h3>Keyboard shortcuts</h3><table>${shortcuts}</table><p>Press <kbd>Esc</kbd> to close</p></div></div>
+<script>
+window.REVIEW_FIELDS = ${JSON.stringify(TENDER_FIELDS)};
+window.REVIEW_HINTS = ${JSON.stringify(hints)};
+${SCRIPT}
+</script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,415 @@
+/**
+ * REVIEW CONSOLE
+ * This module handles:
+ * - A local web UI for validating extracted rows (see review-page.ts)
+ * - Presenting rows in ReviewQueue order, most informative first
+ * - Serving each example's page screenshot and PDF next to its row
+ * - Inline tenderSchema validation of edited rows
+ * - Saving accepted and edited rows through TrainingDataManager.validateExample()
+ *   and rejected rows through rejectExample() (resolveConflict() and
+ *   rejectConflict() in resolve mode), attributed to the session's reviewer
+ * - Resolve mode: settling examples whose double reviewers disagree, with
+ *   each reviewer's value shown next to the field
+ *
+ * Routes:
+ *   GET  /                              The console
+ *   GET  /api/examples                  Examples waiting for the reviewer (or conflicts), ranked
+ *   GET  /api/examples/:id/screenshot   Page screenshot of an example
+ *   GET  /api/examples/:id/pdf          Captured PDF of an example
+ *   POST /api/validate                  { tender } -> { errors }
+ *   POST /api/examples/:id/validate     { tender, decisions } -> 200, or 400 { errors }
+ *   POST /api/examples/:id/reject       { reason? }
+ *   POST /api/done                      End the review session
+ *
+ * Only files referenced by an example are served, and the server listens
+ * on localhost unless REVIEW_HOST says otherwise. Requests must name the
+ * bound address as their Host (and Origin, when sent), so other web pages
+ * and DNS rebinding cannot reach the console (403), and POST bodies must be
+ * application/json, which a plain HTML form cannot send (415).
+ */
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+import TrainingDataManager, { DEFAULT_REVIEWER_ID } from '../learning/training-manager.js';
+import ReviewQueue, { ReviewPriority } from '../learning/review-queue.js';
+import { renderReviewPage } from './review-page.js';
+import { tenderSchema } from '../utils/validation.js';
+import { TENDER_FIELDS } from '../utils/field-mapping.js';
+import { Tender, TrainingExample } from '../types/index.js';
+
+export type FieldDecision = 'accept' | 'edit' | 'reject';
+
+export interface ReviewSession {
+  title?: string;
+  reviewer_id?: string;
+  resolve?: boolean; // Show conflicting double reviews instead of new examples
+}
+
+export interface ReviewSummary {
+  validated: number;
+  accepted_fields: number;
+  edited_fields: number;
+  rejected_fields: number;
+  rejected_rows: number;
+}
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.pdf': 'application/pdf',
+};
+
+// Request bodies are small JSON objects
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Names a browser may use for a console bound to a loopback address
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+export class ReviewServer {
+  private trainingManager: TrainingDataManager;
+  private port: number;
+  private host: string;
+  private title: string;
+  private reviewerId: string;
+  private resolve: boolean;
+  private queue: ReviewQueue;
+  private server: http.Server | null = null;
+  private allowedHosts: Set<string> = new Set(); // host:port values requests may name
+  private ranking: { key: string; ranked: ReviewPriority[] } | null = null; // Last ReviewQueue order
+  private summary: ReviewSummary = {
+    validated: 0,
+    accepted_fields: 0,
+    edited_fields: 0,
+    rejected_fields: 0,
+    rejected_rows: 0,
+  };
+  private finish: (() => void) | null = null;
+  private finished: Promise<void>;
+
+  constructor(
+    trainingManager: TrainingDataManager,
+    session: ReviewSession = {},
+    queue: ReviewQueue = new ReviewQueue(),
+    port: number = parseInt(process.env.REVIEW_PORT || '4400'),
+    host: string = process.env.REVIEW_HOST || '127.0.0.1'
+  ) {
+    this.trainingManager = trainingManager;
+    this.reviewerId = session.reviewer_id || DEFAULT_REVIEWER_ID;
+    this.resolve = session.resolve || false;
+    this.title = `${session.title || 'Tender review'}${this.resolve ? ', conflicts' : ''} (${this.reviewerId})`;
+    this.queue = queue;
+    this.port = port;
+    this.host = host;
+    this.finished = new Promise((resolve) => {
+      this.finish = resolve;
+    });
+  }
+
+  /**
+   * Start listening and return the console URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Review request failed', { url: req.url, error });
+        this.sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    const address = this.server.address();
+    const port = address && typeof address === 'object' ? address.port : this.port;
+    const boundHost = this.host.includes(':') ? `[${this.host}]` : this.host; // IPv6 literals are bracketed
+    const hosts = LOOPBACK_HOSTS.includes(boundHost) ? LOOPBACK_HOSTS : [boundHost];
+    this.allowedHosts = new Set(hosts.map((host) => `${host}:${port}`));
+
+    const url = `http://${this.host}:${port}/`;
+    logger.info('Review console started', { url });
+    return url;
+  }
+
+  /**
+   * Resolve when the reviewer ends the session
+   */
+  async waitUntilDone(): Promise<ReviewSummary> {
+    await this.finished;
+    return this.summary;
+  }
+
+  getSummary(): ReviewSummary {
+    return this.summary;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections?.();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.isAllowedOrigin(req)) {
+      this.sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+    if (req.method === 'POST' && !isJson(req)) {
+      this.sendJson(res, 415, { error: 'Content-Type must be application/json' });
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'GET' && url.pathname === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(renderReviewPage(this.title));
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/examples') {
+      const ranked = await this.rank();
+      this.sendJson(res, 200, { examples: ranked.map((p) => this.toReviewItem(p)), summary: this.summary });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/validate') {
+      const body = await this.readJson(req);
+      this.sendJson(res, 200, { errors: this.check(body.tender).errors });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/done') {
+      this.sendJson(res, 200, { summary: this.summary });
+      this.finish?.();
+      return;
+    }
+
+    if (parts[0] === 'api' && parts[1] === 'examples' && parts.length === 4) {
+      const example = await this.findExample(parts[2]);
+      if (!example) {
+        this.sendJson(res, 404, { error: `Example not found: ${parts[2]}` });
+        return;
+      }
+
+      if (req.method === 'GET' && parts[3] === 'screenshot') {
+        return this.sendFile(res, example.screenshot_path);
+      }
+      if (req.method === 'GET' && parts[3] === 'pdf') {
+        return this.sendFile(res, example.pdf_path);
+      }
+      if (req.method === 'POST' && parts[3] === 'validate') {
+        return this.validate(res, example, await this.readJson(req));
+      }
+      if (req.method === 'POST' && parts[3] === 'reject') {
+        const body = await this.readJson(req);
+        if (this.resolve) {
+          await this.trainingManager.rejectConflict(example.id, body.reason || undefined, this.reviewerId);
+        } else {
+          await this.trainingManager.rejectExample(example.id, body.reason || undefined, this.reviewerId);
+        }
+        this.ranking = null;
+        this.summary.rejected_rows++;
+        this.sendJson(res, 200, { ok: true });
+        return;
+      }
+    }
+
+    this.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Examples in ReviewQueue order. The order is kept until this session
+   * saves a review or the examples waiting or validated change (another
+   * reviewer's work), so polling the console does not rank again; the
+   * rows shown are still the examples as just read.
+   */
+  private async rank(): Promise<ReviewPriority[]> {
+    const unvalidated = this.resolve
+      ? await this.trainingManager.getConflictedExamples()
+      : await this.trainingManager.getExamplesForReviewer(this.reviewerId);
+    const validated = await this.trainingManager.getValidatedExamples();
+    const key = `${unvalidated.map((e) => e.id).join(',')}|${validated.map((e) => e.id).join(',')}`;
+
+    if (this.ranking?.key !== key) {
+      this.ranking = { key, ranked: this.queue.rank(unvalidated, validated) };
+    }
+    const current = new Map(unvalidated.map((e) => [e.id, e]));
+    return this.ranking.ranked.map((p) => ({ ...p, example: current.get(p.example.id) || p.example }));
+  }
+
+  /**
+   * Save a reviewed row when it passes tenderSchema
+   */
+  private async validate(
+    res: http.ServerResponse,
+    example: TrainingExample,
+    body: { tender?: unknown; decisions?: Record<string, FieldDecision> }
+  ): Promise<void> {
+    const { tender, errors } = this.check(body.tender);
+    if (!tender) {
+      this.sendJson(res, 400, { errors });
+      return;
+    }
+
+    const validated = { ...tender, source_id: example.gemini_extraction.tender.source_id };
+    if (this.resolve) {
+      await this.trainingManager.resolveConflict(example.id, validated, this.reviewerId);
+    } else {
+      await this.trainingManager.validateExample(example.id, validated, this.reviewerId);
+    }
+    this.ranking = null;
+
+    this.summary.validated++;
+    for (const field of TENDER_FIELDS) {
+      const decision = body.decisions?.[field] || 'accept';
+      if (decision === 'edit') this.summary.edited_fields++;
+      else if (decision === 'reject') this.summary.rejected_fields++;
+      else this.summary.accepted_fields++;
+    }
+
+    this.sendJson(res, 200, { ok: true });
+  }
+
+  /**
+   * Coerce form values and validate them against tenderSchema
+   */
+  private check(input: unknown): { tender: Tender | null; errors: FieldError[] } {
+    const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const candidate: Record<string, unknown> = {};
+
+    for (const field of TENDER_FIELDS) {
+      const value = raw[field];
+      if (value === undefined || value === null || value === '') continue;
+      candidate[field] = field === 'bil' ? Number(value) : String(value).trim();
+    }
+
+    const result = tenderSchema.safeParse(candidate);
+    if (result.success) {
+      return { tender: result.data as Tender, errors: [] };
+    }
+
+    return {
+      tender: null,
+      errors: result.error.errors.map((e) => ({ field: e.path.join('.'), message: e.message })),
+    };
+  }
+
+  /**
+   * True when Host, and Origin if sent, name the address the console is bound to
+   */
+  private isAllowedOrigin(req: http.IncomingMessage): boolean {
+    const host = req.headers.host?.toLowerCase();
+    if (!host || !this.allowedHosts.has(host)) return false;
+
+    const origin = req.headers.origin;
+    if (origin === undefined) return true;
+    try {
+      const parsed = new URL(origin);
+      return parsed.protocol === 'http:' && this.allowedHosts.has(parsed.host.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  private async findExample(id: string): Promise<TrainingExample | null> {
+    try {
+      return await this.trainingManager.getExample(id);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * What the console needs of an example
+   */
+  private toReviewItem({ example, score, reasons, over_cap }: ReviewPriority) {
+    const reviews = Object.fromEntries(this.trainingManager.latestValidations(example));
+    const conflictFields = example.conflict_fields || [];
+
+    // Resolving starts from the values the reviewers agree on
+    const tender: Partial<Tender> = example.conflict_fields
+      ? Object.fromEntries(
+          TENDER_FIELDS.filter((field) => !conflictFields.includes(field)).map((field) => [
+            field,
+            Object.values(reviews)[0]?.[field],
+          ])
+        )
+      : example.gemini_extraction.tender;
+
+    return {
+      id: example.id,
+      pdf_path: example.pdf_path,
+      has_screenshot: Boolean(example.screenshot_path),
+      tender,
+      conflict: example.conflict_fields ? { fields: conflictFields, reviews } : null,
+      confidence: example.gemini_extraction.confidence,
+      warnings: example.gemini_extraction.warnings,
+      disputed: example.gemini_extraction.votes?.disputed || [],
+      priority: { score, reasons, over_cap },
+      created_at: example.created_at,
+    };
+  }
+
+  private sendFile(res: http.ServerResponse, file?: string): void {
+    if (!file || !fs.existsSync(file)) {
+      this.sendJson(res, 404, { error: 'File not found' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream',
+      'Cache-Control': 'private, max-age=3600',
+    });
+    fs.createReadStream(file).pipe(res);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private readJson(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => {
+        try {
+          resolve(body ? JSON.parse(body) : {});
+        } catch {
+          reject(new Error('Invalid JSON body'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+}
+
+function isJson(req: http.IncomingMessage): boolean {
+  return (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+export default ReviewServer;
@@ -0,0 +1,201 @@
+/**
+ * REVIEWERS
+ * Double review, inter-annotator agreement and the validation audit trail
+ *
+ * Usage:
+ *   npm run reviewers -- assign --reviewers alice,bob [--limit N]
+ *       Assign the top N rows of the review queue to two reviewers each
+ *       (pairs rotate when more than two reviewers are given)
+ *   npm run reviewers -- agreement    Per-field agreement and kappa, and each reviewer's accuracy
+ *   npm run reviewers -- conflicts    Double reviews waiting for resolution (npm run review -- --resolve)
+ *   npm run reviewers -- history <example-id>   Every revision of an example
+ *
+ * Add --source ID to work on one portal's examples.
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import TrainingDataManager from './learning/training-manager.js';
+import ReviewQueue from './learning/review-queue.js';
+import ReviewerAgreement from './learning/reviewer-agreement.js';
+import { createStorage } from './storage/index.js';
+import { TrainingExample } from './types/index.js';
+
+const REVIEWERS_PER_EXAMPLE = 2;
+
+class ReviewersCommand {
+  private trainingManager: TrainingDataManager;
+
+  constructor(sourceId?: string) {
+    this.trainingManager = new TrainingDataManager(createStorage(), undefined, sourceId);
+  }
+
+  async run(args: string[], options: { reviewers?: string; limit: number }): Promise<void> {
+    const [command = 'agreement', ...rest] = args;
+
+    try {
+      await this.trainingManager.initialize();
+
+      switch (command) {
+        case 'assign':
+          return await this.assign((options.reviewers || '').split(',').filter(Boolean), options.limit);
+        case 'agreement':
+          return await this.agreement();
+        case 'conflicts':
+          return await this.conflicts();
+        case 'history':
+          return await this.history(rest[0]);
+        default:
+          console.log(`Unknown command: ${command}`);
+          console.log('Available: assign, agreement, conflicts, history');
+      }
+    } finally {
+      await this.trainingManager.close();
+    }
+  }
+
+  /**
+   * Assign the most informative unassigned rows to reviewer pairs
+   */
+  private async assign(reviewers: string[], limit: number): Promise<void> {
+    reviewers = [...new Set(reviewers)];
+    if (reviewers.length < REVIEWERS_PER_EXAMPLE) {
+      console.log(`Give at least ${REVIEWERS_PER_EXAMPLE} reviewers: --reviewers alice,bob`);
+      return;
+    }
+
+    const unassigned = (await this.trainingManager.getUnvalidatedExamples()).filter(
+      (e) => !e.assigned_reviewers?.length && !e.revisions?.length
+    );
+    const ranked = new ReviewQueue().rank(unassigned, await this.trainingManager.getValidatedExamples());
+    const selected = ranked.slice(0, limit);
+
+    const counts = new Map(reviewers.map((reviewer) => [reviewer, 0]));
+
+    for (let i = 0; i < selected.length; i++) {
+      const pair = Array.from({ length: REVIEWERS_PER_EXAMPLE }, (_, k) => reviewers[(i + k) % reviewers.length]);
+      await this.trainingManager.assignReviewers(selected[i].example.id, pair);
+      for (const reviewer of pair) counts.set(reviewer, counts.get(reviewer)! + 1);
+    }
+
+    console.log(`Assigned ${selected.length} of ${unassigned.length} unassigned examples for double review`);
+    for (const [reviewer, count] of counts) {
+      console.log(`  ${reviewer.padEnd(16)} ${count}`);
+    }
+    console.log('Each reviewer runs: npm run review -- --reviewer <id>');
+  }
+
+  private async agreement(): Promise<void> {
+    const report = new ReviewerAgreement().report(await this.trainingManager.getAllExamples());
+
+    console.log('\n=== REVIEWER AGREEMENT ===');
+    console.log(`Double-reviewed examples: ${report.double_reviewed}`);
+    console.log(`  reviewed by everyone assigned: ${report.complete}`);
+    console.log(`  waiting for resolution:        ${report.conflicts}`);
+
+    if (report.complete > 0) {
+      console.log(`\n${'field'.padEnd(12)} ${'examples'.padStart(9)} ${'agreement'.padStart(10)} ${'kappa'.padStart(7)}`);
+      for (const [field, stats] of Object.entries(report.per_field)) {
+        console.log(
+          `${field.padEnd(12)} ${String(stats.examples).padStart(9)} ` +
+            `${`${(stats.agreement * 100).toFixed(1)}%`.padStart(10)} ` +
+            `${(stats.kappa === null ? 'n/a' : stats.kappa.toFixed(3)).padStart(7)}`
+        );
+      }
+    }
+
+    if (report.reviewers.length > 0) {
+      console.log(
+        `\n${'reviewer'.padEnd(16)} ${'validated'.padStart(9)} ${'rejected'.padStart(9)} ` +
+          `${'resolved'.padStart(9)} ${'compared'.padStart(9)} ${'kept'.padStart(7)}`
+      );
+      for (const reviewer of report.reviewers) {
+        console.log(
+          `${reviewer.reviewer_id.padEnd(16)} ${String(reviewer.validations).padStart(9)} ` +
+            `${String(reviewer.rejections).padStart(9)} ${String(reviewer.resolutions).padStart(9)} ` +
+            `${String(reviewer.compared_fields).padStart(9)} ` +
+            `${(reviewer.accuracy === null ? 'n/a' : `${(reviewer.accuracy * 100).toFixed(1)}%`).padStart(7)}`
+        );
+      }
+      console.log('kept: share of their double-reviewed field values that became ground truth');
+    }
+  }
+
+  private async conflicts(): Promise<void> {
+    const conflicted = await this.trainingManager.getConflictedExamples();
+
+    if (conflicted.length === 0) {
+      console.log('No conflicting double reviews.');
+      return;
+    }
+
+    console.log(`\n=== CONFLICTS (${conflicted.length}) ===`);
+    for (const example of conflicted) {
+      const latest = this.trainingManager.latestReads(example);
+      console.log(`\n${example.id}  ${example.pdf_path}`);
+      for (const field of example.conflict_fields || []) {
+        const values = [...latest].map(
+          ([reviewer, tender]) => `${reviewer}: ${tender ? tender[field] ?? '(empty)' : '(rejected)'}`
+        );
+        console.log(`  ${field.padEnd(12)} ${values.join(' | ')}`);
+      }
+    }
+    console.log('\nResolve them with: npm run review -- --resolve');
+  }
+
+  private async history(exampleId?: string): Promise<void> {
+    if (!exampleId) {
+      console.log('Usage: npm run reviewers -- history <example-id>');
+      return;
+    }
+
+    const example = await this.trainingManager.getExample(exampleId);
+    console.log(`\n=== HISTORY: ${example.id} ===`);
+    console.log(`PDF: ${example.pdf_path}`);
+    console.log(`Assigned: ${example.assigned_reviewers?.join(', ') || '(anyone)'}`);
+    console.log(`Status: ${this.status(example)}`);
+
+    for (const revision of example.revisions || []) {
+      console.log(
+        `\n${new Date(revision.created_at).toISOString()}  ${revision.kind.padEnd(10)} ${revision.reviewer_id}` +
+          (revision.reason ? `  (${revision.reason})` : '')
+      );
+      for (const change of revision.changes) {
+        console.log(`  ${change.field.padEnd(12)} ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+      }
+      if (revision.kind !== 'rejection' && revision.changes.length === 0) {
+        console.log('  (no changes)');
+      }
+    }
+  }
+
+  private status(example: TrainingExample): string {
+    if (example.rejected_at) return 'rejected';
+    if (example.conflict_fields) return `conflict on ${example.conflict_fields.join(', ')}`;
+    if (example.manual_validation) return 'ground truth';
+
+    const pending = (example.assigned_reviewers || []).filter(
+      (reviewer) => !this.trainingManager.latestReads(example).has(reviewer)
+    );
+    return pending.length > 0 ? `waiting for ${pending.join(', ')}` : 'unvalidated';
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string' },
+    reviewers: { type: 'string' },
+    limit: { type: 'string', default: '20' },
+  },
+});
+
+// Run command
+const reviewersCommand = new ReviewersCommand(values.source as string | undefined);
+reviewersCommand
+  .run(positionals, { reviewers: values.reviewers as string | undefined, limit: parseInt(values.limit as string) })
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,79 @@
+/**
+ * TENDER SOURCES
+ * Inspect the portals in SOURCES_FILE and their crawl schedules
+ *
+ * Usage:
+ *   npm run sources -- list   Sources, locations, schedule and last completed crawl
+ *   npm run sources -- due    IDs of scheduled sources due for a crawl, one per line
+ *
+ * Crawl the due sources from cron with:
+ *   for s in $(npm run -s sources -- due); do npm run extract -- --source $s; done
+ */
+
+import 'dotenv/config';
+import logger from './utils/logger.js';
+import SourceRegistry from './learning/source-registry.js';
+
+class SourcesCommand {
+  private sources: SourceRegistry;
+
+  constructor() {
+    this.sources = new SourceRegistry();
+  }
+
+  async run(args: string[]): Promise<void> {
+    const [command = 'list'] = args;
+
+    await this.sources.load();
+
+    switch (command) {
+      case 'list':
+        return this.list();
+      case 'due':
+        return this.due();
+      default:
+        console.log(`Unknown command: ${command}`);
+        console.log('Available: list, due');
+    }
+  }
+
+  /**
+   * List sources with their locations and schedule
+   */
+  private async list(): Promise<void> {
+    console.log('\n=== TENDER SOURCES ===');
+
+    for (const source of this.sources.list()) {
+      const lastCrawl = await this.sources.getLastCrawl(source);
+      const schedule = source.schedule ? `every ${source.schedule.interval_hours}h` : 'manual';
+      const due = (await this.sources.isDue(source)) ? ' (due)' : '';
+
+      console.log(`${source.id}  ${source.name}${source.enabled ? '' : ' (disabled)'}`);
+      console.log(`  URL:        ${source.url}`);
+      console.log(`  Models:     ${this.sources.getModelsDir(source)}`);
+      console.log(`  Manifest:   ${this.sources.getManifestFile(source)}`);
+      console.log(`  Prompt:     ${source.prompt_file || 'default'}`);
+      console.log(`  Mapping:    ${Object.keys(source.field_mapping).length} extra header labels`);
+      console.log(`  Schedule:   ${schedule}${due}`);
+      console.log(`  Last crawl: ${lastCrawl ? lastCrawl.toISOString() : 'never'}`);
+    }
+  }
+
+  /**
+   * Print the IDs of sources due for a crawl
+   */
+  private async due(): Promise<void> {
+    for (const source of this.sources.list()) {
+      if (await this.sources.isDue(source)) {
+        console.log(source.id);
+      }
+    }
+  }
+}
+
+// Run command
+const sourcesCommand = new SourcesCommand();
+sourcesCommand.run(process.argv.slice(2)).catch((error) => {
+  logger.error('Fatal error', { error });
+  process.exit(1);
+});
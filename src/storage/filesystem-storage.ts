@@ -0,0 +1,303 @@
+/**
+ * Filesystem storage: the original JSON layout
+ *
+ * training_data/
+ *   examples/<id>.json
+ *   validations/<id>_validation.json
+ *   iterations/<session id>_<n>.json
+ *   sessions.json
+ *   metrics.json
+ *   model-calls.jsonl       (append-only)
+ * storage/
+ *   tenders.json
+ *   snapshots/<crawl id>.json
+ *   events.jsonl            (append-only)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { EventFilter, ExampleFilter, ModelCallFilter, StorageBackend } from './storage-backend.js';
+import { DEFAULT_SOURCE_ID } from '../learning/source-registry.js';
+import {
+  CrawlSnapshot,
+  LearningIteration,
+  LearningSession,
+  ModelCall,
+  ScrapingMetrics,
+  Tender,
+  TenderEvent,
+  TenderRecord,
+  TrainingExample,
+} from '../types/index.js';
+
+// Keep only the last 100 metrics to avoid file bloat
+const MAX_METRICS = 100;
+
+export class FileSystemStorage implements StorageBackend {
+  readonly name = 'filesystem';
+  private trainingDir: string;
+  private tendersFile: string;
+  private metricsFile: string;
+  private sessionsFile: string;
+  private snapshotsDir: string;
+  private eventsFile: string;
+  private modelCallsFile: string;
+
+  constructor(
+    trainingDir: string = process.env.TRAINING_DATA_DIR || './training_data',
+    tendersFile: string = process.env.TENDER_STORE_FILE || './storage/tenders.json'
+  ) {
+    this.trainingDir = trainingDir;
+    this.tendersFile = tendersFile;
+    this.metricsFile = path.join(trainingDir, 'metrics.json');
+    this.sessionsFile = path.join(trainingDir, 'sessions.json');
+    this.snapshotsDir = path.join(path.dirname(tendersFile), 'snapshots');
+    this.eventsFile = path.join(path.dirname(tendersFile), 'events.jsonl');
+    this.modelCallsFile = path.join(trainingDir, 'model-calls.jsonl');
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.join(this.trainingDir, 'examples'), { recursive: true });
+    await fs.mkdir(path.join(this.trainingDir, 'validations'), { recursive: true });
+    await fs.mkdir(path.join(this.trainingDir, 'iterations'), { recursive: true });
+
+    // Create metrics file if doesn't exist
+    try {
+      await fs.access(this.metricsFile);
+    } catch {
+      await fs.writeFile(this.metricsFile, JSON.stringify([], null, 2));
+    }
+
+    // Create sessions file if doesn't exist
+    try {
+      await fs.access(this.sessionsFile);
+    } catch {
+      await fs.writeFile(this.sessionsFile, JSON.stringify([], null, 2));
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  async getTenders(): Promise<TenderRecord[]> {
+    return this.readJson<TenderRecord[]>(this.tendersFile, []);
+  }
+
+  async upsertTenders(records: TenderRecord[]): Promise<void> {
+    const byKey = new Map((await this.getTenders()).map((r) => [r.key, r]));
+    for (const record of records) {
+      byKey.set(record.key, record);
+    }
+
+    await fs.mkdir(path.dirname(path.resolve(this.tendersFile)), { recursive: true });
+    await fs.writeFile(this.tendersFile, JSON.stringify(Array.from(byKey.values()), null, 2));
+  }
+
+  async deleteTenders(keys: string[]): Promise<void> {
+    const deleted = new Set(keys);
+    const records = await this.getTenders();
+    const kept = records.filter((r) => !deleted.has(r.key));
+    if (kept.length === records.length) return;
+
+    await fs.writeFile(this.tendersFile, JSON.stringify(kept, null, 2));
+  }
+
+  async saveSnapshot(snapshot: CrawlSnapshot): Promise<void> {
+    await fs.mkdir(this.snapshotsDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.snapshotsDir, `${snapshot.crawl_id}.json`),
+      JSON.stringify(snapshot, null, 2)
+    );
+  }
+
+  async getLatestSnapshot(sourceId: string, excludeCrawlId?: string): Promise<CrawlSnapshot | null> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.snapshotsDir);
+    } catch {
+      return null;
+    }
+
+    let latest: CrawlSnapshot | null = null;
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      const snapshot = await this.readJson<CrawlSnapshot | null>(path.join(this.snapshotsDir, file), null);
+      if (!snapshot || !snapshot.complete || snapshot.crawl_id === excludeCrawlId) continue;
+      if ((snapshot.source_id || DEFAULT_SOURCE_ID) !== sourceId) continue;
+
+      if (!latest || new Date(snapshot.taken_at) > new Date(latest.taken_at)) {
+        latest = snapshot;
+      }
+    }
+
+    return latest;
+  }
+
+  async saveEvents(events: TenderEvent[]): Promise<TenderEvent[]> {
+    const stored = new Set((await this.getEvents()).map((e) => e.id));
+    const fresh = events.filter((e) => !stored.has(e.id));
+    if (fresh.length === 0) return [];
+
+    await fs.mkdir(path.dirname(path.resolve(this.eventsFile)), { recursive: true });
+    await fs.appendFile(this.eventsFile, fresh.map((e) => JSON.stringify(e)).join('\n') + '\n');
+    return fresh;
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<TenderEvent[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.eventsFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as TenderEvent)
+      .filter(
+        (e) =>
+          (!filter.keyPrefixes || filter.keyPrefixes.some((prefix) => e.key.startsWith(prefix))) &&
+          (!filter.types || filter.types.includes(e.type)) &&
+          (!filter.since || new Date(e.detected_at) >= filter.since)
+      );
+  }
+
+  async saveExample(example: TrainingExample): Promise<void> {
+    await fs.writeFile(this.exampleFile(example.id), JSON.stringify(example, null, 2));
+  }
+
+  async getExample(id: string): Promise<TrainingExample | null> {
+    return this.readJson<TrainingExample | null>(this.exampleFile(id), null);
+  }
+
+  async listExamples(filter: ExampleFilter = {}): Promise<TrainingExample[]> {
+    try {
+      const examplesDir = path.join(this.trainingDir, 'examples');
+      const files = await fs.readdir(examplesDir);
+
+      const examples: TrainingExample[] = [];
+
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        const content = await fs.readFile(path.join(examplesDir, file), 'utf-8');
+        const example: TrainingExample = JSON.parse(content);
+
+        if (filter.validated === undefined || example.is_validated === filter.validated) {
+          examples.push(example);
+        }
+      }
+
+      return examples;
+    } catch (error) {
+      logger.error('Failed to list examples', { error });
+      return [];
+    }
+  }
+
+  async saveValidation(exampleId: string, tender: Tender): Promise<void> {
+    const validationFile = path.join(
+      this.trainingDir,
+      'validations',
+      `${exampleId}_validation.json`
+    );
+    await fs.writeFile(validationFile, JSON.stringify(tender, null, 2));
+  }
+
+  async saveSession(session: LearningSession): Promise<void> {
+    const sessions = await this.getSessions();
+    const index = sessions.findIndex((s) => s.id === session.id);
+
+    if (index >= 0) {
+      sessions[index] = session;
+    } else {
+      sessions.push(session);
+    }
+
+    await fs.writeFile(this.sessionsFile, JSON.stringify(sessions, null, 2));
+  }
+
+  async getSessions(): Promise<LearningSession[]> {
+    return this.readJson<LearningSession[]>(this.sessionsFile, []);
+  }
+
+  async addIteration(sessionId: string, iteration: LearningIteration): Promise<LearningSession> {
+    const sessions = await this.getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    session.iterations.push(iteration);
+    session.validation_accuracy = iteration.accuracy_after;
+
+    await fs.writeFile(this.sessionsFile, JSON.stringify(sessions, null, 2));
+    await fs.writeFile(
+      path.join(this.trainingDir, 'iterations', `${sessionId}_${iteration.iteration_number}.json`),
+      JSON.stringify(iteration, null, 2)
+    );
+
+    return session;
+  }
+
+  async appendMetrics(metrics: ScrapingMetrics): Promise<void> {
+    const allMetrics = await this.getMetrics();
+    allMetrics.push(metrics);
+
+    if (allMetrics.length > MAX_METRICS) {
+      allMetrics.splice(0, allMetrics.length - MAX_METRICS);
+    }
+
+    await fs.writeFile(this.metricsFile, JSON.stringify(allMetrics, null, 2));
+  }
+
+  async getMetrics(): Promise<ScrapingMetrics[]> {
+    return this.readJson<ScrapingMetrics[]>(this.metricsFile, []);
+  }
+
+  async saveModelCall(call: ModelCall): Promise<void> {
+    await fs.mkdir(this.trainingDir, { recursive: true });
+    await fs.appendFile(this.modelCallsFile, JSON.stringify(call) + '\n');
+  }
+
+  async getModelCalls(filter: ModelCallFilter = {}): Promise<ModelCall[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.modelCallsFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as ModelCall)
+      .filter(
+        (c) =>
+          (!filter.runId || c.run_id === filter.runId) &&
+          (!filter.sessionId || c.session_id === filter.sessionId) &&
+          (!filter.sourceId || c.source_id === filter.sourceId) &&
+          (!filter.since || new Date(c.called_at) >= filter.since)
+      );
+  }
+
+  private exampleFile(id: string): string {
+    return path.join(this.trainingDir, 'examples', `${id}.json`);
+  }
+
+  private async readJson<T>(file: string, fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+export default FileSystemStorage;
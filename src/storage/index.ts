@@ -0,0 +1,26 @@
+/**
+ * STORAGE
+ * Pick the backend with STORAGE_BACKEND=filesystem|postgres
+ */
+
+import FileSystemStorage from './filesystem-storage.js';
+import PostgresStorage from './postgres-storage.js';
+import { StorageBackend } from './storage-backend.js';
+
+export type { EventFilter, ExampleFilter, ModelCallFilter, StorageBackend } from './storage-backend.js';
+export { FileSystemStorage, PostgresStorage };
+
+export function createStorage(
+  backend: string = process.env.STORAGE_BACKEND || 'filesystem'
+): StorageBackend {
+  switch (backend) {
+    case 'filesystem':
+      return new FileSystemStorage();
+    case 'postgres':
+      return new PostgresStorage();
+    default:
+      throw new Error(`Unknown storage backend: ${backend} (expected filesystem or postgres)`);
+  }
+}
+
+export default createStorage;
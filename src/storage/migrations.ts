@@ -0,0 +1,155 @@
+/**
+ * POSTGRES SCHEMA MIGRATIONS
+ * Applied in order by PostgresStorage.migrate(); each version runs once
+ * and is recorded in schema_migrations. Append new versions, never edit
+ * ones that have shipped.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `
+      CREATE TABLE tenders (
+        key TEXT PRIMARY KEY,
+        tender JSONB NOT NULL,
+        field_confidence JSONB NOT NULL DEFAULT '{}',
+        first_seen TIMESTAMPTZ NOT NULL,
+        last_seen TIMESTAMPTZ NOT NULL,
+        capture_ids TEXT[] NOT NULL DEFAULT '{}'
+      );
+
+      CREATE TABLE training_examples (
+        id UUID PRIMARY KEY,
+        pdf_path TEXT NOT NULL,
+        pdf_url TEXT NOT NULL,
+        is_validated BOOLEAN NOT NULL DEFAULT FALSE,
+        learning_iteration INTEGER NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      );
+
+      CREATE INDEX training_examples_validated_idx ON training_examples (is_validated);
+      CREATE INDEX training_examples_pdf_path_idx ON training_examples (pdf_path);
+
+      CREATE TABLE validations (
+        example_id UUID PRIMARY KEY REFERENCES training_examples (id) ON DELETE CASCADE,
+        tender JSONB NOT NULL,
+        validated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE learning_sessions (
+        id UUID PRIMARY KEY,
+        started_at TIMESTAMPTZ NOT NULL,
+        examples_collected INTEGER NOT NULL DEFAULT 0,
+        validation_accuracy DOUBLE PRECISION NOT NULL DEFAULT 0,
+        status TEXT NOT NULL
+      );
+
+      CREATE TABLE learning_iterations (
+        session_id UUID NOT NULL REFERENCES learning_sessions (id) ON DELETE CASCADE,
+        iteration_number INTEGER NOT NULL,
+        examples_processed INTEGER NOT NULL,
+        accuracy_before DOUBLE PRECISION NOT NULL,
+        accuracy_after DOUBLE PRECISION NOT NULL,
+        improvements JSONB NOT NULL DEFAULT '[]',
+        timestamp TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (session_id, iteration_number)
+      );
+
+      CREATE TABLE metrics (
+        id BIGSERIAL PRIMARY KEY,
+        total_tenders_found INTEGER NOT NULL,
+        successfully_extracted INTEGER NOT NULL,
+        failed_extractions INTEGER NOT NULL,
+        average_confidence DOUBLE PRECISION NOT NULL,
+        extraction_accuracy DOUBLE PRECISION NOT NULL,
+        processing_time_ms INTEGER NOT NULL,
+        timestamp TIMESTAMPTZ NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'tender_events',
+    sql: `
+      ALTER TABLE tenders ADD COLUMN last_crawl_id TEXT;
+
+      CREATE TABLE crawl_snapshots (
+        crawl_id TEXT PRIMARY KEY,
+        taken_at TIMESTAMPTZ NOT NULL,
+        complete BOOLEAN NOT NULL,
+        tenders JSONB NOT NULL
+      );
+
+      CREATE INDEX crawl_snapshots_complete_idx ON crawl_snapshots (complete, taken_at);
+
+      CREATE TABLE tender_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        key TEXT NOT NULL,
+        daftar TEXT NOT NULL,
+        crawl_id TEXT NOT NULL,
+        detected_at TIMESTAMPTZ NOT NULL,
+        changes JSONB NOT NULL DEFAULT '[]',
+        tender JSONB NOT NULL
+      );
+
+      CREATE INDEX tender_events_key_idx ON tender_events (key text_pattern_ops);
+      CREATE INDEX tender_events_detected_at_idx ON tender_events (detected_at);
+    `,
+  },
+  {
+    version: 3,
+    name: 'tender_sources',
+    sql: `
+      ALTER TABLE crawl_snapshots ADD COLUMN source_id TEXT NOT NULL DEFAULT 'eperolehan';
+
+      CREATE INDEX crawl_snapshots_source_idx ON crawl_snapshots (source_id, complete, taken_at);
+    `,
+  },
+  {
+    version: 4,
+    name: 'model_usage',
+    sql: `
+      ALTER TABLE metrics
+        ADD COLUMN run_id TEXT,
+        ADD COLUMN session_id TEXT,
+        ADD COLUMN source_id TEXT,
+        ADD COLUMN model_calls INTEGER,
+        ADD COLUMN prompt_tokens BIGINT,
+        ADD COLUMN response_tokens BIGINT,
+        ADD COLUMN estimated_cost_usd DOUBLE PRECISION;
+
+      CREATE TABLE model_calls (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        session_id TEXT,
+        source_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_version INTEGER,
+        pdf_path TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        response_tokens INTEGER NOT NULL,
+        usage_estimated BOOLEAN NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        cost_usd DOUBLE PRECISION NOT NULL,
+        success BOOLEAN NOT NULL,
+        error TEXT,
+        called_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE INDEX model_calls_run_idx ON model_calls (run_id);
+      CREATE INDEX model_calls_called_at_idx ON model_calls (called_at);
+    `,
+  },
+];
+
+export default MIGRATIONS;
@@ -0,0 +1,504 @@
+/**
+ * Postgres storage
+ * Tenders, crawl snapshots, change events, examples, validations,
+ * sessions, iterations, metrics and model calls in DATABASE_URL. Run migrate() (npm run db -- migrate) before first use.
+ */
+
+import postgres from 'postgres';
+import logger from '../utils/logger.js';
+import { MIGRATIONS } from './migrations.js';
+import { EventFilter, ExampleFilter, ModelCallFilter, StorageBackend } from './storage-backend.js';
+import { DEFAULT_SOURCE_ID } from '../learning/source-registry.js';
+import {
+  CrawlSnapshot,
+  LearningIteration,
+  LearningSession,
+  ModelCall,
+  ScrapingMetrics,
+  Tender,
+  TenderEvent,
+  TenderRecord,
+  TrainingExample,
+} from '../types/index.js';
+
+// Same retention as the filesystem metrics.json
+const MAX_METRICS = 100;
+
+export class PostgresStorage implements StorageBackend {
+  readonly name = 'postgres';
+  private sql: postgres.Sql;
+
+  constructor(databaseUrl: string | undefined = process.env.DATABASE_URL) {
+    if (!databaseUrl) {
+      throw new Error('DATABASE_URL not set');
+    }
+
+    this.sql = postgres(databaseUrl, { onnotice: () => {} });
+  }
+
+  async initialize(): Promise<void> {
+    const pending = await this.pendingMigrations();
+    if (pending.length > 0) {
+      throw new Error(
+        `Database schema is out of date (${pending.length} pending migrations). Run: npm run db -- migrate`
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.sql.end();
+  }
+
+  /**
+   * Apply pending migrations, each in its own transaction
+   */
+  async migrate(): Promise<number[]> {
+    await this.ensureMigrationsTable();
+    const applied: number[] = [];
+
+    for (const migration of await this.pendingMigrations()) {
+      await this.sql.begin(async (tx) => {
+        await tx.unsafe(migration.sql);
+        await tx`
+          INSERT INTO schema_migrations (version, name)
+          VALUES (${migration.version}, ${migration.name})
+        `;
+      });
+
+      applied.push(migration.version);
+      logger.info('Migration applied', { version: migration.version, name: migration.name });
+    }
+
+    return applied;
+  }
+
+  /**
+   * Versions already applied to the database
+   */
+  async appliedMigrations(): Promise<number[]> {
+    await this.ensureMigrationsTable();
+    const rows = await this.sql`SELECT version FROM schema_migrations ORDER BY version`;
+    return rows.map((r) => r.version as number);
+  }
+
+  async getTenders(): Promise<TenderRecord[]> {
+    const rows = await this.sql`SELECT * FROM tenders ORDER BY first_seen`;
+
+    return rows.map((r) => ({
+      key: r.key,
+      tender: r.tender,
+      field_confidence: r.field_confidence,
+      first_seen: r.first_seen,
+      last_seen: r.last_seen,
+      capture_ids: r.capture_ids,
+      last_crawl_id: r.last_crawl_id ?? undefined,
+    }));
+  }
+
+  async upsertTenders(records: TenderRecord[]): Promise<void> {
+    await this.sql.begin(async (tx) => {
+      for (const record of records) {
+        await tx`
+          INSERT INTO tenders (key, tender, field_confidence, first_seen, last_seen, capture_ids, last_crawl_id)
+          VALUES (
+            ${record.key},
+            ${tx.json(this.toJson(record.tender))},
+            ${tx.json(this.toJson(record.field_confidence))},
+            ${new Date(record.first_seen)},
+            ${new Date(record.last_seen)},
+            ${record.capture_ids},
+            ${record.last_crawl_id ?? null}
+          )
+          ON CONFLICT (key) DO UPDATE SET
+            tender = EXCLUDED.tender,
+            field_confidence = EXCLUDED.field_confidence,
+            first_seen = EXCLUDED.first_seen,
+            last_seen = EXCLUDED.last_seen,
+            capture_ids = EXCLUDED.capture_ids,
+            last_crawl_id = EXCLUDED.last_crawl_id
+        `;
+      }
+    });
+  }
+
+  async deleteTenders(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.sql`DELETE FROM tenders WHERE key IN ${this.sql(keys)}`;
+  }
+
+  async saveSnapshot(snapshot: CrawlSnapshot): Promise<void> {
+    await this.sql`
+      INSERT INTO crawl_snapshots (crawl_id, source_id, taken_at, complete, tenders)
+      VALUES (
+        ${snapshot.crawl_id},
+        ${snapshot.source_id || DEFAULT_SOURCE_ID},
+        ${new Date(snapshot.taken_at)},
+        ${snapshot.complete},
+        ${this.sql.json(this.toJson(snapshot.tenders))}
+      )
+      ON CONFLICT (crawl_id) DO UPDATE SET
+        source_id = EXCLUDED.source_id,
+        taken_at = EXCLUDED.taken_at,
+        complete = EXCLUDED.complete,
+        tenders = EXCLUDED.tenders
+    `;
+  }
+
+  async getLatestSnapshot(sourceId: string, excludeCrawlId?: string): Promise<CrawlSnapshot | null> {
+    const rows = await this.sql`
+      SELECT * FROM crawl_snapshots
+      WHERE complete AND source_id = ${sourceId} AND crawl_id <> ${excludeCrawlId ?? ''}
+      ORDER BY taken_at DESC
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) return null;
+
+    return {
+      crawl_id: rows[0].crawl_id,
+      source_id: rows[0].source_id,
+      taken_at: rows[0].taken_at,
+      complete: rows[0].complete,
+      tenders: rows[0].tenders,
+    };
+  }
+
+  async saveEvents(events: TenderEvent[]): Promise<TenderEvent[]> {
+    const fresh: TenderEvent[] = [];
+
+    await this.sql.begin(async (tx) => {
+      for (const event of events) {
+        const inserted = await tx`
+          INSERT INTO tender_events (id, type, key, daftar, crawl_id, detected_at, changes, tender)
+          VALUES (
+            ${event.id},
+            ${event.type},
+            ${event.key},
+            ${event.daftar},
+            ${event.crawl_id},
+            ${new Date(event.detected_at)},
+            ${tx.json(this.toJson(event.changes))},
+            ${tx.json(this.toJson(event.tender))}
+          )
+          ON CONFLICT (id) DO NOTHING
+          RETURNING id
+        `;
+
+        if (inserted.length > 0) {
+          fresh.push(event);
+        }
+      }
+    });
+
+    return fresh;
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<TenderEvent[]> {
+    const rows = await this.sql`
+      SELECT * FROM tender_events
+      WHERE TRUE
+        ${filter.keyPrefixes ? this.sql`AND key LIKE ANY(${this.likePatterns(filter.keyPrefixes)})` : this.sql``}
+        ${filter.types ? this.sql`AND type IN ${this.sql(filter.types)}` : this.sql``}
+        ${filter.since ? this.sql`AND detected_at >= ${filter.since}` : this.sql``}
+      ORDER BY detected_at, id
+    `;
+
+    return rows.map((r) => ({
+      id: r.id,
+      type: r.type,
+      key: r.key,
+      daftar: r.daftar,
+      crawl_id: r.crawl_id,
+      detected_at: r.detected_at,
+      changes: r.changes,
+      tender: r.tender,
+    }));
+  }
+
+  async saveExample(example: TrainingExample): Promise<void> {
+    await this.sql`
+      INSERT INTO training_examples (id, pdf_path, pdf_url, is_validated, learning_iteration, created_at, data)
+      VALUES (
+        ${example.id},
+        ${example.pdf_path},
+        ${example.pdf_url},
+        ${example.is_validated},
+        ${example.learning_iteration},
+        ${new Date(example.created_at)},
+        ${this.sql.json(this.toJson(example))}
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        pdf_path = EXCLUDED.pdf_path,
+        pdf_url = EXCLUDED.pdf_url,
+        is_validated = EXCLUDED.is_validated,
+        learning_iteration = EXCLUDED.learning_iteration,
+        data = EXCLUDED.data
+    `;
+  }
+
+  async getExample(id: string): Promise<TrainingExample | null> {
+    const rows = await this.sql`SELECT data FROM training_examples WHERE id = ${id}`;
+    return rows.length > 0 ? (rows[0].data as TrainingExample) : null;
+  }
+
+  async listExamples(filter: ExampleFilter = {}): Promise<TrainingExample[]> {
+    const rows =
+      filter.validated === undefined
+        ? await this.sql`SELECT data FROM training_examples ORDER BY created_at`
+        : await this.sql`
+            SELECT data FROM training_examples
+            WHERE is_validated = ${filter.validated}
+            ORDER BY created_at
+          `;
+
+    return rows.map((r) => r.data as TrainingExample);
+  }
+
+  async saveValidation(exampleId: string, tender: Tender): Promise<void> {
+    await this.sql`
+      INSERT INTO validations (example_id, tender)
+      VALUES (${exampleId}, ${this.sql.json(this.toJson(tender))})
+      ON CONFLICT (example_id) DO UPDATE SET
+        tender = EXCLUDED.tender,
+        validated_at = NOW()
+    `;
+  }
+
+  async saveSession(session: LearningSession): Promise<void> {
+    await this.sql.begin(async (tx) => {
+      await tx`
+        INSERT INTO learning_sessions (id, started_at, examples_collected, validation_accuracy, status)
+        VALUES (
+          ${session.id},
+          ${new Date(session.started_at)},
+          ${session.examples_collected},
+          ${session.validation_accuracy},
+          ${session.status}
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          examples_collected = EXCLUDED.examples_collected,
+          validation_accuracy = EXCLUDED.validation_accuracy,
+          status = EXCLUDED.status
+      `;
+
+      for (const iteration of session.iterations) {
+        await this.insertIteration(tx, session.id, iteration);
+      }
+    });
+  }
+
+  async getSessions(): Promise<LearningSession[]> {
+    const sessions = await this.sql`SELECT * FROM learning_sessions ORDER BY started_at`;
+    const iterations = await this.sql`
+      SELECT * FROM learning_iterations ORDER BY session_id, iteration_number
+    `;
+
+    return sessions.map((s) => ({
+      id: s.id,
+      started_at: s.started_at,
+      examples_collected: s.examples_collected,
+      validation_accuracy: s.validation_accuracy,
+      status: s.status,
+      iterations: iterations
+        .filter((i) => i.session_id === s.id)
+        .map((i) => ({
+          iteration_number: i.iteration_number,
+          examples_processed: i.examples_processed,
+          accuracy_before: i.accuracy_before,
+          accuracy_after: i.accuracy_after,
+          improvements: i.improvements,
+          timestamp: i.timestamp,
+        })),
+    }));
+  }
+
+  async addIteration(sessionId: string, iteration: LearningIteration): Promise<LearningSession> {
+    await this.sql.begin(async (tx) => {
+      const updated = await tx`
+        UPDATE learning_sessions
+        SET validation_accuracy = ${iteration.accuracy_after}
+        WHERE id = ${sessionId}
+        RETURNING id
+      `;
+
+      if (updated.length === 0) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+
+      await this.insertIteration(tx, sessionId, iteration);
+    });
+
+    const session = (await this.getSessions()).find((s) => s.id === sessionId);
+    return session!;
+  }
+
+  async appendMetrics(metrics: ScrapingMetrics): Promise<void> {
+    await this.sql.begin(async (tx) => {
+      await tx`
+        INSERT INTO metrics (
+          total_tenders_found, successfully_extracted, failed_extractions,
+          average_confidence, extraction_accuracy, processing_time_ms, timestamp,
+          run_id, session_id, source_id, model_calls, prompt_tokens, response_tokens, estimated_cost_usd
+        )
+        VALUES (
+          ${metrics.total_tenders_found},
+          ${metrics.successfully_extracted},
+          ${metrics.failed_extractions},
+          ${metrics.average_confidence},
+          ${metrics.extraction_accuracy},
+          ${Math.round(metrics.processing_time_ms)},
+          ${new Date(metrics.timestamp)},
+          ${metrics.run_id ?? null},
+          ${metrics.session_id ?? null},
+          ${metrics.source_id ?? null},
+          ${metrics.model_calls ?? null},
+          ${metrics.prompt_tokens ?? null},
+          ${metrics.response_tokens ?? null},
+          ${metrics.estimated_cost_usd ?? null}
+        )
+      `;
+      await tx`
+        DELETE FROM metrics
+        WHERE id NOT IN (SELECT id FROM metrics ORDER BY id DESC LIMIT ${MAX_METRICS})
+      `;
+    });
+  }
+
+  async getMetrics(): Promise<ScrapingMetrics[]> {
+    const rows = await this.sql`SELECT * FROM metrics ORDER BY id`;
+
+    return rows.map((r) => ({
+      total_tenders_found: r.total_tenders_found,
+      successfully_extracted: r.successfully_extracted,
+      failed_extractions: r.failed_extractions,
+      average_confidence: r.average_confidence,
+      extraction_accuracy: r.extraction_accuracy,
+      processing_time_ms: r.processing_time_ms,
+      timestamp: r.timestamp,
+      run_id: r.run_id ?? undefined,
+      session_id: r.session_id ?? undefined,
+      source_id: r.source_id ?? undefined,
+      model_calls: r.model_calls ?? undefined,
+      prompt_tokens: r.prompt_tokens !== null ? Number(r.prompt_tokens) : undefined,
+      response_tokens: r.response_tokens !== null ? Number(r.response_tokens) : undefined,
+      estimated_cost_usd: r.estimated_cost_usd ?? undefined,
+    }));
+  }
+
+  async saveModelCall(call: ModelCall): Promise<void> {
+    await this.sql`
+      INSERT INTO model_calls (
+        id, run_id, session_id, source_id, provider, model, prompt_version, pdf_path,
+        prompt_tokens, response_tokens, usage_estimated, latency_ms, cost_usd, success, error, called_at
+      )
+      VALUES (
+        ${call.id},
+        ${call.run_id},
+        ${call.session_id ?? null},
+        ${call.source_id ?? null},
+        ${call.provider},
+        ${call.model},
+        ${call.prompt_version},
+        ${call.pdf_path},
+        ${call.prompt_tokens},
+        ${call.response_tokens},
+        ${call.usage_estimated},
+        ${Math.round(call.latency_ms)},
+        ${call.cost_usd},
+        ${call.success},
+        ${call.error ?? null},
+        ${new Date(call.called_at)}
+      )
+      ON CONFLICT (id) DO NOTHING
+    `;
+  }
+
+  async getModelCalls(filter: ModelCallFilter = {}): Promise<ModelCall[]> {
+    const rows = await this.sql`
+      SELECT * FROM model_calls
+      WHERE TRUE
+        ${filter.runId ? this.sql`AND run_id = ${filter.runId}` : this.sql``}
+        ${filter.sessionId ? this.sql`AND session_id = ${filter.sessionId}` : this.sql``}
+        ${filter.sourceId ? this.sql`AND source_id = ${filter.sourceId}` : this.sql``}
+        ${filter.since ? this.sql`AND called_at >= ${filter.since}` : this.sql``}
+      ORDER BY called_at, id
+    `;
+
+    return rows.map((r) => ({
+      id: r.id,
+      run_id: r.run_id,
+      session_id: r.session_id ?? undefined,
+      source_id: r.source_id ?? undefined,
+      provider: r.provider,
+      model: r.model,
+      prompt_version: r.prompt_version,
+      pdf_path: r.pdf_path,
+      prompt_tokens: r.prompt_tokens,
+      response_tokens: r.response_tokens,
+      usage_estimated: r.usage_estimated,
+      latency_ms: r.latency_ms,
+      cost_usd: r.cost_usd,
+      success: r.success,
+      error: r.error ?? undefined,
+      called_at: r.called_at,
+    }));
+  }
+
+  private async insertIteration(
+    tx: postgres.TransactionSql,
+    sessionId: string,
+    iteration: LearningIteration
+  ): Promise<void> {
+    await tx`
+      INSERT INTO learning_iterations (
+        session_id, iteration_number, examples_processed,
+        accuracy_before, accuracy_after, improvements, timestamp
+      )
+      VALUES (
+        ${sessionId},
+        ${iteration.iteration_number},
+        ${iteration.examples_processed},
+        ${iteration.accuracy_before},
+        ${iteration.accuracy_after},
+        ${tx.json(iteration.improvements)},
+        ${new Date(iteration.timestamp)}
+      )
+      ON CONFLICT (session_id, iteration_number) DO NOTHING
+    `;
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+  }
+
+  private async pendingMigrations() {
+    const applied = new Set(await this.appliedMigrations());
+    return MIGRATIONS.filter((m) => !applied.has(m.version));
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+  }
+
+  /**
+   * LIKE patterns matching keys that start with any of the prefixes
+   */
+  private likePatterns(prefixes: string[]) {
+    return this.sql.array(prefixes.map((prefix) => this.escapeLike(prefix) + '%'));
+  }
+
+  /**
+   * Round-trip through JSON so dates become strings, as in the JSON files
+   */
+  private toJson(value: unknown): postgres.JSONValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
+
+export default PostgresStorage;
@@ -0,0 +1,75 @@
+/**
+ * STORAGE BACKEND INTERFACE
+ * Persistence for tenders, crawl snapshots, change events, training
+ * examples, validations, sessions, iterations, metrics and model calls. The filesystem layout under TRAINING_DATA_DIR
+ * and PostgreSQL both implement it.
+ */
+
+import {
+  CrawlSnapshot,
+  LearningIteration,
+  LearningSession,
+  ModelCall,
+  ScrapingMetrics,
+  Tender,
+  TenderEvent,
+  TenderEventType,
+  TenderRecord,
+  TrainingExample,
+} from '../types/index.js';
+
+export interface ExampleFilter {
+  validated?: boolean;
+}
+
+export interface EventFilter {
+  keyPrefixes?: string[]; // Any of them, e.g. TenderStore.daftarPrefix()
+  types?: TenderEventType[];
+  since?: Date;
+}
+
+export interface ModelCallFilter {
+  runId?: string;
+  sessionId?: string;
+  sourceId?: string;
+  since?: Date;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+
+  // Tenders
+  getTenders(): Promise<TenderRecord[]>;
+  upsertTenders(records: TenderRecord[]): Promise<void>;
+  deleteTenders(keys: string[]): Promise<void>;
+
+  // Crawl snapshots and change events
+  saveSnapshot(snapshot: CrawlSnapshot): Promise<void>;
+  getLatestSnapshot(sourceId: string, excludeCrawlId?: string): Promise<CrawlSnapshot | null>; // Latest complete one
+  saveEvents(events: TenderEvent[]): Promise<TenderEvent[]>; // Returns the ones not stored before
+  getEvents(filter?: EventFilter): Promise<TenderEvent[]>; // Oldest first
+
+  // Training examples
+  saveExample(example: TrainingExample): Promise<void>;
+  getExample(id: string): Promise<TrainingExample | null>;
+  listExamples(filter?: ExampleFilter): Promise<TrainingExample[]>;
+
+  // Validations
+  saveValidation(exampleId: string, tender: Tender): Promise<void>;
+
+  // Sessions and iterations
+  saveSession(session: LearningSession): Promise<void>;
+  getSessions(): Promise<LearningSession[]>;
+  addIteration(sessionId: string, iteration: LearningIteration): Promise<LearningSession>;
+
+  // Metrics
+  appendMetrics(metrics: ScrapingMetrics): Promise<void>;
+  getMetrics(): Promise<ScrapingMetrics[]>;
+
+  // Model calls
+  saveModelCall(call: ModelCall): Promise<void>;
+  getModelCalls(filter?: ModelCallFilter): Promise<ModelCall[]>; // Oldest first
+}
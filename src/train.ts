@@ -2,24 +2,57 @@
  * CONTINUOUS TRAINING LOOP
  * Improves extraction accuracy iteration by iteration
  * Run this after each validation phase to improve results
+ *
+ * Each source has its own prompt, trained on the examples extracted from it.
+ * Examples in the frozen test set (npm run eval -- freeze) are never trained
+ * on, and a better prompt is only promoted if it does not regress on them.
+ * The check replays both prompts' answers to the test PDFs as npm run eval
+ * does, first recording the missing ones live (counting against
+ * MODEL_BUDGET_USD). Without a test set nothing is promoted; use
+ * npm run prompts -- promote N.
+ *
+ * Usage: npm run train -- [--source ID]
  */
 
 import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
 import logger from './utils/logger.js';
 import TrainingDataManager from './learning/training-manager.js';
 import GeminiExtractor from './learning/gemini-extractor.js';
+import { createExtractionProvider, RecordingProvider, ReplayProvider } from './learning/providers/index.js';
 import PDFCapture from './learning/pdf-capture.js';
+import PromptRegistry from './learning/prompt-registry.js';
+import RowMatcher from './learning/row-matcher.js';
+import SourceRegistry from './learning/source-registry.js';
+import UsageTracker, { BudgetExceededError } from './learning/usage-tracker.js';
+import HeldOutSet from './learning/test-set.js';
+import Evaluator from './learning/evaluator.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import { GateResult, LearningIteration, PromptVersion, TenderSource, TrainingExample } from './types/index.js';
 
 class ContinuousTrainer {
+  private sources: SourceRegistry;
+  private source: TenderSource;
+  private storage: StorageBackend;
   private trainingManager: TrainingDataManager;
   private extractor: GeminiExtractor;
   private pdfCapture: PDFCapture;
+  private promptRegistry: PromptRegistry;
+  private rowMatcher: RowMatcher;
+  private heldOut: HeldOutSet;
   private iteration: number = 0;
 
-  constructor() {
-    this.trainingManager = new TrainingDataManager();
+  constructor(sources: SourceRegistry, source: TenderSource) {
+    this.sources = sources;
+    this.source = source;
+    this.storage = createStorage();
+    this.trainingManager = new TrainingDataManager(this.storage, undefined, source.id);
     this.extractor = new GeminiExtractor();
     this.pdfCapture = new PDFCapture();
+    this.promptRegistry = new PromptRegistry(sources.getModelsDir(source));
+    this.rowMatcher = new RowMatcher();
+    this.heldOut = new HeldOutSet(sources.getModelsDir(source));
   }
 
   /**
@@ -27,15 +60,20 @@ class ContinuousTrainer {
    */
   async train(): Promise<void> {
     try {
-      logger.info('Starting Continuous Training...');
+      logger.info('Starting Continuous Training...', { source: this.source.id });
       await this.trainingManager.initialize();
+      const activePrompt = await this.extractor.loadActivePrompt(
+        this.promptRegistry,
+        await this.sources.loadSeedPrompt(this.source)
+      );
 
-      // Get current accuracy
-      const currentAccuracy = await this.trainingManager.calculateAccuracy();
-      logger.info(`Current Extraction Accuracy: ${currentAccuracy}%`);
+      // Get current training-set accuracy of the active prompt, leaving the test set alone
+      await this.heldOut.load();
+      const currentAccuracy = await this.trainingManager.calculateAccuracy([activePrompt.version], this.heldOut);
+      logger.info(`Current Training-Set Accuracy: ${currentAccuracy}%`);
 
       // Get validated examples to analyze failures
-      const validated = await this.trainingManager.getValidatedExamples();
+      const validated = this.heldOut.trainingExamples(await this.trainingManager.getValidatedExamples());
 
       if (validated.length === 0) {
         console.log('No validated examples found. Run learn.ts first.');
@@ -50,7 +88,7 @@ class ContinuousTrainer {
       logger.info(`Starting iteration ${this.iteration}`);
 
       // Analyze failures
-      const failures = this.analyzeFailures(validated);
+      const failures = this.analyzeFailures(validated, [activePrompt.version]);
       logger.info(`Found ${failures.length} failed extractions`);
 
       if (failures.length === 0) {
@@ -60,55 +98,123 @@ class ContinuousTrainer {
 
       // Generate improved prompt based on failures
       const improvedPrompt = this.generateImprovedPrompt(failures);
-      this.extractor.updatePrompt(improvedPrompt);
+      const candidatePrompt = await this.promptRegistry.register(improvedPrompt, {
+        parentVersion: activePrompt.version,
+        failurePatterns: this.identifyFailurePatterns(failures),
+      });
+      this.extractor.usePromptVersion(candidatePrompt);
 
       console.log('\n=== IMPROVED EXTRACTION PROMPT ===');
       console.log(improvedPrompt);
       console.log('\n');
 
-      // Re-extract failed examples with improved prompt
+      // Re-extract the PDFs behind the failures with the improved prompt and
+      // store each matched row as a candidate extraction for its example
       logger.info('Re-extracting failed examples with improved prompt...');
       let reprocessedCount = 0;
-      let improvementCount = 0;
+      let fixedCount = 0;
+      let regressedCount = 0;
+      let missedCount = 0;
+
+      const failedPdfs = [...new Set(failures.map((f) => f.pdf_path as string))].slice(0, 10);
+
+      const usageTracker = new UsageTracker(this.storage, {
+        run_id: randomUUID(),
+        session_id: (await this.trainingManager.getSessions()).slice(-1)[0]?.id,
+        source_id: this.source.id,
+      });
+      this.extractor.setUsageTracker(usageTracker);
 
-      for (const failedExample of failures.slice(0, 10)) {
-        // Reprocess top 10 failures
+      for (const pdfPath of failedPdfs) {
+        // Reprocess PDFs of the top 10 failures
         try {
-          const reextractions = await this.extractor.extractFromPDF(
-            failedExample.pdf_path
+          const reextractions = await this.extractor.extractFromPDF(pdfPath);
+
+          const pdfExamples = validated.filter((e) => e.pdf_path === pdfPath);
+          const alignment = this.rowMatcher.align(
+            reextractions.map((r) => r.tender),
+            pdfExamples.map((e) => e.manual_validation!)
           );
+          missedCount += alignment.missed.length;
+
+          for (const match of alignment.matches) {
+            const example = pdfExamples[match.known_index];
+            const truth = example.manual_validation!;
+            const reextraction = reextractions[match.extracted_index];
 
-          if (reextractions.length > 0) {
-            const newConfidence = reextractions[0].confidence.overall;
-            const oldConfidence = failedExample.confidence_score;
+            await this.trainingManager.addCandidateExtraction(example.id, {
+              prompt_version: candidatePrompt.version,
+              extraction: reextraction,
+              extracted_at: new Date(),
+            });
 
-            if (newConfidence > oldConfidence) {
-              improvementCount++;
-              logger.info(
-                `Improvement: ${oldConfidence.toFixed(3)} → ${newConfidence.toFixed(3)}`
-              );
-            }
+            const before = this.trainingManager.getExtractionForPrompt(example, [activePrompt.version]);
+            const wasCorrect = this.trainingManager.isCorrectExtraction(before.tender, truth);
+            const isCorrect = this.trainingManager.isCorrectExtraction(reextraction.tender, truth);
 
-            reprocessedCount++;
+            if (!wasCorrect && isCorrect) fixedCount++;
+            if (wasCorrect && !isCorrect) regressedCount++;
           }
+
+          reprocessedCount++;
         } catch (error) {
-          logger.error(`Failed to reprocess example`, { error });
+          if (error instanceof BudgetExceededError) {
+            logger.error('Model budget reached, skipping remaining PDFs', { error: error.message });
+            break;
+          }
+
+          logger.error(`Failed to reprocess PDF`, { pdfPath, error });
         }
       }
 
       // Create iteration record
-      const iterationRecord: any = {
+      const iterationRecord: LearningIteration = {
         iteration_number: this.iteration,
         examples_processed: validated.length,
         accuracy_before: currentAccuracy,
-        accuracy_after: await this.trainingManager.calculateAccuracy(),
+        accuracy_after: await this.trainingManager.calculateAccuracy(
+          [candidatePrompt.version, activePrompt.version],
+          this.heldOut
+        ),
+        accuracy_scope: 'training_set',
         improvements: [
           `Improved prompt based on ${failures.length} failures`,
-          `Reprocessed ${reprocessedCount} examples with ${improvementCount} showing improvement`,
+          `Reprocessed ${reprocessedCount} PDFs: ${fixedCount} rows fixed, ${regressedCount} regressed, ${missedCount} missed`,
         ],
         timestamp: new Date(),
       };
 
+      // Record prompt lineage and keep the better prompt active
+      if (activePrompt.accuracy === null) {
+        await this.promptRegistry.setAccuracy(activePrompt.version, iterationRecord.accuracy_before);
+      }
+      await this.promptRegistry.setAccuracy(candidatePrompt.version, iterationRecord.accuracy_after);
+
+      // Only a measured gain counts: with nothing re-extracted the candidate
+      // is scored on the active prompt's rows and ties it
+      const improved =
+        reprocessedCount > 0 &&
+        fixedCount > regressedCount &&
+        iterationRecord.accuracy_after > iterationRecord.accuracy_before;
+      const gate = improved ? await this.heldOutGate(activePrompt, candidatePrompt, usageTracker) : null;
+
+      if (gate && !gate.passed) {
+        iterationRecord.improvements.push(
+          `Kept prompt v${activePrompt.version}; v${candidatePrompt.version} did not pass the held-out gate: ` +
+            gate.reasons.join('; ')
+        );
+        console.log(`Promote it later with: npm run prompts -- promote ${candidatePrompt.version}`);
+      } else if (improved) {
+        await this.promptRegistry.promote(candidatePrompt.version);
+        iterationRecord.improvements.push(`Promoted prompt v${candidatePrompt.version}`);
+      } else {
+        iterationRecord.improvements.push(
+          reprocessedCount === 0
+            ? `Kept prompt v${activePrompt.version}; v${candidatePrompt.version} re-extracted no PDF`
+            : `Kept prompt v${activePrompt.version}; v${candidatePrompt.version} did not improve`
+        );
+      }
+
       const sessions = await this.trainingManager.getSessions();
       if (sessions.length > 0) {
         const lastSession = sessions[sessions.length - 1];
@@ -118,11 +224,13 @@ class ContinuousTrainer {
       // Generate new report
       console.log('\n=== TRAINING RESULTS ===');
       console.log(`Iteration: ${this.iteration}`);
-      console.log(`Accuracy Before: ${iterationRecord.accuracy_before}%`);
-      console.log(`Accuracy After: ${iterationRecord.accuracy_after}%`);
+      console.log(`Training-Set Accuracy Before: ${iterationRecord.accuracy_before}%`);
+      console.log(`Training-Set Accuracy After: ${iterationRecord.accuracy_after}%`);
       console.log(
         `Improvement: ${(iterationRecord.accuracy_after - iterationRecord.accuracy_before).toFixed(2)}%`
       );
+      const usage = usageTracker.getSummary();
+      console.log(`Model calls: ${usage.calls} (${usage.prompt_tokens + usage.response_tokens} tokens, $${usage.cost_usd.toFixed(4)})`);
 
       if (iterationRecord.accuracy_after >= 95) {
         console.log('\n✓ Target accuracy (95%) achieved!');
@@ -134,21 +242,108 @@ class ContinuousTrainer {
     } catch (error) {
       logger.error('Training failed', { error });
       throw error;
+    } finally {
+      await this.trainingManager.close();
     }
   }
 
+  /**
+   * Replay both prompts' answers to the frozen test set and check the
+   * candidate for regressions. Answers not recorded yet (always the case for
+   * a prompt registered this run) are first recorded live, within the model
+   * budget. Without a test set there is nothing to check, so the gate fails.
+   */
+  private async heldOutGate(
+    active: PromptVersion,
+    candidate: PromptVersion,
+    usageTracker: UsageTracker
+  ): Promise<GateResult> {
+    const testExamples = this.heldOut.testExamples(await this.trainingManager.getValidatedExamples());
+    if (testExamples.length === 0) {
+      return { passed: false, reasons: ['No frozen test set to check it on (npm run eval -- freeze)'], checks: [] };
+    }
+
+    const evaluator = new Evaluator();
+    const versions = [active, candidate];
+    const runs = versions.map((promptVersion) => ({
+      label: `v${promptVersion.version}`,
+      prompt_version: promptVersion.version,
+      model: null,
+      extractor: Evaluator.replayExtractor(promptVersion),
+    }));
+    let reports = await evaluator.evaluate(runs, testExamples);
+
+    let recorded = 0;
+    for (let i = 0; i < versions.length; i++) {
+      recorded += await this.recordTestAnswers(versions[i], reports[i].unanswered_pdfs, usageTracker);
+    }
+    if (recorded > 0) reports = await evaluator.evaluate(runs, testExamples);
+
+    const [baseline, report] = reports;
+    const gate = evaluator.gate(baseline, report);
+
+    console.log(`\n=== HELD-OUT GATE: ${gate.passed ? 'PASSED' : 'FAILED'} (${report.pdfs} test PDFs) ===`);
+    console.log(
+      `Exact match: v${active.version} ${(baseline.exact_match.value * 100).toFixed(1)}% -> ` +
+        `v${candidate.version} ${(report.exact_match.value * 100).toFixed(1)}%`
+    );
+    gate.reasons.forEach((reason) => console.log(`- ${reason}`));
+
+    return gate;
+  }
+
+  /**
+   * Record a prompt's live answers to test PDFs so they can be replayed;
+   * returns how many were recorded
+   */
+  private async recordTestAnswers(
+    promptVersion: PromptVersion,
+    pdfPaths: string[],
+    usageTracker: UsageTracker
+  ): Promise<number> {
+    if (pdfPaths.length === 0) return 0;
+
+    const provider = createExtractionProvider();
+    if (provider instanceof ReplayProvider) return 0; // Nothing live to record
+
+    // No cache: a cached answer would skip the provider and record nothing
+    const extractor = new GeminiExtractor(
+      provider instanceof RecordingProvider ? provider : new RecordingProvider(provider),
+      null
+    );
+    extractor.usePromptVersion(promptVersion);
+    logger.info('Recording test set answers', { prompt_version: promptVersion.version, pdfs: pdfPaths.length });
+
+    let recorded = 0;
+    for (const pdfPath of pdfPaths) {
+      try {
+        await extractor.extractFromPDF(pdfPath, usageTracker);
+        recorded++;
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          logger.warn('Model budget reached, remaining test PDFs are not recorded', { error: error.message });
+          break;
+        }
+        logger.warn('Test PDF not recorded', { prompt_version: promptVersion.version, path: pdfPath, error });
+      }
+    }
+
+    return recorded;
+  }
+
   /**
    * Analyze which extractions failed
    */
   private analyzeFailures(
-    validated: any[]
+    validated: TrainingExample[],
+    promptVersions: number[]
   ): any[] {
     const failures = [];
 
     for (const example of validated) {
       if (!example.manual_validation) continue;
 
-      const extracted = example.gemini_extraction.tender;
+      const extracted = this.trainingManager.getExtractionForPrompt(example, promptVersions).tender;
       const validated_ = example.manual_validation;
 
       // Check critical fields
@@ -260,9 +455,19 @@ If NO data found or extraction fails: return []
   }
 }
 
-// Run trainer
-const trainer = new ContinuousTrainer();
-trainer.train().catch((error) => {
-  logger.error('Fatal error', { error });
-  process.exit(1);
+const { values } = parseArgs({
+  options: {
+    source: { type: 'string' },
+  },
 });
+
+// Run trainer
+const sources = new SourceRegistry();
+sources
+  .load()
+  .then(() => new ContinuousTrainer(sources, sources.resolve(values.source as string | undefined)))
+  .then((trainer) => trainer.train())
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
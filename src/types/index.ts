@@ -10,6 +10,77 @@ export interface Tender {
   kod_bidang: string; // 6-digit code
   keterangan: string;
   status: 'Aktif' | 'Tidak Aktif';
+  source_id?: string; // Portal the tender was published on (see sources.json)
+}
+
+export interface TenderSource {
+  id: string;
+  name: string;
+  url: string; // Listing page; behavior learning starts here
+  enabled: boolean;
+  field_mapping: Record<string, keyof Tender>; // Extra header label -> field mappings
+  prompt_file?: string; // Seeds prompt v1 for this source instead of the default prompt
+  schedule?: {
+    interval_hours: number; // Crawl again this long after the last completed crawl
+  };
+}
+
+export interface TenderRecord {
+  key: string; // Stable identity: source ID + DAFTAR + KOD BIDANG
+  tender: Partial<Tender>;
+  field_confidence: Record<string, number>; // Confidence of each kept value
+  first_seen: Date;
+  last_seen: Date;
+  capture_ids: string[]; // Captures this record was seen in
+  last_crawl_id?: string; // Crawl that last updated the record
+}
+
+export type TenderEventType = 'new' | 'modified' | 'status_changed' | 'disappeared';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TenderEvent {
+  id: string; // Deterministic per previous complete crawl, key, type and new values, so re-runs don't duplicate
+  type: TenderEventType;
+  key: string;
+  daftar: string;
+  crawl_id: string;
+  detected_at: Date;
+  changes: FieldChange[]; // Empty for new and disappeared
+  tender: Partial<Tender>; // Latest known values
+}
+
+export interface SubscriptionRule {
+  id: string;
+  name: string;
+  kod_bidang_prefixes: string[]; // e.g. ['0103']; empty matches every code
+  keywords: string[]; // Any of these in bidang or keterangan; empty matches all
+  date_window?: {
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    last_days?: number; // tarikh within the last N days
+  };
+  statuses?: Tender['status'][]; // Empty or missing matches any status
+  event_types?: TenderEventType[]; // Defaults to ['new']
+  notifiers: string[]; // Notifier IDs from the subscriptions file
+}
+
+export interface TenderAlert {
+  rule: Pick<SubscriptionRule, 'id' | 'name'>;
+  events: TenderEvent[];
+  generated_at: Date;
+}
+
+export interface CrawlSnapshot {
+  crawl_id: string;
+  source_id?: string; // Missing on snapshots taken before multi-source support
+  taken_at: Date;
+  complete: boolean; // Covered every page, so absent tenders really disappeared
+  tenders: Record<string, Partial<Tender>>; // By TenderRecord key
 }
 
 export interface ExtractionResult {
@@ -21,6 +92,30 @@ export interface ExtractionResult {
   warnings: string[];
   errors: string[];
   raw_gemini_response?: string;
+  votes?: PassVotes; // Set when the row was voted on across several passes
+}
+
+export interface PassVotes {
+  passes: number;
+  rows_found: number; // Passes that returned this row
+  agreement: Record<string, number>; // Share of passes giving the winning value
+  disputed: string[]; // Fields without a strict majority, plus 'row' for a minority row
+}
+
+export interface CandidateExtraction {
+  prompt_version: number | null;
+  extraction: ExtractionResult;
+  extracted_at: Date;
+}
+
+export interface ValidationRevision {
+  id: string;
+  reviewer_id: string;
+  kind: 'validation' | 'rejection' | 'resolution';
+  tender?: Tender; // Absent for rejections
+  changes: FieldChange[]; // Against the previous ground truth, or the extraction before the first one
+  reason?: string;
+  created_at: Date;
 }
 
 export interface TrainingExample {
@@ -29,14 +124,67 @@ export interface TrainingExample {
   pdf_path: string;
   screenshot_path?: string;
   gemini_extraction: ExtractionResult;
+  candidate_extractions?: CandidateExtraction[]; // Re-extractions with later prompts
   manual_validation?: Tender; // Ground truth after manual review
+  revisions?: ValidationRevision[]; // Every validation, rejection and resolution, oldest first
+  assigned_reviewers?: string[]; // Double review: ground truth waits for all of them to agree
+  conflict_fields?: (keyof Tender)[]; // Fields the assigned reviewers disagree on, until resolved
+  rejected_at?: Date; // Reviewed and found not to be a tender row; no ground truth
+  rejection_reason?: string;
   confidence_score: number;
-  is_validated: boolean;
+  is_validated: boolean; // Reviewed: validated or rejected
   created_at: Date;
   improved_at?: Date;
   learning_iteration: number;
 }
 
+export interface FieldAgreement {
+  examples: number; // Double-reviewed examples both reviewers validated
+  agreement: number; // Share of them with the same value
+  kappa: number | null; // Chance-corrected agreement; null when every value is the same
+}
+
+export interface ReviewerStats {
+  reviewer_id: string;
+  validations: number;
+  rejections: number;
+  resolutions: number;
+  compared_fields: number; // Their double-reviewed field values with settled ground truth
+  accuracy: number | null; // Share of those that became ground truth
+}
+
+export interface AgreementReport {
+  double_reviewed: number; // Examples assigned to two or more reviewers
+  complete: number; // ... of which every assigned reviewer has validated
+  conflicts: number; // ... of which are waiting for resolution
+  per_field: Record<string, FieldAgreement>;
+  reviewers: ReviewerStats[];
+}
+
+export interface RowMatch {
+  extracted_index: number;
+  known_index: number;
+  score: number; // 0-1
+}
+
+export interface RowAlignment {
+  matches: RowMatch[];
+  missed: number[]; // Known rows with no extracted counterpart
+  invented: number[]; // Extracted rows that match no known row
+  duplicates: number[]; // Extracted rows repeating an already matched known row
+}
+
+export interface PdfAlignmentReport {
+  pdf_path: string;
+  known_rows: number;
+  extracted_rows: number;
+  matched: number;
+  correct: number;
+  missed: number;
+  invented: number;
+  duplicates: number;
+}
+
 export interface LearningSession {
   id: string;
   started_at: Date;
@@ -51,6 +199,7 @@ export interface LearningIteration {
   examples_processed: number;
   accuracy_before: number;
   accuracy_after: number;
+  accuracy_scope?: 'training_set'; // Test set left out; missing when every validated example was scored
   improvements: string[];
   timestamp: Date;
 }
@@ -68,6 +217,109 @@ export interface WebsiteBehavior {
   observed_at: Date;
 }
 
+export interface StoredBehaviorProfile {
+  version: number;
+  saved_at: Date;
+  behavior: WebsiteBehavior;
+}
+
+export interface BehaviorDiff {
+  from_version: number;
+  to_version: number;
+  changes: {
+    field: string;
+    before: unknown;
+    after: unknown;
+  }[];
+  columns_added: string[];
+  columns_removed: string[];
+  layout_changed: boolean;
+}
+
+export interface PromptVersion {
+  version: number;
+  parent_version: number | null;
+  prompt: string;
+  failure_patterns: string[];
+  accuracy: number | null; // Percentage reached with this prompt
+  created_at: Date;
+  promoted_at?: Date;
+}
+
+export interface CalibrationCounts {
+  correct: number;
+  total: number;
+}
+
+export interface ReliabilityBin {
+  from: number; // Predicted confidence range [from, to)
+  to: number;
+  count: number;
+  predicted: number; // Mean predicted confidence
+  observed: number; // Share of these field values that were correct
+}
+
+export interface ReliabilityReport {
+  predictions: number;
+  expected_calibration_error: number; // Count-weighted |predicted - observed| over bins
+  bins: ReliabilityBin[];
+  per_field: Record<string, { count: number; predicted: number; observed: number }>;
+}
+
+export interface CalibrationModel {
+  fitted_at: Date;
+  examples: number;
+  // Field -> signal bucket key -> how often values in that bucket were correct
+  fields: Record<string, Record<string, CalibrationCounts>>;
+  reliability: {
+    uncalibrated: ReliabilityReport; // Fixed format-check confidences
+    calibrated: ReliabilityReport; // Leave-one-out calibrated confidences
+  };
+}
+
+export interface TestSet {
+  frozen_at: Date;
+  test_share: number;
+  pdf_paths: string[]; // Whole PDFs are held out, so no page is in both splits
+  example_ids: string[]; // The validated rows of those PDFs when frozen
+  strata: Record<string, { pdfs: number; test_pdfs: number }>; // By main kod_bidang prefix
+}
+
+export interface Proportion {
+  value: number; // 0-1
+  low: number; // 95% Wilson interval
+  high: number;
+  n: number;
+}
+
+export interface EvaluationReport {
+  label: string;
+  prompt_version: number | null;
+  model: string | null; // Only responses recorded from this model were replayed
+  evaluated_at: Date;
+  pdfs: number; // Scored: answered by every version in the run
+  rows: number; // Validated rows of the scored PDFs
+  unanswered_pdfs: string[]; // No recorded response, or the call failed
+  exact_match: Proportion; // Validated rows extracted with every field right
+  per_field: Record<string, { precision: Proportion; recall: Proportion }>;
+  missed_rows: number;
+  invented_rows: number; // Matching no validated row; includes rows of a PDF not reviewed yet
+}
+
+export interface RegressionCheck {
+  field: string;
+  metric: 'precision' | 'recall';
+  baseline: number;
+  candidate: number;
+  regressed: boolean;
+}
+
+export interface GateResult {
+  passed: boolean;
+  reasons: string[];
+  checks: RegressionCheck[];
+}
+
 export interface ScrapingMetrics {
   total_tenders_found: number;
   successfully_extracted: number;
@@ -76,4 +328,59 @@ export interface ScrapingMetrics {
   extraction_accuracy: number;
   processing_time_ms: number;
   timestamp: Date;
+  // Model usage of the run; missing on metrics recorded before usage tracking
+  run_id?: string;
+  session_id?: string;
+  source_id?: string;
+  model_calls?: number;
+  prompt_tokens?: number;
+  response_tokens?: number;
+  estimated_cost_usd?: number;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  response_tokens: number;
+}
+
+export interface ModelCall {
+  id: string;
+  run_id: string;
+  session_id?: string;
+  source_id?: string;
+  provider: string;
+  model: string;
+  prompt_version: number | null;
+  pdf_path: string;
+  prompt_tokens: number;
+  response_tokens: number;
+  usage_estimated: boolean; // Provider reported no usage; tokens estimated from sizes
+  latency_ms: number;
+  cost_usd: number;
+  success: boolean;
+  error?: string;
+  called_at: Date;
+}
+
+export interface ParseFailure {
+  id: string;
+  run_id?: string;
+  provider: string;
+  model: string;
+  prompt_version: number | null;
+  pdf_path: string;
+  attempt: number; // 1 for the first call, 2+ for correction retries
+  problems: string[]; // JSON repairs that failed and tenderSchema errors
+  recovered_rows: number;
+  response_text: string;
+  failed_at: Date;
+}
+
+export interface UsageSummary {
+  calls: number;
+  failed_calls: number;
+  prompt_tokens: number;
+  response_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
 }
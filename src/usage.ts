@@ -0,0 +1,139 @@
+/**
+ * MODEL USAGE
+ * Tokens, latency and estimated cost of recorded model calls
+ *
+ * Usage:
+ *   npm run usage -- [--by run|session|source|model|day] [--since YYYY-MM-DD]
+ *   npm run usage -- --run <run id>      Every call of one run
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import logger from './utils/logger.js';
+import UsageTracker from './learning/usage-tracker.js';
+import { createStorage, StorageBackend } from './storage/index.js';
+import { ModelCall } from './types/index.js';
+
+type GroupBy = 'run' | 'session' | 'source' | 'model' | 'day';
+
+const GROUP_KEYS: Record<GroupBy, (call: ModelCall) => string> = {
+  run: (call) => call.run_id,
+  session: (call) => call.session_id || '-',
+  source: (call) => call.source_id || '-',
+  model: (call) => `${call.provider}/${call.model}`,
+  day: (call) => new Date(call.called_at).toISOString().slice(0, 10),
+};
+
+interface UsageOptions {
+  by: GroupBy;
+  since?: Date;
+  runId?: string;
+}
+
+class UsageCommand {
+  private storage: StorageBackend;
+
+  constructor() {
+    this.storage = createStorage();
+  }
+
+  async run(options: UsageOptions): Promise<void> {
+    try {
+      await this.storage.initialize();
+      const calls = await this.storage.getModelCalls({ since: options.since, runId: options.runId });
+
+      if (calls.length === 0) {
+        console.log('No model calls recorded.');
+        return;
+      }
+
+      if (options.runId) {
+        this.printCalls(calls);
+      } else {
+        this.printGroups(calls, options.by);
+      }
+
+      const total = UsageTracker.summarize(calls);
+      console.log(
+        `\nTotal: ${total.calls} calls (${total.failed_calls} failed), ` +
+          `${total.prompt_tokens} prompt + ${total.response_tokens} response tokens, ` +
+          `$${total.cost_usd.toFixed(4)}`
+      );
+    } finally {
+      await this.storage.close();
+    }
+  }
+
+  /**
+   * Roll calls up by run, session, source, model or day
+   */
+  private printGroups(calls: ModelCall[], by: GroupBy): void {
+    const groups = new Map<string, ModelCall[]>();
+    for (const call of calls) {
+      const key = GROUP_KEYS[by](call);
+      groups.set(key, [...(groups.get(key) || []), call]);
+    }
+
+    console.log(`\n=== MODEL USAGE BY ${by.toUpperCase()} ===`);
+    console.log(
+      `${by.padEnd(38)} ${'calls'.padStart(6)} ${'failed'.padStart(6)} ` +
+        `${'prompt'.padStart(10)} ${'response'.padStart(10)} ${'avg ms'.padStart(8)} ${'cost $'.padStart(10)}`
+    );
+
+    for (const [key, group] of groups) {
+      const summary = UsageTracker.summarize(group);
+      console.log(
+        `${key.padEnd(38)} ${String(summary.calls).padStart(6)} ${String(summary.failed_calls).padStart(6)} ` +
+          `${String(summary.prompt_tokens).padStart(10)} ${String(summary.response_tokens).padStart(10)} ` +
+          `${String(Math.round(summary.latency_ms / summary.calls)).padStart(8)} ` +
+          `${summary.cost_usd.toFixed(4).padStart(10)}`
+      );
+    }
+  }
+
+  /**
+   * One line per call
+   */
+  private printCalls(calls: ModelCall[]): void {
+    console.log(`\n=== MODEL CALLS: ${calls[0].run_id} ===`);
+
+    for (const call of calls) {
+      const when = new Date(call.called_at).toISOString().replace('T', ' ').slice(0, 19);
+      const prompt = call.prompt_version !== null ? `v${call.prompt_version}` : '-';
+      const estimated = call.usage_estimated ? ' (estimated)' : '';
+
+      console.log(
+        `${when}  ${call.model}  prompt ${prompt}  ${call.prompt_tokens}+${call.response_tokens} tokens${estimated}  ` +
+          `${call.latency_ms}ms  $${call.cost_usd.toFixed(4)}  ${call.success ? call.pdf_path : `FAILED: ${call.error}`}`
+      );
+    }
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    by: { type: 'string', short: 'b', default: 'run' },
+    since: { type: 'string', short: 's' },
+    run: { type: 'string', short: 'r' },
+  },
+});
+
+if (!((values.by as string) in GROUP_KEYS)) {
+  console.log(`Unknown grouping: ${values.by} (expected ${Object.keys(GROUP_KEYS).join(', ')})`);
+  process.exit(1);
+}
+
+const since = values.since ? new Date(values.since as string) : undefined;
+if (since && isNaN(since.getTime())) {
+  console.log(`Invalid date: ${values.since}`);
+  process.exit(1);
+}
+
+// Run command
+const usageCommand = new UsageCommand();
+usageCommand
+  .run({ by: values.by as GroupBy, since, runId: values.run as string | undefined })
+  .catch((error) => {
+    logger.error('Fatal error', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+import { Tender } from '../types/index.js';
+
+export const TENDER_FIELDS: (keyof Tender)[] = [
+  'bil',
+  'tarikh',
+  'daftar',
+  'bidang',
+  'kod_bidang',
+  'keterangan',
+  'status',
+];
+
+// Header labels seen on Malaysian tender portals, most specific first
+// ("KOD BIDANG" must be checked before "BIDANG")
+const HEADER_ALIASES: [keyof Tender, string[]][] = [
+  ['kod_bidang', ['KOD BIDANG', 'KOD', 'CODE']],
+  ['bil', ['BIL', 'NO', 'BILANGAN']],
+  ['tarikh', ['TARIKH', 'TARIKH IKLAN', 'TARIKH TUTUP', 'DATE']],
+  ['daftar', ['DAFTAR', 'NO DAFTAR', 'NO RUJUKAN', 'RUJUKAN', 'NO TENDER', 'NO SEBUT HARGA']],
+  ['bidang', ['BIDANG', 'KATEGORI', 'CATEGORY']],
+  ['keterangan', ['KETERANGAN', 'TAJUK', 'PERKARA', 'DESCRIPTION']],
+  ['status', ['STATUS']],
+];
+
+/**
+ * Normalize a header label for matching
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Map a table header label to a Tender field. Source-specific labels
+ * (TenderSource.field_mapping) are checked before the built-in aliases.
+ */
+export function mapHeaderToField(
+  header: string,
+  overrides: Record<string, keyof Tender> = {}
+): keyof Tender | null {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return null;
+
+  for (const [label, field] of Object.entries(overrides)) {
+    if (normalizeHeader(label) === normalized) return field;
+  }
+
+  // Exact alias match first
+  for (const [field, aliases] of HEADER_ALIASES) {
+    if (aliases.includes(normalized)) return field;
+  }
+
+  // Then headers that contain an alias as a whole word, e.g. "NO. DAFTAR / RUJUKAN"
+  for (const [field, aliases] of HEADER_ALIASES) {
+    if (aliases.some((alias) => alias.length > 3 && new RegExp(`\\b${alias}\\b`).test(normalized))) {
+      return field;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map table headers to Tender fields, keeping column positions
+ */
+export function mapColumns(
+  headers: string[],
+  overrides: Record<string, keyof Tender> = {}
+): (keyof Tender | null)[] {
+  return headers.map((header) => mapHeaderToField(header, overrides));
+}
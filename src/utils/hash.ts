@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+/**
+ * SHA-256 hex digest of a buffer or string
+ */
+export function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
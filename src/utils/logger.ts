@@ -22,7 +22,9 @@ const logger = winston.createLogger({
   transports: [
     new winston.transports.File({ filename: 'logs/error.log', level: 'error' }),
     new winston.transports.File({ filename: 'logs/combined.log' }),
+    // stderr, so command output on stdout can be piped (npm run sources -- due)
     new winston.transports.Console({
+      stderrLevels: Object.keys(winston.config.npm.levels),
       format: winston.format.combine(
         winston.format.colorize(),
         winston.format.simple()
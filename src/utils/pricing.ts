@@ -0,0 +1,52 @@
+import { TokenUsage } from '../types/index.js';
+
+// USD per million tokens (input, output), from the Gemini API price list
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.0 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+// Gemini bills each PDF page as an image of this many tokens
+const TOKENS_PER_PDF_PAGE = 258;
+// ...and each image sent with the prompt
+export const TOKENS_PER_IMAGE = 258;
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Price of a model per million tokens. MODEL_PRICE_INPUT_PER_MTOK and
+ * MODEL_PRICE_OUTPUT_PER_MTOK override the table, e.g. for HTTP providers.
+ */
+export function priceFor(model: string): { input: number; output: number } {
+  const known = MODEL_PRICES[model] || MODEL_PRICES[model.replace(/-(latest|\d{3})$/, '')];
+
+  return {
+    input: parseFloat(process.env.MODEL_PRICE_INPUT_PER_MTOK || '') || known?.input || 0,
+    output: parseFloat(process.env.MODEL_PRICE_OUTPUT_PER_MTOK || '') || known?.output || 0,
+  };
+}
+
+/**
+ * Estimated cost of a call in USD
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = priceFor(model);
+  return (usage.prompt_tokens * price.input + usage.response_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * Token estimate for providers that report no usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Prompt token estimate for a prompt plus a PDF, counting the PDF's pages
+ * and any images sent with it
+ */
+export function estimatePromptTokens(prompt: string, pdfData: Buffer, images: number = 0): number {
+  const pages = (pdfData.toString('latin1').match(/\/Type\s*\/Page(?!s)/g) || []).length;
+  return estimateTokens(prompt) + Math.max(pages, 1) * TOKENS_PER_PDF_PAGE + images * TOKENS_PER_IMAGE;
+}
@@ -0,0 +1,174 @@
+/**
+ * Lenient parsing of model responses that should be a JSON array of rows.
+ * Handles code fences, prose around the array, trailing commas and
+ * truncated output, keeping every complete object it can recover.
+ */
+
+export interface ParsedResponse {
+  items: Record<string, unknown>[];
+  issues: string[]; // Problems found; empty when the response parsed as-is
+}
+
+/**
+ * Body of the first ```json fenced block, or the text itself without one.
+ * An unclosed fence (truncated response) yields everything after it.
+ */
+export function stripCodeFences(text: string): string {
+  const fence = text.match(/```[a-zA-Z]*\s*\n?/);
+  if (!fence || fence.index === undefined) return text;
+
+  const body = text.slice(fence.index + fence[0].length);
+  const end = body.indexOf('```');
+  return end === -1 ? body : body.slice(0, end);
+}
+
+/**
+ * Drop commas directly before a closing bracket, outside of strings
+ */
+export function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += json[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Parse a model response into row objects
+ */
+export function parseModelResponse(text: string): ParsedResponse {
+  const body = stripCodeFences(text);
+
+  // The array starts at the first "[" that opens objects (or is empty),
+  // so bracketed prose before it is skipped
+  const arrayStart = body.search(/\[\s*[{\]]/);
+  const start = arrayStart !== -1 ? arrayStart : body.indexOf('{');
+  if (start === -1) {
+    return { items: [], issues: ['No JSON array found in response'] };
+  }
+
+  // A bare object or a run of objects is recovered one object at a time
+  const end = arrayStart !== -1 ? findClosingBracket(body, start) : -1;
+  if (end !== -1) {
+    try {
+      const parsed = JSON.parse(removeTrailingCommas(body.slice(start, end + 1)));
+      const values: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+      const items = values.filter(isObject);
+      const issues =
+        items.length < values.length ? [`Dropped ${values.length - items.length} non-object entries`] : [];
+      return { items, issues };
+    } catch {
+      // Fall through to recovering objects one by one
+    }
+  }
+
+  return recoverObjects(body, start);
+}
+
+/**
+ * Parse each complete top-level object after `start` on its own, dropping
+ * malformed ones and an unfinished last one
+ */
+function recoverObjects(body: string, start: number): ParsedResponse {
+  const items: Record<string, unknown>[] = [];
+  const issues: string[] = [];
+  const objectDepth = body[start] === '[' ? 1 : 0;
+  let depth = 0;
+  let inString = false;
+  let objectStart = -1;
+  let closed = false;
+
+  for (let i = start; i < body.length && !closed; i++) {
+    const char = body[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (char === '{' && depth === objectDepth) objectStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (char === '}' && depth === objectDepth && objectStart !== -1) {
+        try {
+          const parsed = JSON.parse(removeTrailingCommas(body.slice(objectStart, i + 1)));
+          if (isObject(parsed)) items.push(parsed);
+        } catch (error) {
+          issues.push(`Dropped malformed object at offset ${objectStart}: ${(error as Error).message}`);
+        }
+        objectStart = -1;
+      }
+      closed = depth < objectDepth;
+    }
+  }
+
+  // An array must be closed; a run of objects only needs its last one finished
+  if ((objectDepth === 1 && !closed) || objectStart !== -1) {
+    issues.push(
+      objectStart !== -1
+        ? `Response truncated; dropped the unfinished object at offset ${objectStart}`
+        : 'Response truncated before the closing bracket'
+    );
+  }
+  if (issues.length === 0 && (objectDepth === 1 || items.length === 0)) {
+    issues.push(`Response is not a valid JSON array; recovered ${items.length} objects`);
+  }
+
+  return { items, issues };
+}
+
+/**
+ * Index of the bracket closing the one at `start`, or -1 when truncated
+ */
+function findClosingBracket(body: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < body.length; i++) {
+    const char = body[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,98 @@
+import { ExtractionResult, Tender } from '../types/index.js';
+import { normalizeDate, cleanText, isValidKodBidang, isValidStatus } from './validation.js';
+
+/**
+ * Validate and score an individual tender row.
+ * Shared by every extraction path so their confidences are comparable.
+ */
+export function scoreTender(data: any): ExtractionResult {
+  const extraction: Partial<Tender> = {};
+  const perFieldConfidence: Record<string, number> = {};
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  // Validate BIL
+  if (typeof data.bil === 'number' && data.bil > 0) {
+    extraction.bil = data.bil;
+    perFieldConfidence.bil = 1;
+  } else {
+    perFieldConfidence.bil = 0;
+    errors.push('Invalid BIL');
+  }
+
+  // Validate TARIKH
+  const normalizedDate = normalizeDate(data.tarikh || '');
+  if (normalizedDate) {
+    extraction.tarikh = normalizedDate;
+    perFieldConfidence.tarikh = 1;
+  } else {
+    perFieldConfidence.tarikh = 0;
+    errors.push(`Invalid date format: ${data.tarikh}`);
+  }
+
+  // Validate DAFTAR
+  if (data.daftar && typeof data.daftar === 'string') {
+    extraction.daftar = cleanText(data.daftar);
+    perFieldConfidence.daftar = 0.9; // Slight uncertainty due to possible variations
+  } else {
+    perFieldConfidence.daftar = 0;
+    errors.push('Missing DAFTAR');
+  }
+
+  // Validate BIDANG
+  if (data.bidang && typeof data.bidang === 'string' && data.bidang.length > 5) {
+    extraction.bidang = cleanText(data.bidang);
+    perFieldConfidence.bidang = 0.95;
+  } else {
+    perFieldConfidence.bidang = 0;
+    errors.push('Invalid BIDANG');
+  }
+
+  // Validate KOD BIDANG (critical field)
+  if (isValidKodBidang(data.kod_bidang)) {
+    extraction.kod_bidang = data.kod_bidang;
+    perFieldConfidence.kod_bidang = 1;
+  } else {
+    perFieldConfidence.kod_bidang = 0;
+    errors.push(`Invalid KOD BIDANG format: ${data.kod_bidang}`);
+  }
+
+  // Validate KETERANGAN
+  if (data.keterangan && typeof data.keterangan === 'string' && data.keterangan.length > 5) {
+    extraction.keterangan = cleanText(data.keterangan);
+    perFieldConfidence.keterangan = 0.9;
+  } else {
+    perFieldConfidence.keterangan = 0;
+    errors.push('Invalid KETERANGAN');
+  }
+
+  // Validate STATUS
+  if (isValidStatus(data.status)) {
+    extraction.status = data.status;
+    perFieldConfidence.status = 1;
+  } else {
+    perFieldConfidence.status = 0;
+    errors.push(`Invalid STATUS: ${data.status}`);
+  }
+
+  // Calculate overall confidence
+  const confidenceValues = Object.values(perFieldConfidence);
+  const overallConfidence =
+    confidenceValues.length > 0
+      ? confidenceValues.reduce((a, b) => a + b) / confidenceValues.length
+      : 0;
+
+  if (errors.length > 0) {
+    warnings.push(`Extraction had ${errors.length} validation errors`);
+  }
+
+  return {
+    tender: extraction,
+    confidence: {
+      overall: parseFloat(overallConfidence.toFixed(3)),
+      per_field: perFieldConfidence,
+    },
+    warnings,
+    errors,
+  };
+}
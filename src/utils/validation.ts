@@ -14,6 +14,7 @@ export const tenderSchema = z.object({
     .regex(/^\d{6}$/, 'Kod Bidang must be exactly 6 digits'),
   keterangan: z.string().min(10, 'Keterangan must be at least 10 characters'),
   status: z.enum(['Aktif', 'Tidak Aktif']),
+  source_id: z.string().optional(),
 });
 
 export type TenderSchemaType = z.infer<typeof tenderSchema>;
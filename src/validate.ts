@@ -1,18 +1,25 @@
 /**
  * VALIDATION ANALYSIS
  * Analyzes extraction quality and identifies improvement areas
+ *
+ * Usage: npm run validate -- [--source ID]   (default: examples from every source)
  */
 
 import 'dotenv/config';
+import { parseArgs } from 'util';
 import logger from './utils/logger.js';
 import TrainingDataManager from './learning/training-manager.js';
-import { ExtractionResult, Tender } from './types/index.js';
+import RowMatcher from './learning/row-matcher.js';
+import { createStorage } from './storage/index.js';
+import { Tender, TrainingExample } from './types/index.js';
 
 class ValidationAnalyzer {
   private trainingManager: TrainingDataManager;
+  private rowMatcher: RowMatcher;
 
-  constructor() {
-    this.trainingManager = new TrainingDataManager();
+  constructor(sourceId?: string) {
+    this.trainingManager = new TrainingDataManager(createStorage(), undefined, sourceId);
+    this.rowMatcher = new RowMatcher();
   }
 
   /**
@@ -54,37 +61,57 @@ class ValidationAnalyzer {
 
       let perfectExtractions = 0;
 
+      // Check each field
+      const fields: (keyof Tender)[] = [
+        'bil',
+        'tarikh',
+        'daftar',
+        'bidang',
+        'kod_bidang',
+        'keterangan',
+        'status',
+      ];
+
+      // Compare rows aligned per PDF so a shifted row is not scored
+      // against the wrong ground truth
+      const byPdf = new Map<string, TrainingExample[]>();
       for (const example of validated) {
         if (!example.manual_validation) continue;
+        byPdf.set(example.pdf_path, [...(byPdf.get(example.pdf_path) || []), example]);
+      }
 
-        const extracted = example.gemini_extraction.tender;
-        const validated_ = example.manual_validation;
-
-        let fieldsMismatched = false;
-
-        // Check each field
-        const fields: (keyof Tender)[] = [
-          'bil',
-          'tarikh',
-          'daftar',
-          'bidang',
-          'kod_bidang',
-          'keterangan',
-          'status',
-        ];
+      for (const examples of byPdf.values()) {
+        const extractedRows = examples.map((e) => e.gemini_extraction.tender);
+        const knownRows = examples.map((e) => e.manual_validation!);
+        const alignment = this.rowMatcher.align(extractedRows, knownRows);
+
+        for (const match of alignment.matches) {
+          const extracted = extractedRows[match.extracted_index];
+          const validated_ = knownRows[match.known_index];
+
+          let fieldsMismatched = false;
+
+          for (const field of fields) {
+            if (extracted[field] !== validated_[field]) {
+              fieldErrors[field]++;
+              fieldsMismatched = true;
+              errorDetails[field].push(
+                `Expected: ${validated_[field]}, Got: ${extracted[field]}`
+              );
+            }
+          }
 
-        for (const field of fields) {
-          if (extracted[field] !== validated_[field]) {
-            fieldErrors[field]++;
-            fieldsMismatched = true;
-            errorDetails[field].push(
-              `Expected: ${validated_[field]}, Got: ${extracted[field]}`
-            );
+          if (!fieldsMismatched) {
+            perfectExtractions++;
           }
         }
 
-        if (!fieldsMismatched) {
-          perfectExtractions++;
+        // A missed row gets every field wrong
+        for (const knownIndex of alignment.missed) {
+          for (const field of fields) {
+            fieldErrors[field]++;
+          }
+          errorDetails.daftar.push(`Missed row: ${knownRows[knownIndex].daftar}`);
         }
       }
 
@@ -107,6 +134,24 @@ class ValidationAnalyzer {
         }
       }
 
+      // Row alignment per PDF
+      const alignment = await this.trainingManager.alignByPdf();
+      const problemPdfs = alignment.filter((r) => r.missed + r.invented + r.duplicates > 0);
+
+      console.log('\nRow Alignment:');
+      console.log('---');
+      console.log(`PDFs checked: ${alignment.length}`);
+      console.log(`Missed rows: ${alignment.reduce((sum, r) => sum + r.missed, 0)}`);
+      console.log(`Invented rows: ${alignment.reduce((sum, r) => sum + r.invented, 0)}`);
+      console.log(`Duplicate rows: ${alignment.reduce((sum, r) => sum + r.duplicates, 0)}`);
+
+      problemPdfs.slice(0, 5).forEach((r) => {
+        console.log(
+          `   - ${r.pdf_path}: ${r.matched}/${r.known_rows} matched, ` +
+            `${r.missed} missed, ${r.invented} invented, ${r.duplicates} duplicates`
+        );
+      });
+
       // Calculate accuracy
       const accuracy = await this.trainingManager.calculateAccuracy();
       console.log(`\nOverall Extraction Accuracy: ${accuracy}%`);
@@ -125,12 +170,20 @@ class ValidationAnalyzer {
       await this.trainingManager.generateReport();
     } catch (error) {
       logger.error('Validation analysis failed', { error });
+    } finally {
+      await this.trainingManager.close();
     }
   }
 }
 
+const { values } = parseArgs({
+  options: {
+    source: { type: 'string' },
+  },
+});
+
 // Run analyzer
-const analyzer = new ValidationAnalyzer();
+const analyzer = new ValidationAnalyzer(values.source as string | undefined);
 analyzer.analyzeValidations().catch((error) => {
   logger.error('Fatal error', { error });
   process.exit(1);
@@ -0,0 +1,85 @@
+/**
+ * QUEUE WORKER
+ * Process capture, extract and persist jobs from Redis. Start as many
+ * workers as needed; rate limits and retries are shared through Redis.
+ *
+ * Usage: npm run worker -- [capture] [extract] [persist]   (default: all stages)
+ */
+
+import 'dotenv/config';
+import logger from './utils/logger.js';
+import {
+  JobProcessors,
+  StageName,
+  TenderQueues,
+  closeQueues,
+  createQueues,
+  forwardToDeadLetter,
+} from './queue/index.js';
+
+const STAGES: StageName[] = ['capture', 'extract', 'persist'];
+
+class QueueWorker {
+  private queues: TenderQueues;
+  private processors: JobProcessors;
+
+  constructor() {
+    this.queues = createQueues();
+    this.processors = new JobProcessors(this.queues);
+  }
+
+  async run(args: string[]): Promise<void> {
+    const unknown = args.filter((a) => !STAGES.includes(a as StageName));
+    if (unknown.length > 0) {
+      console.log(`Unknown stage: ${unknown.join(', ')}`);
+      console.log(`Available: ${STAGES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const stages = args.length > 0 ? (args as StageName[]) : STAGES;
+    const concurrency = parseInt(process.env.QUEUE_CONCURRENCY || '1');
+
+    // Persist stays serial within a worker, and across workers through the
+    // persist lock; each job reloads the store
+    if (stages.includes('capture')) {
+      forwardToDeadLetter('capture', this.queues.capture, this.queues.deadLetter);
+      this.queues.capture.process(concurrency, (job) => this.processors.capture(job));
+    }
+    if (stages.includes('extract')) {
+      forwardToDeadLetter('extract', this.queues.extract, this.queues.deadLetter);
+      this.queues.extract.process(concurrency, (job) => this.processors.extract(job));
+    }
+    if (stages.includes('persist')) {
+      forwardToDeadLetter('persist', this.queues.persist, this.queues.deadLetter);
+      this.queues.persist.process(1, (job) => this.processors.persist(job));
+    }
+
+    for (const stage of stages) {
+      this.queues[stage].on('completed', (job) => {
+        logger.info('Job completed', { queue: stage, job_id: job.id });
+      });
+    }
+
+    process.once('SIGINT', () => this.shutdown());
+    process.once('SIGTERM', () => this.shutdown());
+
+    logger.info('Queue worker started', { stages, concurrency });
+  }
+
+  /**
+   * Finish active jobs, then release the browser, storage and Redis
+   */
+  private async shutdown(): Promise<void> {
+    logger.info('Shutting down queue worker...');
+    await closeQueues(this.queues);
+    await this.processors.close();
+    process.exit(0);
+  }
+}
+
+// Run worker
+const worker = new QueueWorker();
+worker.run(process.argv.slice(2)).catch((error) => {
+  logger.error('Fatal error', { error });
+  process.exit(1);
+});